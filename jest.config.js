@@ -0,0 +1,19 @@
+/**
+ * @fileoverview Jest configuration; tests live in `tests` and run against in-memory
+ * stand-ins for PostgreSQL and Redis (see `tests/helpers`)
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: { '^@/(.*)$': '<rootDir>/src/$1' },
+  // Some modules import `types` relative to the `baseUrl` of tsconfig.json
+  modulePaths: ['<rootDir>/src'],
+  setupFiles: ['<rootDir>/tests/setup.ts'],
+};
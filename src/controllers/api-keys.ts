@@ -0,0 +1,97 @@
+/**
+ * @fileoverview API key router implementation.
+ * Exposes endpoints for creating, listing and revoking API keys for machine-to-machine clients.
+ * @module api-keys
+ */
+
+import express from 'express';
+import { instanceToPlain } from 'class-transformer';
+import { JWTPayload } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { requirePermission } from '@/core/common/authorization';
+import { HTTP_CREATED, HTTP_FORBIDDEN, HTTP_OK } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { validate } from '@/core/common/validation';
+import { CreateApiKeyDto, ListApiKeysQueryDto } from '@/dtos/api-key.dto';
+import apiKeyService from '@/services/api-key';
+
+const router = express.Router();
+
+router.use(authenticated);
+
+/**
+ * Endpoint for creating an API key owned by the current user
+ * @route POST /api/v1/api-keys
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `api-keys:write`
+ * @middleware validate - Checks the request body
+ * @param {string} name - Label of the key
+ * @param {string[]} [roles] - Roles granted to the key (defaults to the creator's roles)
+ * @param {string[]} [permissions] - Permissions granted to the key (only ones you hold)
+ * @param {string} [tenantId] - Tenant the key is restricted to
+ * @param {string} [expiresAt] - ISO 8601 expiry date
+ * @returns {Object} JSON response containing the key record and the plain key, shown only once
+ */
+router.post(
+  '/',
+  requirePermission('api-keys:write'),
+  validate({ body: CreateApiKeyDto }),
+  async (req, res) => {
+    const session = req.session.user as JWTPayload;
+
+    // Keys can't mint further keys
+    if (session.apiKeyId) {
+      throwError('API keys cannot be used to create API keys', HTTP_FORBIDDEN);
+    }
+
+    const { apiKey, key } = await apiKeyService.createKey(session, req.body as CreateApiKeyDto);
+
+    res
+      .status(HTTP_CREATED)
+      .json({ success: true, data: { apiKey: instanceToPlain(apiKey), key } });
+  }
+);
+
+/**
+ * Endpoint for listing API keys
+ * @route GET /api/v1/api-keys
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `api-keys:read`
+ * @middleware validate - Checks the query parameters
+ * @param {string} [ownerId] - Only list keys owned by this user
+ * @returns {Object} JSON response containing the keys
+ */
+router.get(
+  '/',
+  requirePermission('api-keys:read'),
+  validate({ query: ListApiKeysQueryDto }),
+  async (req, res) => {
+    const { ownerId } = req.query as ListApiKeysQueryDto;
+    const apiKeys = await apiKeyService.listKeys(ownerId);
+
+    res.status(HTTP_OK).json({ success: true, data: { apiKeys: instanceToPlain(apiKeys) } });
+  }
+);
+
+/**
+ * Endpoint for revoking an API key
+ * @route DELETE /api/v1/api-keys/:keyId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `api-keys:write`
+ * @param {string} keyId - The ID of the key
+ * @returns {Object} JSON response containing the revoked key
+ */
+router.delete('/:keyId', requirePermission('api-keys:write'), async (req, res) => {
+  const apiKey = await apiKeyService.revokeKey(
+    req.params.keyId as string,
+    req.session.user as JWTPayload
+  );
+
+  res.status(HTTP_OK).json({ success: true, data: { apiKey: instanceToPlain(apiKey) } });
+});
+
+/**
+ * Express router for API key routes
+ * @type {express.Router}
+ */
+export const apiKeys = router;
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Audit log router implementation.
+ * Exposes endpoints for administrators to search and export the audit log.
+ * The log is append-only, so there are no endpoints to change or remove entries.
+ * @module audit-logs
+ */
+
+import express from 'express';
+import { JWTPayload } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { requirePermission } from '@/core/common/authorization';
+import { HTTP_OK } from '@/core/common/constants';
+import { parseExportColumns, resolveExportFormat, sendExport } from '@/core/common/export';
+import { logger } from '@/core/common/logger';
+import { validate } from '@/core/common/validation';
+import { ExportAuditLogsQueryDto, ListAuditLogsQueryDto } from '@/dtos/audit-log.dto';
+import auditService, { AUDIT_EXPORT_COLUMNS } from '@/services/audit';
+
+const router = express.Router();
+
+router.use(authenticated);
+
+/**
+ * Endpoint for searching the audit log, newest entries first
+ * @route GET /api/v1/audit-logs
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `audit:read`
+ * @middleware validate - Checks the query parameters
+ * @param {string} [actorId] - Only entries of actions by this user
+ * @param {string} [tenantId] - Only entries of actions within this tenant
+ * @param {string} [action] - Only entries of this action, e.g. `auth.login.failed`
+ * @param {string} [targetType] - Only entries about this kind of resource, e.g. `user`
+ * @param {string} [targetId] - Only entries about the resource with this ID or name
+ * @param {string} [from] - Only entries at or after this ISO 8601 date
+ * @param {string} [to] - Only entries at or before this ISO 8601 date
+ * @param {number} [limit] - Page size, 1-200 (default 50)
+ * @param {string} [cursor] - `nextCursor` of the previous page
+ * @returns {Object} JSON response containing the entries and pagination details
+ */
+router.get(
+  '/',
+  requirePermission('audit:read'),
+  validate({ query: ListAuditLogsQueryDto }),
+  async (req, res) => {
+    const { entries, pagination } = await auditService.listEntries(
+      req.query as unknown as ListAuditLogsQueryDto
+    );
+
+    res.status(HTTP_OK).json({ success: true, data: { entries, pagination } });
+  }
+);
+
+/**
+ * Endpoint for exporting the audit log as a file. Takes the filters of the search endpoint.
+ * The format is chosen by the `format` parameter or else by the `Accept` header.
+ * @route GET /api/v1/audit-logs/export
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `audit:read`
+ * @middleware validate - Checks the query parameters
+ * @param {string} [format] - csv (default), xlsx or ndjson
+ * @param {string} [columns] - Comma-separated columns to export (default all)
+ * @returns {File} The entries as CSV, XLSX or NDJSON
+ */
+router.get(
+  '/export',
+  requirePermission('audit:read'),
+  validate({ query: ExportAuditLogsQueryDto }),
+  async (req, res) => {
+    const format = resolveExportFormat(req);
+    const { columns: requestedColumns, ...filters } =
+      req.query as unknown as ExportAuditLogsQueryDto;
+    const columns = parseExportColumns(requestedColumns, AUDIT_EXPORT_COLUMNS);
+
+    logger.info('Audit log exported', {
+      userId: (req.session.user as JWTPayload).userId,
+      format,
+      ...filters,
+    });
+
+    await sendExport(res, {
+      format,
+      filename: `audit-log-${new Date().toISOString().slice(0, 10)}`,
+      columns,
+      rows: auditService.streamEntries(filters),
+    });
+  }
+);
+
+/**
+ * Express router for audit log routes
+ * @type {express.Router}
+ */
+export const auditLogs = router;
@@ -0,0 +1,428 @@
+/**
+ * @fileoverview Authentication router implementation.
+ * Exposes registration, login, logout and password management endpoints backed by AuthService.
+ * @module auth
+ */
+
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import { instanceToPlain } from 'class-transformer';
+import { JWTPayload } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { requirePermission } from '@/core/common/authorization';
+import { HTTP_CREATED, HTTP_OK, HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { throwError, TooManyRequestsError } from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+import { validate } from '@/core/common/validation';
+import {
+  ChangePasswordDto,
+  EmailDto,
+  LoginDto,
+  MfaCodeDto,
+  MfaVerifyDto,
+  OAuthCallbackQueryDto,
+  RefreshTokenDto,
+  RegisterDto,
+  ResetPasswordDto,
+  TokenDto,
+} from '@/dtos/auth.dto';
+import { UserIdParamsDto } from '@/dtos/user.dto';
+import authService from '@/services/auth';
+import mfaService from '@/services/mfa';
+import oauthService from '@/services/oauth';
+import roleService from '@/services/role';
+import { User } from '@/entity/user.entity';
+
+const router = express.Router();
+
+// Limit verification email resends per address to avoid flooding inboxes
+const resendVerificationLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 3, // Limit each email address to 3 resends per windowMs
+  keyGenerator: req => String(req.body?.email || req.ip).toLowerCase(),
+  handler: (req, res, next) =>
+    next(
+      new TooManyRequestsError('Too many verification emails requested, please try again later.')
+    ),
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+/**
+ * Strips credentials from a user before it is returned to the client by applying
+ * the entity's `@Exclude()` rules
+ * @param {User} user - The user entity
+ * @returns {Object} Public user fields
+ */
+const toPublicUser = (user: User) => instanceToPlain(user);
+
+/**
+ * Endpoint for registering a new user account
+ * @route POST /api/v1/auth/register
+ * @middleware validate - Checks the request body
+ * @param {string} email - The user's email address
+ * @param {string} password - The user's password (min 8 characters)
+ * @param {string} name - The user's full name
+ * @returns {Object} JSON response containing the created user
+ */
+router.post('/register', validate({ body: RegisterDto }), async (req, res) => {
+  const user = await authService.signup(req.body as RegisterDto);
+
+  res.status(HTTP_CREATED).json({ success: true, data: { user: toPublicUser(user) } });
+});
+
+/**
+ * Endpoint for activating an account with an email verification token
+ * @route POST /api/v1/auth/verify-email
+ * @middleware validate - Checks the request body
+ * @param {string} token - The verification token from the emailed link
+ * @returns {Object} JSON response containing the activated user
+ */
+router.post('/verify-email', validate({ body: TokenDto }), async (req, res) => {
+  const user = await authService.verifyEmail((req.body as TokenDto).token);
+
+  res.status(HTTP_OK).json({ success: true, data: { user: toPublicUser(user) } });
+});
+
+/**
+ * Endpoint for requesting a new email verification link.
+ * Always responds the same way so it can't be used to discover registered emails.
+ * @route POST /api/v1/auth/verify-email/resend
+ * @param {string} email - The user's email address
+ * @middleware resendVerificationLimiter - Limits resends per email address
+ * @middleware validate - Checks the request body
+ * @returns {Object} JSON response acknowledging the request
+ */
+router.post(
+  '/verify-email/resend',
+  resendVerificationLimiter,
+  validate({ body: EmailDto }),
+  (req, res) => {
+    authService
+      .resendVerificationEmail((req.body as EmailDto).email)
+      .catch(error => logger.error('Verification email resend failed:', error));
+
+    res.status(HTTP_OK).json({
+      success: true,
+      message: 'If an unverified account exists for this email, a verification link has been sent',
+    });
+  }
+);
+
+/**
+ * Endpoint for logging in with email and password.
+ * Unverified accounts are refused with a 403 EmailNotVerifiedError, and repeated failures
+ * are answered with a 429 TooManyAttemptsError or AccountLockedError carrying `retryAfter`.
+ * @route POST /api/v1/auth/login
+ * @middleware validate - Checks the request body
+ * @param {string} email - The user's email address
+ * @param {string} password - The user's password
+ * Users with two-factor authentication receive `{ mfaRequired, mfaToken }` instead of tokens
+ * and finish logging in through POST /api/v1/auth/mfa/verify.
+ * @returns {Object} JSON response containing the access/refresh token pair and user, or an MFA challenge
+ */
+router.post('/login', validate({ body: LoginDto }), async (req, res) => {
+  const { email, password } = req.body as LoginDto;
+  const user = await authService.login(email, password, req.ip);
+  const result = await authService.beginSession(user);
+
+  if ('mfaRequired' in result) {
+    res.status(HTTP_OK).json({ success: true, data: result });
+    return;
+  }
+
+  res.status(HTTP_OK).json({ success: true, data: { ...result, user: toPublicUser(user) } });
+});
+
+/**
+ * Endpoint for completing a two-step login with a TOTP code or a recovery code
+ * @route POST /api/v1/auth/mfa/verify
+ * @middleware validate - Checks the request body
+ * @param {string} mfaToken - The "mfa pending" token returned by the login endpoint
+ * @param {string} [code] - A code from the authenticator app
+ * @param {string} [recoveryCode] - One of the user's recovery codes
+ * @returns {Object} JSON response containing the access/refresh token pair and user
+ */
+router.post('/mfa/verify', validate({ body: MfaVerifyDto }), async (req, res) => {
+  const { mfaToken, code, recoveryCode } = req.body as MfaVerifyDto;
+  const { user, tokens } = await authService.completeMfaLogin(
+    mfaToken,
+    { code, recoveryCode },
+    req.ip
+  );
+
+  res.status(HTTP_OK).json({ success: true, data: { ...tokens, user: toPublicUser(user) } });
+});
+
+/**
+ * Endpoint for starting TOTP enrollment for the current user
+ * @route POST /api/v1/auth/mfa/enroll
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response containing the secret and its otpauth:// URI
+ */
+router.post('/mfa/enroll', authenticated, async (req, res) => {
+  const { userId } = req.session.user as JWTPayload;
+  const enrollment = await mfaService.startEnrollment(userId);
+
+  res.status(HTTP_OK).json({ success: true, data: enrollment });
+});
+
+/**
+ * Endpoint for confirming TOTP enrollment with a code from the authenticator app
+ * @route POST /api/v1/auth/mfa/enroll/confirm
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} code - A code from the authenticator app
+ * @returns {Object} JSON response containing the recovery codes, shown only once
+ */
+router.post(
+  '/mfa/enroll/confirm',
+  authenticated,
+  validate({ body: MfaCodeDto }),
+  async (req, res) => {
+    const { userId } = req.session.user as JWTPayload;
+    const recoveryCodes = await mfaService.confirmEnrollment(userId, (req.body as MfaCodeDto).code);
+
+    res.status(HTTP_OK).json({ success: true, data: { recoveryCodes } });
+  }
+);
+
+/**
+ * Endpoint for resetting another user's two-factor authentication. Users whose roles grant
+ * permissions the requester doesn't hold can't be reset.
+ * @route POST /api/v1/auth/users/:userId/mfa/reset
+ * @param {string} userId - The ID of the user whose 2FA is reset
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the user ID
+ * @returns {Object} JSON response confirming the reset
+ */
+router.post(
+  '/users/:userId/mfa/reset',
+  authenticated,
+  requirePermission('users:write'),
+  validate({ params: UserIdParamsDto }),
+  async (req, res) => {
+    const userId = req.params.userId as string;
+
+    await roleService.assertCanManage(userId, req.session.user as JWTPayload);
+    await mfaService.reset(userId);
+
+    res.status(HTTP_OK).json({ success: true, message: 'Two-factor authentication reset' });
+  }
+);
+
+/**
+ * Endpoint for exchanging a refresh token for a new token pair.
+ * The presented refresh token is rotated and can't be used again.
+ * @route POST /api/v1/auth/refresh
+ * @middleware validate - Checks the request body
+ * @param {string} refreshToken - The current refresh token
+ * @returns {Object} JSON response containing the new access/refresh token pair
+ */
+router.post('/refresh', validate({ body: RefreshTokenDto }), async (req, res) => {
+  const tokens = await authService.refreshTokens((req.body as RefreshTokenDto).refreshToken);
+
+  res.status(HTTP_OK).json({ success: true, data: tokens });
+});
+
+/**
+ * Endpoint for listing the configured OAuth2/OIDC identity providers
+ * @route GET /api/v1/auth/oauth/providers
+ * @returns {Object} JSON response containing the provider names
+ */
+router.get('/oauth/providers', (req, res) => {
+  res.status(HTTP_OK).json({ success: true, data: { providers: oauthService.getProviderNames() } });
+});
+
+/**
+ * Endpoint for starting a sign-in with an identity provider
+ * @route GET /api/v1/auth/oauth/:provider
+ * @param {string} provider - Name of the identity provider (e.g. google, github)
+ * @returns {void} Redirects to the provider's authorization page
+ */
+router.get('/oauth/:provider', async (req, res) => {
+  const authorizationUrl = await oauthService.createAuthorizationUrl(req.params.provider);
+
+  res.redirect(authorizationUrl);
+});
+
+/**
+ * Endpoint the identity provider redirects back to after sign-in
+ * @route GET /api/v1/auth/oauth/:provider/callback
+ * @middleware validate - Checks the query parameters
+ * @param {string} provider - Name of the identity provider
+ * @param {string} code - The authorization code
+ * @param {string} state - The state of the sign-in attempt
+ * @returns {Object} JSON response containing the access/refresh token pair and user, or an MFA challenge
+ */
+router.get(
+  '/oauth/:provider/callback',
+  validate({ query: OAuthCallbackQueryDto }),
+  async (req, res) => {
+    const { code, state, error } = req.query as OAuthCallbackQueryDto;
+
+    // The provider's error is untrusted input, so it only goes to the (redacted) log
+    if (error !== undefined) {
+      logger.warn('Identity provider sign-in was not completed', {
+        provider: req.params.provider,
+        error: error.slice(0, 100),
+      });
+      throwError('Sign-in was not completed', HTTP_UNAUTHENTICATED);
+    }
+
+    const user = await oauthService.handleCallback(
+      req.params.provider as string,
+      code as string,
+      state as string
+    );
+    const result = await authService.beginSession(user);
+
+    if ('mfaRequired' in result) {
+      res.status(HTTP_OK).json({ success: true, data: result });
+      return;
+    }
+
+    res.status(HTTP_OK).json({ success: true, data: { ...result, user: toPublicUser(user) } });
+  }
+);
+
+/**
+ * Endpoint for logging out the current session, revoking its access and refresh tokens
+ * @route POST /api/v1/auth/logout
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response confirming the logout
+ */
+router.post('/logout', authenticated, async (req, res) => {
+  await authService.logout(req.session.user as JWTPayload);
+
+  res.status(HTTP_OK).json({ success: true, message: 'Logged out successfully' });
+});
+
+/**
+ * Endpoint for logging out of every session of the current user
+ * @route POST /api/v1/auth/sessions/revoke
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response confirming the revocation
+ */
+router.post('/sessions/revoke', authenticated, async (req, res) => {
+  const { userId } = req.session.user as JWTPayload;
+  await authService.revokeAllSessions(userId);
+
+  res.status(HTTP_OK).json({ success: true, message: 'All sessions revoked' });
+});
+
+/**
+ * Endpoint for revoking every session of another user. Users whose roles grant permissions
+ * the requester doesn't hold can't be signed out.
+ * @route POST /api/v1/auth/users/:userId/sessions/revoke
+ * @param {string} userId - The ID of the user whose sessions are revoked
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the user ID
+ * @returns {Object} JSON response confirming the revocation
+ */
+router.post(
+  '/users/:userId/sessions/revoke',
+  authenticated,
+  requirePermission('users:write'),
+  validate({ params: UserIdParamsDto }),
+  async (req, res) => {
+    const userId = req.params.userId as string;
+
+    await roleService.assertCanManage(userId, req.session.user as JWTPayload);
+    await authService.revokeAllSessions(userId);
+
+    res.status(HTTP_OK).json({ success: true, message: 'All sessions revoked' });
+  }
+);
+
+/**
+ * Endpoint for unlocking an account locked after failed logins. Users whose roles grant
+ * permissions the requester doesn't hold can't be unlocked.
+ * @route POST /api/v1/auth/users/:userId/unlock
+ * @param {string} userId - The ID of the user to unlock
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the user ID
+ * @returns {Object} JSON response confirming the unlock
+ */
+router.post(
+  '/users/:userId/unlock',
+  authenticated,
+  requirePermission('users:write'),
+  validate({ params: UserIdParamsDto }),
+  async (req, res) => {
+    const userId = req.params.userId as string;
+
+    await roleService.assertCanManage(userId, req.session.user as JWTPayload);
+    await authService.unlockAccount(userId);
+
+    res.status(HTTP_OK).json({ success: true, message: 'Account unlocked' });
+  }
+);
+
+/**
+ * Endpoint for changing the current user's password.
+ * Every existing session, including the current one, is revoked afterwards.
+ * @route POST /api/v1/auth/change-password
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} currentPassword - The user's current password
+ * @param {string} newPassword - The new password (min 8 characters)
+ * @returns {Object} JSON response confirming the change
+ */
+router.post(
+  '/change-password',
+  authenticated,
+  validate({ body: ChangePasswordDto }),
+  async (req, res) => {
+    const { userId } = req.session.user as JWTPayload;
+    const { currentPassword, newPassword } = req.body as ChangePasswordDto;
+    await authService.changePassword(userId, currentPassword, newPassword);
+
+    res.status(HTTP_OK).json({ success: true, message: 'Password changed successfully' });
+  }
+);
+
+/**
+ * Endpoint for requesting a password reset email.
+ * Always responds the same way so it can't be used to discover registered emails.
+ * @route POST /api/v1/auth/forgot-password
+ * @middleware validate - Checks the request body
+ * @param {string} email - The user's email address
+ * @returns {Object} JSON response acknowledging the request
+ */
+router.post('/forgot-password', validate({ body: EmailDto }), (req, res) => {
+  // Not awaited so the response time doesn't reveal whether the account exists
+  authService
+    .requestPasswordReset((req.body as EmailDto).email)
+    .catch(error => logger.error('Password reset request failed:', error));
+
+  res.status(HTTP_OK).json({
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent',
+  });
+});
+
+/**
+ * Endpoint for setting a new password with a reset token.
+ * Every existing session of the user is revoked afterwards.
+ * @route POST /api/v1/auth/reset-password
+ * @middleware validate - Checks the request body
+ * @param {string} token - The reset token from the emailed link
+ * @param {string} newPassword - The new password (min 8 characters)
+ * @returns {Object} JSON response confirming the reset
+ */
+router.post('/reset-password', validate({ body: ResetPasswordDto }), async (req, res) => {
+  const { token, newPassword } = req.body as ResetPasswordDto;
+  await authService.resetPassword(token, newPassword);
+
+  res.status(HTTP_OK).json({ success: true, message: 'Password has been reset' });
+});
+
+/**
+ * Express router for authentication routes
+ * @type {express.Router}
+ */
+export const auth = router;
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Self-service profile router implementation.
+ * Exposes endpoints for the authenticated user to read and update their own profile,
+ * change their email address, manage their avatar and delete their account.
+ * @module me
+ */
+
+import express from 'express';
+import { instanceToPlain } from 'class-transformer';
+import { JWTPayload } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { HTTP_CREATED, HTTP_FORBIDDEN, HTTP_NOT_FOUND, HTTP_OK } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { getUploadUrl, removeUploadedFile, uploadAvatar } from '@/core/common/upload';
+import { validate } from '@/core/common/validation';
+import { ChangeEmailDto, DeleteAccountDto, UpdateProfileDto } from '@/dtos/me.dto';
+import { User } from '@/entity/user.entity';
+import authService from '@/services/auth';
+import dataExportService from '@/services/data-export';
+import userService from '@/services/user';
+
+const router = express.Router();
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Endpoint for downloading a data export through the link emailed to the user. The link's
+ * token authenticates the download, so it works without a session until the export expires.
+ * @route GET /api/v1/me/data-exports/:exportId/download
+ * @param {string} exportId - The ID of the export
+ * @param {string} token - The download token from the link
+ * @returns {File} The ZIP archive
+ */
+router.get('/data-exports/:exportId/download', async (req, res) => {
+  const { exportId } = req.params;
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (!UUID_PATTERN.test(exportId) || !token) {
+    throwError('Download link is invalid or has expired', HTTP_NOT_FOUND);
+  }
+
+  const filePath = await dataExportService.getArchivePath(exportId, token);
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.download(filePath, `data-export-${exportId}.zip`);
+});
+
+router.use(authenticated);
+
+/**
+ * Loads the account of the session user. API keys act on behalf of a user but
+ * can't manage that user's account.
+ * @param {express.Request} req - The request
+ * @returns {Promise<User>} The user
+ * @throws {AppError} If the request uses an API key or the user no longer exists
+ */
+const currentUser = async (req: express.Request): Promise<User> => {
+  const session = req.session.user as JWTPayload;
+
+  if (session.apiKeyId) {
+    throwError('API keys cannot manage the account', HTTP_FORBIDDEN);
+  }
+
+  const user = await userService.getUserById(session.userId);
+
+  if (!user) {
+    throwError('User not found', HTTP_NOT_FOUND);
+  }
+
+  return user as User;
+};
+
+/**
+ * Endpoint for retrieving the authenticated user's profile
+ * @route GET /api/v1/me
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response containing the user
+ */
+router.get('/', async (req, res) => {
+  const user = await currentUser(req);
+
+  res.status(HTTP_OK).json({ success: true, data: { user: instanceToPlain(user) } });
+});
+
+/**
+ * Endpoint for updating the authenticated user's profile.
+ * The email address is changed through `POST /api/v1/me/email`.
+ * @route PATCH /api/v1/me
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} [firstName] - New first name
+ * @param {string} [lastName] - New last name
+ * @returns {Object} JSON response containing the updated user
+ */
+router.patch('/', validate({ body: UpdateProfileDto }), async (req, res) => {
+  const { id } = await currentUser(req);
+  const { firstName, lastName } = req.body as UpdateProfileDto;
+
+  const user = await userService.updateUser(id, {
+    ...(firstName !== undefined && { firstName }),
+    ...(lastName !== undefined && { lastName }),
+  });
+
+  res.status(HTTP_OK).json({ success: true, data: { user: instanceToPlain(user) } });
+});
+
+/**
+ * Endpoint for changing the authenticated user's email address. The new address
+ * is emailed a verification link and replaces the current one once the link is followed
+ * through `POST /api/v1/auth/verify-email`, which also ends every session.
+ * @route POST /api/v1/me/email
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} email - The new email address
+ * @param {string} password - The user's current password
+ * @returns {Object} JSON response containing the user with its pending email address
+ */
+router.post('/email', validate({ body: ChangeEmailDto }), async (req, res) => {
+  const { email, password } = req.body as ChangeEmailDto;
+  const { id } = await currentUser(req);
+  const user = await authService.requestEmailChange(id, email, password);
+
+  res.status(HTTP_OK).json({
+    success: true,
+    message: 'Check your new email address for a confirmation link',
+    data: { user: instanceToPlain(user) },
+  });
+});
+
+/**
+ * Endpoint for uploading the authenticated user's avatar. Replaces any previous avatar.
+ * @route PUT /api/v1/me/avatar
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware uploadAvatar - Stores the image from the multipart field `avatar`
+ * (PNG, JPEG, GIF or WebP, at most 2 MB)
+ * @returns {Object} JSON response containing the updated user
+ */
+router.put('/avatar', uploadAvatar, async (req, res) => {
+  const avatarUrl = getUploadUrl((req.file as Express.Multer.File).path);
+
+  try {
+    const { id } = await currentUser(req);
+    const user = await userService.setAvatar(id, avatarUrl);
+
+    res.status(HTTP_OK).json({ success: true, data: { user: instanceToPlain(user) } });
+  } catch (error) {
+    await removeUploadedFile(avatarUrl);
+    throw error;
+  }
+});
+
+/**
+ * Endpoint for removing the authenticated user's avatar
+ * @route DELETE /api/v1/me/avatar
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response containing the updated user
+ */
+router.delete('/avatar', async (req, res) => {
+  const { id } = await currentUser(req);
+  const user = await userService.setAvatar(id, null);
+
+  res.status(HTTP_OK).json({ success: true, data: { user: instanceToPlain(user) } });
+});
+
+/**
+ * Endpoint for requesting an export of all data held about the authenticated user.
+ * The archive is built in the background and a download link is emailed when it is ready.
+ * @route POST /api/v1/me/data-exports
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response containing the pending export
+ */
+router.post('/data-exports', async (req, res) => {
+  const { id } = await currentUser(req);
+  const dataExport = await dataExportService.requestExport(id);
+
+  res.status(HTTP_CREATED).json({
+    success: true,
+    message: 'Your export is being prepared; a download link will be emailed to you',
+    data: { export: instanceToPlain(dataExport) },
+  });
+});
+
+/**
+ * Endpoint for listing the authenticated user's data exports and their status
+ * @route GET /api/v1/me/data-exports
+ * @middleware authenticated - Ensures request is authenticated
+ * @returns {Object} JSON response containing the exports
+ */
+router.get('/data-exports', async (req, res) => {
+  const { id } = await currentUser(req);
+  const exports = await dataExportService.listExports(id);
+
+  res.status(HTTP_OK).json({ success: true, data: { exports: instanceToPlain(exports) } });
+});
+
+/**
+ * Endpoint for deleting the authenticated user's account. The account is soft-deleted,
+ * so an administrator can restore it until it is purged after the retention period.
+ * @route DELETE /api/v1/me
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} password - The user's password, to confirm the deletion
+ * @returns {Object} JSON response confirming deletion
+ */
+router.delete('/', validate({ body: DeleteAccountDto }), async (req, res) => {
+  const user = await currentUser(req);
+  await authService.deleteAccount(user, (req.body as DeleteAccountDto).password);
+
+  res.status(HTTP_OK).json({ success: true, message: 'Account deleted successfully' });
+});
+
+/**
+ * Express router for self-service profile routes
+ * @type {express.Router}
+ */
+export const me = router;
@@ -0,0 +1,168 @@
+/**
+ * @fileoverview Role router implementation.
+ * Exposes endpoints for managing roles, their permissions and role assignments.
+ * @module roles
+ */
+
+import express from 'express';
+import { JWTPayload } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { requirePermission } from '@/core/common/authorization';
+import { HTTP_CREATED, HTTP_OK } from '@/core/common/constants';
+import { PERMISSIONS } from '@/core/common/permissions';
+import { validate } from '@/core/common/validation';
+import { CreateRoleDto, UpdateRoleDto } from '@/dtos/role.dto';
+import roleService from '@/services/role';
+
+const router = express.Router();
+
+router.use(authenticated);
+
+/**
+ * Endpoint for listing the permissions roles can grant
+ * @route GET /api/v1/roles/permissions
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:read`
+ * @returns {Object} JSON response containing the permission names
+ */
+router.get('/permissions', requirePermission('roles:read'), (req, res) => {
+  res.status(HTTP_OK).json({ success: true, data: { permissions: PERMISSIONS } });
+});
+
+/**
+ * Endpoint for listing roles
+ * @route GET /api/v1/roles
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:read`
+ * @returns {Object} JSON response containing the roles
+ */
+router.get('/', requirePermission('roles:read'), async (req, res) => {
+  const roles = await roleService.listRoles();
+
+  res.status(HTTP_OK).json({ success: true, data: { roles } });
+});
+
+/**
+ * Endpoint for retrieving a role
+ * @route GET /api/v1/roles/:name
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:read`
+ * @param {string} name - The name of the role
+ * @returns {Object} JSON response containing the role
+ */
+router.get('/:name', requirePermission('roles:read'), async (req, res) => {
+  const role = await roleService.getRole(req.params.name as string);
+
+  res.status(HTTP_OK).json({ success: true, data: { role } });
+});
+
+/**
+ * Endpoint for creating a role
+ * @route POST /api/v1/roles
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:write`
+ * @middleware validate - Checks the request body
+ * @param {string} name - Unique name of the role
+ * @param {string} [description] - Description of the role
+ * @param {string[]} permissions - Permissions granted by the role (only ones you hold)
+ * @returns {Object} JSON response containing the created role
+ */
+router.post(
+  '/',
+  requirePermission('roles:write'),
+  validate({ body: CreateRoleDto }),
+  async (req, res) => {
+    const role = await roleService.createRole(
+      req.body as CreateRoleDto,
+      req.session.user as JWTPayload
+    );
+
+    res.status(HTTP_CREATED).json({ success: true, data: { role } });
+  }
+);
+
+/**
+ * Endpoint for updating a role's description or permissions
+ * @route PATCH /api/v1/roles/:name
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:write`
+ * @middleware validate - Checks the request body
+ * @param {string} [description] - New description
+ * @param {string[]} [permissions] - New permissions, replacing the current ones
+ * @returns {Object} JSON response containing the updated role
+ */
+router.patch(
+  '/:name',
+  requirePermission('roles:write'),
+  validate({ body: UpdateRoleDto }),
+  async (req, res) => {
+    const role = await roleService.updateRole(
+      req.params.name as string,
+      req.body as UpdateRoleDto,
+      req.session.user as JWTPayload
+    );
+
+    res.status(HTTP_OK).json({ success: true, data: { role } });
+  }
+);
+
+/**
+ * Endpoint for deleting a role; it is removed from every user who had it
+ * @route DELETE /api/v1/roles/:name
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:write`
+ * @returns {Object} JSON response confirming deletion
+ */
+router.delete('/:name', requirePermission('roles:write'), async (req, res) => {
+  await roleService.deleteRole(req.params.name as string, req.session.user as JWTPayload);
+
+  res.status(HTTP_OK).json({ success: true, message: 'Role deleted successfully' });
+});
+
+/**
+ * Endpoint for granting a role to a user
+ * @route POST /api/v1/roles/:name/users/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:write` and `users:write`
+ * @returns {Object} JSON response containing the user's roles
+ */
+router.post(
+  '/:name/users/:userId',
+  requirePermission('roles:write', 'users:write'),
+  async (req, res) => {
+    const roles = await roleService.assignRole(
+      req.params.name as string,
+      req.params.userId as string,
+      req.session.user as JWTPayload
+    );
+
+    res.status(HTTP_OK).json({ success: true, data: { roles } });
+  }
+);
+
+/**
+ * Endpoint for taking a role away from a user
+ * @route DELETE /api/v1/roles/:name/users/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `roles:write` and `users:write`
+ * @returns {Object} JSON response containing the user's roles
+ */
+router.delete(
+  '/:name/users/:userId',
+  requirePermission('roles:write', 'users:write'),
+  async (req, res) => {
+    const roles = await roleService.unassignRole(
+      req.params.name as string,
+      req.params.userId as string,
+      req.session.user as JWTPayload
+    );
+
+    res.status(HTTP_OK).json({ success: true, data: { roles } });
+  }
+);
+
+/**
+ * Express router for role routes
+ * @type {express.Router}
+ */
+export const roles = router;
@@ -0,0 +1,348 @@
+/**
+ * @fileoverview Tenant router implementation.
+ * Exposes endpoints for managing tenants, their members and invitations.
+ * Routes under `/:tenantId` run in that tenant's context, see `belongsToTenant`.
+ * @module tenants
+ */
+
+import express from 'express';
+import { instanceToPlain } from 'class-transformer';
+import { JWTPayload, UserRole } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { belongsToTenant } from '@/core/common/authorization';
+import { HTTP_CREATED, HTTP_FORBIDDEN, HTTP_OK } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { authorizeResource } from '@/core/common/policy';
+import { validate } from '@/core/common/validation';
+import { TokenDto } from '@/dtos/auth.dto';
+import {
+  CreateTenantDto,
+  InviteMemberDto,
+  ListTenantsQueryDto,
+  SetIdentityProviderDto,
+  UpdateMemberDto,
+  UpdateTenantDto,
+} from '@/dtos/tenant.dto';
+import { tenantMemberPolicy } from '@/policies/tenant-member.policy';
+import oauthService, { TENANT_PROVIDER_PREFIX } from '@/services/oauth';
+import roleService from '@/services/role';
+import tenantService from '@/services/tenant';
+
+const router = express.Router();
+
+router.use(authenticated);
+
+/**
+ * Endpoint for creating a tenant with the current user as its admin
+ * @route POST /api/v1/tenants
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} name - Name of the tenant
+ * @param {string} [slug] - URL-friendly identifier, derived from the name when omitted
+ * @returns {Object} JSON response containing the created tenant
+ */
+router.post('/', validate({ body: CreateTenantDto }), async (req, res) => {
+  const session = req.session.user as JWTPayload;
+  if (session.apiKeyId) {
+    throwError('API keys cannot be used to create tenants', HTTP_FORBIDDEN);
+  }
+
+  const tenant = await tenantService.createTenant(session.userId, req.body as CreateTenantDto);
+
+  res.status(HTTP_CREATED).json({ success: true, data: { tenant } });
+});
+
+/**
+ * Endpoint for listing the tenants of the current user.
+ * Users with the `tenants:read` permission can pass `all=true` to list every tenant.
+ * @route GET /api/v1/tenants
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the query parameters
+ * @param {string} [all] - Set to `true` to list all tenants
+ * @returns {Object} JSON response containing the tenants
+ */
+router.get('/', validate({ query: ListTenantsQueryDto }), async (req, res) => {
+  const session = req.session.user as JWTPayload;
+
+  if ((req.query as ListTenantsQueryDto).all) {
+    if (!(await roleService.hasPermissions(session, ['tenants:read']))) {
+      throwError('Listing all tenants requires the tenants:read permission', HTTP_FORBIDDEN);
+    }
+    const tenants = await tenantService.listTenants();
+    return res.status(HTTP_OK).json({ success: true, data: { tenants } });
+  }
+
+  const tenants = await tenantService.listTenantsForUser(session.userId);
+  const visible = session.tenantId ? tenants.filter(({ id }) => id === session.tenantId) : tenants;
+
+  res.status(HTTP_OK).json({ success: true, data: { tenants: visible } });
+});
+
+/**
+ * Endpoint for accepting an invitation to a tenant
+ * @route POST /api/v1/tenants/invitations/accept
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the request body
+ * @param {string} token - The invitation token from the emailed link
+ * @returns {Object} JSON response containing the new membership
+ */
+router.post('/invitations/accept', validate({ body: TokenDto }), async (req, res) => {
+  const membership = await tenantService.acceptInvitation(
+    (req.body as TokenDto).token,
+    req.session.user as JWTPayload
+  );
+
+  res.status(HTTP_CREATED).json({ success: true, data: { membership } });
+});
+
+/**
+ * Endpoint for retrieving a tenant
+ * @route GET /api/v1/tenants/:tenantId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to members of the tenant
+ * @param {string} tenantId - The unique identifier of the tenant
+ * @returns {Object} JSON response containing the tenant and the user's role in it
+ */
+router.get('/:tenantId', belongsToTenant(), async (req, res) => {
+  const tenant = await tenantService.getTenant(req.tenant.id);
+
+  res.status(HTTP_OK).json({ success: true, data: { tenant, role: req.tenant.role } });
+});
+
+/**
+ * Endpoint for updating a tenant
+ * @route PATCH /api/v1/tenants/:tenantId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins
+ * @middleware validate - Checks the request body
+ * @param {string} [name] - New name of the tenant
+ * @param {string} [slug] - New URL-friendly identifier
+ * @returns {Object} JSON response containing the updated tenant
+ */
+router.patch(
+  '/:tenantId',
+  belongsToTenant([UserRole.ADMIN]),
+  validate({ body: UpdateTenantDto }),
+  async (req, res) => {
+    const tenant = await tenantService.updateTenant(req.tenant.id, req.body as UpdateTenantDto);
+
+    res.status(HTTP_OK).json({ success: true, data: { tenant } });
+  }
+);
+
+/**
+ * Endpoint for deleting a tenant with its memberships and invitations
+ * @route DELETE /api/v1/tenants/:tenantId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins
+ * @returns {Object} JSON response confirming deletion
+ */
+router.delete('/:tenantId', belongsToTenant([UserRole.ADMIN]), async (req, res) => {
+  await tenantService.deleteTenant(req.tenant.id);
+
+  res.status(HTTP_OK).json({ success: true, message: 'Tenant deleted successfully' });
+});
+
+/**
+ * Endpoint for listing the members of a tenant
+ * @route GET /api/v1/tenants/:tenantId/members
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to members of the tenant
+ * @returns {Object} JSON response containing the memberships with their users
+ */
+router.get('/:tenantId/members', belongsToTenant(), async (req, res) => {
+  const members = await tenantService.listMembers();
+
+  res.status(HTTP_OK).json({ success: true, data: { members: instanceToPlain(members) } });
+});
+
+/**
+ * Loads the member named in the route from the current tenant
+ * @param {Request} req - The request
+ * @returns {Promise<TenantMembership>} The membership
+ */
+const loadMember = (req: express.Request) => tenantService.getMember(req.params.userId as string);
+
+/**
+ * Endpoint for changing a member's role in a tenant
+ * @route PATCH /api/v1/tenants/:tenantId/members/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to members of the tenant
+ * @middleware authorizeResource - Applies the tenant member policy (tenant admins only)
+ * @middleware validate - Checks the request body
+ * @param {string} role - The new role (admin, manager or user)
+ * @returns {Object} JSON response containing the updated membership
+ */
+router.patch(
+  '/:tenantId/members/:userId',
+  belongsToTenant(),
+  authorizeResource(tenantMemberPolicy, 'update', loadMember),
+  validate({ body: UpdateMemberDto }),
+  async (req, res) => {
+    const membership = await tenantService.updateMemberRole(
+      req.params.userId as string,
+      (req.body as UpdateMemberDto).role
+    );
+
+    res.status(HTTP_OK).json({ success: true, data: { membership } });
+  }
+);
+
+/**
+ * Endpoint for removing a member from a tenant. Members can also remove themselves.
+ * @route DELETE /api/v1/tenants/:tenantId/members/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to members of the tenant
+ * @middleware authorizeResource - Applies the tenant member policy
+ * @returns {Object} JSON response confirming removal
+ */
+router.delete(
+  '/:tenantId/members/:userId',
+  belongsToTenant(),
+  authorizeResource(tenantMemberPolicy, 'remove', loadMember),
+  async (req, res) => {
+    await tenantService.removeMember(req.params.userId as string);
+
+    res.status(HTTP_OK).json({ success: true, message: 'Member removed successfully' });
+  }
+);
+
+/**
+ * Endpoint for listing the pending invitations of a tenant
+ * @route GET /api/v1/tenants/:tenantId/invitations
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins and managers
+ * @returns {Object} JSON response containing the invitations
+ */
+router.get(
+  '/:tenantId/invitations',
+  belongsToTenant([UserRole.ADMIN, UserRole.MANAGER]),
+  async (req, res) => {
+    const invitations = await tenantService.listInvitations();
+
+    res
+      .status(HTTP_OK)
+      .json({ success: true, data: { invitations: instanceToPlain(invitations) } });
+  }
+);
+
+/**
+ * Endpoint for inviting a user to a tenant by email
+ * @route POST /api/v1/tenants/:tenantId/invitations
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins and managers
+ * @middleware validate - Checks the request body
+ * @param {string} email - Email address of the invitee
+ * @param {string} [role] - Role the invitee gets (defaults to user; only admins can invite admins)
+ * @returns {Object} JSON response containing the invitation
+ */
+router.post(
+  '/:tenantId/invitations',
+  belongsToTenant([UserRole.ADMIN, UserRole.MANAGER]),
+  validate({ body: InviteMemberDto }),
+  async (req, res) => {
+    const { email, role } = req.body as InviteMemberDto;
+    const invitation = await tenantService.inviteMember(
+      email,
+      role,
+      req.session.user as JWTPayload,
+      req.tenant.role
+    );
+
+    res
+      .status(HTTP_CREATED)
+      .json({ success: true, data: { invitation: instanceToPlain(invitation) } });
+  }
+);
+
+/**
+ * Endpoint for revoking a pending invitation
+ * @route DELETE /api/v1/tenants/:tenantId/invitations/:invitationId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins and managers
+ * @returns {Object} JSON response confirming revocation
+ */
+router.delete(
+  '/:tenantId/invitations/:invitationId',
+  belongsToTenant([UserRole.ADMIN, UserRole.MANAGER]),
+  async (req, res) => {
+    await tenantService.revokeInvitation(req.params.invitationId as string);
+
+    res.status(HTTP_OK).json({ success: true, message: 'Invitation revoked successfully' });
+  }
+);
+
+/**
+ * Endpoint for reading the tenant's own OIDC provider settings, without the client secret
+ * @route GET /api/v1/tenants/:tenantId/identity-provider
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins
+ * @returns {Object} JSON response containing the settings (null if none) and the provider
+ * name to sign in with at `/api/v1/auth/oauth/:provider`
+ */
+router.get('/:tenantId/identity-provider', belongsToTenant([UserRole.ADMIN]), async (req, res) => {
+  const identityProvider = await oauthService.getTenantProvider();
+
+  res.status(HTTP_OK).json({
+    success: true,
+    data: {
+      identityProvider: identityProvider && instanceToPlain(identityProvider),
+      provider: `${TENANT_PROVIDER_PREFIX}${req.tenant.id}`,
+    },
+  });
+});
+
+/**
+ * Endpoint for setting the tenant's own OIDC provider. Members sign in with it at
+ * `/api/v1/auth/oauth/tenant-<tenantId>`. Changing the issuer unlinks the identities
+ * linked through the previous one.
+ * @route PUT /api/v1/tenants/:tenantId/identity-provider
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins
+ * @middleware validate - Checks the request body
+ * @param {string} issuer - HTTPS issuer URL of the provider
+ * @param {string} clientId - Client ID registered at the provider
+ * @param {string} clientSecret - Client secret registered at the provider
+ * @returns {Object} JSON response containing the settings, without the client secret
+ */
+router.put(
+  '/:tenantId/identity-provider',
+  belongsToTenant([UserRole.ADMIN]),
+  validate({ body: SetIdentityProviderDto }),
+  async (req, res) => {
+    const identityProvider = await oauthService.setTenantProvider(
+      req.body as SetIdentityProviderDto
+    );
+
+    res.status(HTTP_OK).json({
+      success: true,
+      data: {
+        identityProvider: instanceToPlain(identityProvider),
+        provider: `${TENANT_PROVIDER_PREFIX}${req.tenant.id}`,
+      },
+    });
+  }
+);
+
+/**
+ * Endpoint for removing the tenant's own OIDC provider, unlinking the identities it linked
+ * @route DELETE /api/v1/tenants/:tenantId/identity-provider
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware belongsToTenant - Restricts access to tenant admins
+ * @returns {Object} JSON response confirming removal
+ */
+router.delete(
+  '/:tenantId/identity-provider',
+  belongsToTenant([UserRole.ADMIN]),
+  async (req, res) => {
+    await oauthService.removeTenantProvider();
+
+    res.status(HTTP_OK).json({ success: true, message: 'Identity provider removed successfully' });
+  }
+);
+
+/**
+ * Express router for tenant routes
+ * @type {express.Router}
+ */
+export const tenants = router;
@@ -0,0 +1,396 @@
+/**
+ * @fileoverview User management router implementation.
+ * Exposes endpoints for listing, creating, updating and deleting user accounts.
+ * Users are always serialized with `instanceToPlain`, so `@Exclude()`d fields such as
+ * the password and refresh token never reach the client.
+ * @module users
+ */
+
+import express from 'express';
+import { instanceToPlain } from 'class-transformer';
+import { JWTPayload } from '@/types';
+import { authenticated } from '@/core/common/authentication';
+import { belongsToTenant, requirePermission } from '@/core/common/authorization';
+import { HTTP_CREATED, HTTP_FORBIDDEN, HTTP_OK } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { parseExportColumns, resolveExportFormat, sendExport } from '@/core/common/export';
+import { logger } from '@/core/common/logger';
+import { authorizeResource } from '@/core/common/policy';
+import { uploadImportFile } from '@/core/common/upload';
+import { revokeAllUserTokens } from '@/core/common/token-revocation';
+import { validate } from '@/core/common/validation';
+import {
+  CreateUserDto,
+  EraseUserDto,
+  ExportUsersQueryDto,
+  ImportUsersDto,
+  ListUsersQueryDto,
+  UpdateUserDto,
+  UserIdParamsDto,
+} from '@/dtos/user.dto';
+import { User } from '@/entity/user.entity';
+import { userPolicy } from '@/policies/user.policy';
+import auditService from '@/services/audit';
+import authService from '@/services/auth';
+import roleService from '@/services/role';
+import userImportService from '@/services/user-import';
+import userService, { USER_EXPORT_COLUMNS } from '@/services/user';
+
+const router = express.Router();
+
+router.use(authenticated);
+
+/**
+ * Resolves the tenant given in the `X-Tenant-Id` header, if any, so tenant admins and
+ * managers are recognized by the user policy
+ */
+const optionalTenant: express.RequestHandler = (req, res, next) =>
+  req.get('X-Tenant-Id') ? belongsToTenant()(req, res, next) : next();
+
+/**
+ * Scopes listings to the tenant given in the `X-Tenant-Id` header or pinned to the session.
+ * Without a tenant only platform admins may list users, since the listing spans every tenant.
+ */
+const listingTenant: express.RequestHandler = async (req, res, next) => {
+  const user = req.session.user as JWTPayload;
+
+  if (req.get('X-Tenant-Id') || user.tenantId) {
+    return belongsToTenant()(req, res, next);
+  }
+
+  if (!(await roleService.hasPermissions(user, ['platform:admin']))) {
+    throwError('Listing users across tenants requires platform:admin', HTTP_FORBIDDEN);
+  }
+
+  next();
+};
+
+/**
+ * Loads the user named in the route
+ * @param {Request} req - The request
+ * @returns {Promise<User | null>} The user, or null if not found
+ */
+const loadUser = (req: express.Request) => userService.getUserById(req.params.userId as string);
+
+/**
+ * Endpoint for listing users. With a tenant, in the `X-Tenant-Id` header or pinned to the
+ * session, only its members are listed; listing every user requires `platform:admin`.
+ * @route GET /api/v1/users
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:read`
+ * @middleware validate - Checks the query parameters
+ * @middleware listingTenant - Scopes the listing to the tenant
+ * @param {string} [deleted] - `true` to list soft-deleted users instead
+ * @param {string} [role] - Only users with this role
+ * @param {string} [isActive] - Only active (`true`) or inactive (`false`) users
+ * @param {string} [createdFrom] - Only users created at or after this ISO 8601 date
+ * @param {string} [createdTo] - Only users created at or before this ISO 8601 date
+ * @param {string} [search] - Only users whose email contains this text
+ * @param {string} [sortBy] - createdAt (default), updatedAt, email, firstName or lastName
+ * @param {string} [order] - asc or desc (default)
+ * @param {number} [limit] - Page size, 1-100 (default 20)
+ * @param {number} [offset] - Number of users to skip, for offset pagination
+ * @param {string} [cursor] - `nextCursor` of the previous page, for cursor pagination
+ * @returns {Object} JSON response containing the users and pagination details
+ */
+router.get(
+  '/',
+  requirePermission('users:read'),
+  validate({ query: ListUsersQueryDto }),
+  listingTenant,
+  async (req, res) => {
+    const { users, pagination } = await userService.listUsers(
+      req.query as unknown as ListUsersQueryDto
+    );
+
+    res
+      .status(HTTP_OK)
+      .json({ success: true, data: { users: instanceToPlain(users), pagination } });
+  }
+);
+
+/**
+ * Endpoint for exporting users as a file. Takes the filters, sorting and tenant scoping of
+ * the list endpoint. The format is chosen by the `format` parameter or else by the `Accept` header.
+ * @route GET /api/v1/users/export
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:read`
+ * @middleware validate - Checks the query parameters
+ * @middleware listingTenant - Scopes the export to the tenant
+ * @param {string} [format] - csv (default), xlsx or ndjson
+ * @param {string} [columns] - Comma-separated columns to export (default all)
+ * @returns {File} The users as CSV, XLSX or NDJSON
+ */
+router.get(
+  '/export',
+  requirePermission('users:read'),
+  validate({ query: ExportUsersQueryDto }),
+  listingTenant,
+  async (req, res) => {
+    const format = resolveExportFormat(req);
+    const options = req.query as unknown as ExportUsersQueryDto;
+    const columns = parseExportColumns(options.columns, USER_EXPORT_COLUMNS);
+
+    logger.info('Users exported', {
+      userId: (req.session.user as JWTPayload).userId,
+      format,
+      columns,
+    });
+
+    await sendExport(res, {
+      format,
+      filename: `users-${new Date().toISOString().slice(0, 10)}`,
+      columns,
+      rows: userService.streamUsers(options),
+    });
+  }
+);
+
+/**
+ * Endpoint for retrieving a user
+ * @route GET /api/v1/users/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware validate - Checks the user ID
+ * @middleware authorizeResource - Applies the user policy
+ * @param {string} userId - The ID of the user
+ * @returns {Object} JSON response containing the user
+ */
+router.get(
+  '/:userId',
+  validate({ params: UserIdParamsDto }),
+  optionalTenant,
+  authorizeResource(userPolicy, 'read', loadUser),
+  async (req, res) => {
+    res
+      .status(HTTP_OK)
+      .json({ success: true, data: { user: instanceToPlain(res.locals.resource) } });
+  }
+);
+
+/**
+ * Endpoint for creating a user. Users created inactive are sent a verification email.
+ * @route POST /api/v1/users
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the request body
+ * @param {string} email - The user's email address
+ * @param {string} password - The user's password (min 8 characters)
+ * @param {string} [firstName] - The user's first name
+ * @param {string} [lastName] - The user's last name
+ * @param {string[]} [roles] - Roles of the user (only roles whose permissions you hold)
+ * @param {boolean} [isActive] - Whether the account is active without email verification
+ * @returns {Object} JSON response containing the created user
+ */
+router.post(
+  '/',
+  requirePermission('users:write'),
+  validate({ body: CreateUserDto }),
+  async (req, res) => {
+    const { email, password, firstName, lastName, roles, isActive } = req.body as CreateUserDto;
+
+    await userService.assertEmailAvailable(email);
+    if (roles) {
+      await roleService.assertCanAssign(roles, req.session.user as JWTPayload);
+    }
+
+    const user = await userService.createUser(email, password, {
+      firstName,
+      lastName,
+      roles,
+      isActive,
+    });
+
+    if (!user.isActive) {
+      authService
+        .sendVerificationEmail(user)
+        .catch(error => logger.error('Failed to send verification email:', error));
+    }
+
+    res.status(HTTP_CREATED).json({ success: true, data: { user: instanceToPlain(user) } });
+  }
+);
+
+/**
+ * Endpoint for importing users from a CSV or XLSX file. The file needs an `email` column
+ * and may have `password`, `firstName`, `lastName`, `roles` (separated by `;`) and
+ * `isActive` columns. If any row is invalid nothing is imported and the report lists
+ * the errors of each row.
+ * @route POST /api/v1/users/import
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware uploadImportFile - Reads the file from the multipart field `file` (at most 5 MB)
+ * @middleware validate - Checks the form fields
+ * @param {string} [dryRun] - `true` to validate and report without importing
+ * @param {string} [onDuplicate] - `skip` (default) or `update` users whose email already exists
+ * @param {string} [sendWelcomeEmail] - `true` to send created users a welcome email
+ * @returns {Object} JSON response containing the import report
+ */
+router.post(
+  '/import',
+  requirePermission('users:write'),
+  uploadImportFile,
+  validate({ body: ImportUsersDto }),
+  async (req, res) => {
+    const report = await userImportService.importUsers(req.file as Express.Multer.File, {
+      ...(req.body as ImportUsersDto),
+      requester: req.session.user as JWTPayload,
+    });
+
+    res.status(report.dryRun ? HTTP_OK : HTTP_CREATED).json({ success: true, data: report });
+  }
+);
+
+/**
+ * Endpoint for updating a user. Roles are managed through `/api/v1/roles`.
+ * Deactivating a user revokes all of their sessions. Users whose roles grant permissions
+ * the requester doesn't hold can't be updated, so nobody can take over a more powerful
+ * account by changing its email.
+ * @route PATCH /api/v1/users/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware authorizeResource - Applies the user policy; changing the email or
+ * activation state also requires `users:write`
+ * @middleware validate - Checks the user ID and the request body
+ * @param {string} [email] - New email address
+ * @param {string} [firstName] - New first name
+ * @param {string} [lastName] - New last name
+ * @param {boolean} [isActive] - New activation state
+ * @returns {Object} JSON response containing the updated user
+ */
+router.patch(
+  '/:userId',
+  validate({ params: UserIdParamsDto, body: UpdateUserDto }),
+  optionalTenant,
+  authorizeResource(userPolicy, 'update', loadUser),
+  async (req, res) => {
+    const session = req.session.user as JWTPayload;
+    const target = res.locals.resource as User;
+    const { email, firstName, lastName, isActive } = req.body as UpdateUserDto;
+
+    if (
+      (email !== undefined || isActive !== undefined) &&
+      !(await roleService.hasPermissions(session, ['users:write']))
+    ) {
+      throwError('Changing email or activation state requires users:write', HTTP_FORBIDDEN);
+    }
+
+    await roleService.assertCanManage(target.id, session);
+
+    if (email !== undefined) {
+      await userService.assertEmailAvailable(email, target.id);
+    }
+
+    const user = await userService.updateUser(target.id, {
+      ...(email !== undefined && { email }),
+      ...(firstName !== undefined && { firstName }),
+      ...(lastName !== undefined && { lastName }),
+      ...(isActive !== undefined && { isActive }),
+    });
+
+    if (isActive === false) {
+      await authService.revokeAllSessions(user.id);
+    }
+
+    // Personal data stays out of the audit log, so only the changed field names are kept
+    await auditService.record({
+      action: 'user.updated',
+      targetType: 'user',
+      targetId: user.id,
+      before: { isActive: target.isActive },
+      after: { isActive: user.isActive },
+      metadata: {
+        fields: Object.keys(req.body).filter(field => req.body[field] !== undefined),
+      },
+    });
+
+    res.status(HTTP_OK).json({ success: true, data: { user: instanceToPlain(user) } });
+  }
+);
+
+/**
+ * Endpoint for deleting a user. The user is soft-deleted and can be restored until
+ * purged after the retention period. Users whose roles grant permissions the requester
+ * doesn't hold can't be deleted.
+ * @route DELETE /api/v1/users/:userId
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the user ID
+ * @param {string} userId - The ID of the user
+ * @returns {Object} JSON response confirming deletion
+ */
+router.delete(
+  '/:userId',
+  requirePermission('users:write'),
+  validate({ params: UserIdParamsDto }),
+  async (req, res) => {
+    const userId = req.params.userId as string;
+
+    await roleService.assertCanManage(userId, req.session.user as JWTPayload);
+    await userService.deleteUser(userId);
+    // Access tokens outlive the account otherwise
+    await revokeAllUserTokens(userId);
+
+    res.status(HTTP_OK).json({ success: true, message: 'User deleted successfully' });
+  }
+);
+
+/**
+ * Endpoint for restoring a soft-deleted user. Users whose roles grant permissions the
+ * requester doesn't hold can't be restored.
+ * @route POST /api/v1/users/:userId/restore
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the user ID
+ * @param {string} userId - The ID of the deleted user
+ * @returns {Object} JSON response containing the restored user
+ */
+router.post(
+  '/:userId/restore',
+  requirePermission('users:write'),
+  validate({ params: UserIdParamsDto }),
+  async (req, res) => {
+    const userId = req.params.userId as string;
+
+    await roleService.assertCanManage(userId, req.session.user as JWTPayload);
+    const user = await userService.restoreUser(userId);
+
+    res.status(HTTP_OK).json({ success: true, data: { user: instanceToPlain(user) } });
+  }
+);
+
+/**
+ * Endpoint for erasing a user's personal data (GDPR right to erasure). Works on current
+ * and soft-deleted users and can't be undone. Users whose roles grant permissions the
+ * requester doesn't hold can't be erased.
+ * @route POST /api/v1/users/:userId/erase
+ * @middleware authenticated - Ensures request is authenticated
+ * @middleware requirePermission - Requires `users:write`
+ * @middleware validate - Checks the user ID and the request body
+ * @param {string} userId - The ID of the user
+ * @param {string} [reason] - Reason or reference of the request, e.g. a ticket number
+ * @returns {Object} JSON response containing the erasure record
+ */
+router.post(
+  '/:userId/erase',
+  requirePermission('users:write'),
+  validate({ params: UserIdParamsDto, body: EraseUserDto }),
+  async (req, res) => {
+    const { reason } = req.body as EraseUserDto;
+    const userId = req.params.userId as string;
+    const session = req.session.user as JWTPayload;
+
+    await roleService.assertCanManage(userId, session);
+    const erasure = await userService.eraseUser(userId, {
+      requestedById: session.userId,
+      reason,
+    });
+    await revokeAllUserTokens(userId);
+
+    res.status(HTTP_OK).json({ success: true, data: { erasure } });
+  }
+);
+
+/**
+ * Express router for user management routes
+ * @type {express.Router}
+ */
+export const users = router;
@@ -5,30 +5,60 @@
  */
 
 import express from 'express';
-import { ExpressMiddleware } from '../types';
-import { authenticated } from '@/core/common/authentication';
+import { apiKeys } from './api-keys';
+import { auditLogs } from './audit-logs';
+import { auth } from './auth';
+import { me } from './me';
+import { roles } from './roles';
+import { tenants } from './tenants';
+import { users } from './users';
 
 const router = express.Router();
 
 /**
- * Endpoint for retrieving tenant information
- * @route GET /api/v1/tenants/:tenantId
- * @param {string} tenantId - The unique identifier of the tenant
- * @middleware authenticated - Ensures request is authenticated
- * @returns {Object} JSON response containing tenant information
+ * Authentication routes (register, login, logout, change password)
+ * @route /api/v1/auth
  */
-router.get(
-  '/api/v1/tenants/:tenantId',
-  authenticated,
-  // authorizeMultiple(isAdmin, isManager),
-  (req, res) => {
-    const { tenantId } = req.params;
-    res.status(200).json({ message: `Tenant ID: ${tenantId}` });
-  }
-);
+router.use('/auth', auth);
 
 /**
- * Express middleware for version 1 API routes
- * @type {ExpressMiddleware}
+ * API key management routes (create, list, revoke)
+ * @route /api/v1/api-keys
  */
-export const v1: ExpressMiddleware = router;
+router.use('/api-keys', apiKeys);
+
+/**
+ * Audit log routes (search, export)
+ * @route /api/v1/audit-logs
+ */
+router.use('/audit-logs', auditLogs);
+
+/**
+ * Self-service profile routes (profile, email change, avatar, account deletion)
+ * @route /api/v1/me
+ */
+router.use('/me', me);
+
+/**
+ * Role and permission management routes
+ * @route /api/v1/roles
+ */
+router.use('/roles', roles);
+
+/**
+ * Tenant routes (tenant CRUD, members, invitations)
+ * @route /api/v1/tenants
+ */
+router.use('/tenants', tenants);
+
+/**
+ * User management routes (list, get, create, update, delete)
+ * @route /api/v1/users
+ */
+router.use('/users', users);
+
+/**
+ * Express router for version 1 API routes, mounted under /api/v1
+ * @type {express.Router}
+ */
+export const v1: express.Router = router;
@@ -6,14 +6,46 @@
  * @see {@link https://github.com/fasunle}
  */
 
-import { ExpressMiddleware } from '@/types';
-import { HTTP_INTERNAL_SERVER_ERROR, HTTP_UNAUTHENTICATED } from './constants';
+import { Request } from 'express';
+import { ExpressMiddleware, JWTPayload } from '@/types';
+import apiKeyService from '@/services/api-key';
+import { throwAuthenticationError } from './error-handler';
 import { hasValidSession } from './jwt';
+import { setRequestActor } from './request-context';
+import { isTokenRevoked } from './token-revocation';
 
 /**
- * Express middleware function that validates JWT authentication for protected routes.
- * Checks for valid JWT token in the Authorization header and adds user session data
- * to the request object for use in subsequent middleware and route handlers.
+ * Resolves the session of a request from either an API key or a JWT.
+ * API keys are read from the `X-API-Key` header or from a Bearer token carrying the
+ * API key prefix; anything else in the Authorization header is treated as a JWT.
+ *
+ * @param {Request} req - Express request object
+ * @returns {Promise<JWTPayload | null>} The session payload, or null if the credential is
+ * missing, invalid or revoked
+ */
+const resolveSession = async (req: Request): Promise<JWTPayload | null> => {
+  const authHeader = req.headers.authorization;
+  const bearer = authHeader?.startsWith('Bearer ') ? authHeader.split(' ')[1] : undefined;
+  const apiKey = req.get('x-api-key') || (bearer && apiKeyService.isApiKey(bearer) ? bearer : '');
+
+  if (apiKey) {
+    return apiKeyService.authenticate(apiKey);
+  }
+
+  const jwtPayload = hasValidSession(authHeader);
+  if (!jwtPayload || (await isTokenRevoked(jwtPayload))) {
+    return null;
+  }
+
+  return jwtPayload;
+};
+
+/**
+ * Express middleware function that validates JWT or API key authentication for protected routes.
+ * Checks for a valid JWT token in the Authorization header, rejecting tokens that were
+ * revoked (logout, password change, session revocation), or for a valid API key, and adds
+ * user session data to the request object for use in subsequent middleware and route handlers.
+ * Both credentials produce the same session shape; API key sessions also carry `apiKeyId`.
  *
  * @param {Request} req - Express request object containing headers and session
  * @param {Response} res - Express response object for sending HTTP responses
@@ -21,8 +53,7 @@ import { hasValidSession } from './jwt';
  *
  * @returns {Promise<void>} Resolves when authentication check is complete
  *
- * @throws {Error} Returns HTTP 401 if authentication fails or token is invalid
- * @throws {Error} Returns HTTP 500 if an unexpected error occurs during authentication
+ * @throws {AuthenticationError} If authentication fails or the token is invalid
  *
  * @example
  * ```typescript
@@ -44,31 +75,19 @@ import { hasValidSession } from './jwt';
  * ```
  */
 export const authenticated: ExpressMiddleware = async (req, res, next) => {
-  try {
-    // Extract and validate JWT token from Authorization header
-    const jwtPayload = hasValidSession(req.headers.authorization);
+  // Extract and validate the API key or JWT token from the request headers
+  const jwtPayload = await resolveSession(req);
 
-    // Check if user is authenticated via session
-    if (!jwtPayload) {
-      res.status(HTTP_UNAUTHENTICATED).json({
-        success: false,
-        message: 'Authentication required. Please login to continue.',
-      });
-      return;
-    }
+  // Check if user is authenticated via session
+  if (!jwtPayload) {
+    throwAuthenticationError('Authentication required. Please login to continue.');
+  }
 
-    // Add user info to request object for use in subsequent middleware/routes
-    // This allows downstream handlers to access authenticated user data
-    req.session.user = jwtPayload;
+  // Add user info to request object for use in subsequent middleware/routes
+  // This allows downstream handlers to access authenticated user data
+  req.session = { ...req.session, user: jwtPayload as JWTPayload };
+  setRequestActor(jwtPayload as JWTPayload);
 
-    // Continue to next middleware or route handler
-    next();
-  } catch (error) {
-    // Handle any unexpected errors during authentication process
-    res.status(HTTP_INTERNAL_SERVER_ERROR).json({
-      success: false,
-      message: 'Authentication check failed',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    });
-  }
+  // Continue to next middleware or route handler
+  next();
 };
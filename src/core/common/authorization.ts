@@ -1,13 +1,21 @@
 /**
- * Authorization utilities for handling role-based access control and tenant-based access control.
- * This module provides middleware functions for Express.js to protect routes based on user roles
- * and tenant membership.
+ * Authorization utilities for handling role-based, permission-based and tenant-based access control.
+ * This module provides middleware functions for Express.js to protect routes based on user roles,
+ * the permissions those roles grant and tenant membership.
  * @module authorization
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { AuthUser, UserRole } from 'types';
-import { HTTP_FORBIDDEN, HTTP_UNAUTHENTICATED } from './constants';
+import { AuthUser, JWTPayload, UserRole } from 'types';
+import { runInTenant } from '@/core/db/tenant-context';
+import roleService from '@/services/role';
+import tenantService from '@/services/tenant';
+import { HTTP_BAD_REQUEST, HTTP_FORBIDDEN } from './constants';
+import { throwAuthenticationError, throwError } from './error-handler';
+import { Permission } from './permissions';
+import { setRequestTenant } from './request-context';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * Creates a middleware that checks if the authenticated user has any of the specified roles.
@@ -24,15 +32,13 @@ export const hasRole = (roles: UserRole[]) => {
     const user = req?.session?.user as AuthUser;
 
     if (!user) {
-      return res
-        .status(HTTP_UNAUTHENTICATED)
-        .json({ message: 'Unauthorized - User not authenticated' });
+      throwAuthenticationError('User not authenticated');
     }
 
     const hasRequiredRole = user.roles.some(role => roles.includes(role));
 
     if (!hasRequiredRole) {
-      return res.status(HTTP_FORBIDDEN).json({ message: 'Forbidden - Insufficient permissions' });
+      throwError('Insufficient permissions', HTTP_FORBIDDEN);
     }
 
     next();
@@ -40,28 +46,80 @@ export const hasRole = (roles: UserRole[]) => {
 };
 
 /**
- * Creates a middleware that verifies if the authenticated user belongs to the requested tenant.
- * Checks tenant ID from either request parameters or request body.
+ * Creates a middleware that verifies if the authenticated user is a member of the requested tenant
+ * and makes it the current tenant, so tenant-scoped repositories only see its data.
+ * The tenant ID is read from the route parameters, the request body, the `X-Tenant-Id` header
+ * or the session, in that order. Sessions pinned to a tenant (e.g. tenant-scoped API keys)
+ * can't access other tenants. Only users with the platform-level `platform:admin` permission
+ * may access any tenant as a tenant admin; tenant permissions such as `tenants:write` don't
+ * reach into tenants the user isn't a member of.
+ * @param {UserRole[]} [roles] - Tenant roles allowed through; any member when omitted
  * @returns {Function} Express middleware function
  * @example
  * // Protect a route with tenant-based access control
  * router.get('/tenant/:tenantId/data', belongsToTenant(), (req, res) => {
- *   res.json({ message: 'Tenant access granted' });
+ *   res.json({ message: 'Tenant access granted', role: req.tenant.role });
  * });
  */
-export const belongsToTenant = () => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const user = req?.session?.user;
-    const requestedTenantId = req.params.tenantId || req.body.tenantId;
+export const belongsToTenant = (roles?: UserRole[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req?.session?.user as JWTPayload;
+    const requestedTenantId =
+      req.params.tenantId || req.body?.tenantId || req.get('X-Tenant-Id') || user?.tenantId;
+
+    if (!user) {
+      throwAuthenticationError('User not authenticated');
+    }
+
+    if (typeof requestedTenantId !== 'string' || !UUID_PATTERN.test(requestedTenantId)) {
+      throwError('Invalid tenant ID', HTTP_BAD_REQUEST);
+    }
+
+    if (user.tenantId && user.tenantId !== requestedTenantId) {
+      throwError('Invalid tenant access', HTTP_FORBIDDEN);
+    }
+
+    const membership = await tenantService.getMembership(requestedTenantId, user.userId);
+    const role =
+      membership?.role ??
+      ((await roleService.hasPermissions(user, ['platform:admin'])) ? UserRole.ADMIN : null);
+
+    if (!role) {
+      throwError('Invalid tenant access', HTTP_FORBIDDEN);
+    }
+
+    if (roles && !roles.includes(role as UserRole)) {
+      throwError('Insufficient permissions', HTTP_FORBIDDEN);
+    }
+
+    req.tenant = { id: requestedTenantId, role };
+    setRequestTenant(requestedTenantId);
+    runInTenant(req.tenant, () => next());
+  };
+};
+
+/**
+ * Creates a middleware that checks if the authenticated user holds every specified permission.
+ * Permissions come from the user's roles, resolved through the RoleService and cached in
+ * Redis, plus any granted directly to the session (e.g. an API key's permissions).
+ * @param {...string} permissions - Permissions required, e.g. `users:read`
+ * @returns {Function} Express middleware function
+ * @example
+ * // Protect a route with permission-based access control
+ * router.get('/users', requirePermission('users:read'), (req, res) => {
+ *   res.json({ message: 'Users access granted' });
+ * });
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const user = req?.session?.user as JWTPayload;
 
     if (!user) {
-      return res
-        .status(HTTP_UNAUTHENTICATED)
-        .json({ message: 'Unauthorized - User not authenticated' });
+      throwAuthenticationError('User not authenticated');
     }
 
-    if (!user.tenantId || user.tenantId !== requestedTenantId) {
-      return res.status(HTTP_FORBIDDEN).json({ message: 'Forbidden - Invalid tenant access' });
+    if (!(await roleService.hasPermissions(user, permissions))) {
+      throwError('Insufficient permissions', HTTP_FORBIDDEN);
     }
 
     next();
@@ -69,7 +127,7 @@ export const belongsToTenant = () => {
 };
 
 /**
- * Creates a middleware that checks if the user has admin, manager, or user role.
+ * Creates a middleware that checks if the user has the admin role.
  * @returns {Function} Express middleware function
  * @example
  * // Protect a route for admin access
@@ -77,10 +135,10 @@ export const belongsToTenant = () => {
  *   res.json({ message: 'Admin settings updated' });
  * });
  */
-export const isAdmin = () => hasRole([UserRole.ADMIN, UserRole.MANAGER, UserRole.USER]);
+export const isAdmin = () => hasRole([UserRole.ADMIN]);
 
 /**
- * Creates a middleware that checks if the user has manager or user role.
+ * Creates a middleware that checks if the user has the manager role or a higher one.
  * @returns {Function} Express middleware function
  * @example
  * // Protect a route for manager access
@@ -88,10 +146,10 @@ export const isAdmin = () => hasRole([UserRole.ADMIN, UserRole.MANAGER, UserRole
  *   res.json({ message: 'Manager tasks updated' });
  * });
  */
-export const isManager = () => hasRole([UserRole.MANAGER, UserRole.USER]);
+export const isManager = () => hasRole([UserRole.ADMIN, UserRole.MANAGER]);
 
 /**
- * Creates a middleware that checks if the user has user role.
+ * Creates a middleware that checks if the user has any built-in role.
  * @returns {Function} Express middleware function
  * @example
  * // Protect a route for user access
@@ -99,7 +157,7 @@ export const isManager = () => hasRole([UserRole.MANAGER, UserRole.USER]);
  *   res.json({ message: 'User profile accessed' });
  * });
  */
-export const isUser = () => hasRole([UserRole.USER]);
+export const isUser = () => hasRole([UserRole.ADMIN, UserRole.MANAGER, UserRole.USER]);
 
 /**
  * Combines multiple middleware functions into a single middleware that executes them in sequence.
@@ -119,20 +177,24 @@ export const isUser = () => hasRole([UserRole.USER]);
  * );
  */
 export const authorizeMultiple = (
-  ...middlewares: Array<(req: Request, res: Response, next: NextFunction) => void>
+  ...middlewares: Array<(req: Request, res: Response, next: NextFunction) => void | Promise<void>>
 ) => {
   return (req: Request, res: Response, next: NextFunction) => {
     const executeMiddleware = (index: number) => {
       if (index === middlewares.length) {
         return next();
       }
-      //
-      middlewares[index](req, res, (err?: any) => {
-        if (err) {
-          return next(err);
-        }
-        executeMiddleware(index + 1);
-      });
+      // Checks throw their errors, and async ones reject with them, so both are passed on
+      Promise.resolve()
+        .then(() =>
+          middlewares[index](req, res, (err?: any) => {
+            if (err) {
+              return next(err);
+            }
+            executeMiddleware(index + 1);
+          })
+        )
+        .catch(next);
     };
 
     executeMiddleware(0);
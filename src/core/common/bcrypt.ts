@@ -17,6 +17,12 @@ import { HTTP_INTERNAL_SERVER_ERROR } from './constants';
 
 const SALT_ROUNDS = 10;
 
+/**
+ * Hash of a random password, with the same cost as real hashes. Logins for unknown users
+ * are compared against it, so they take as long as a wrong password for a known user.
+ */
+export const DUMMY_PASSWORD_HASH = '$2b$10$u8KimK.MAcJMIGo6mehfjOR.Xq8fJy12/XaJbRCWXCFQi5zWi8.d2';
+
 /**
  * Hashes a plain text password using bcrypt (async).
  * @async
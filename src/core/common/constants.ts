@@ -8,6 +8,41 @@ export const CONFLICT_ERROR = 'ConflictError';
 export const UNPROCESSABLE_ENTITY_ERROR = 'UnprocessableEntityError';
 export const FORBIDDEN_ERROR = 'ForbiddenError';
 export const BAD_REQUEST_ERROR = 'BadRequestError';
+export const EMAIL_NOT_VERIFIED_ERROR = 'EmailNotVerifiedError';
+export const ACCOUNT_LOCKED_ERROR = 'AccountLockedError';
+export const TOO_MANY_ATTEMPTS_ERROR = 'TooManyAttemptsError';
+export const NOT_ACCEPTABLE_ERROR = 'NotAcceptableError';
+export const PAYLOAD_TOO_LARGE_ERROR = 'PayloadTooLargeError';
+export const TOO_MANY_REQUESTS_ERROR = 'TooManyRequestsError';
+export const SERVICE_UNAVAILABLE_ERROR = 'ServiceUnavailableError';
+
+// -----------------------ERROR CODES----------------------------
+// Stable, machine-readable codes sent as `code` in error responses. Messages may change;
+// clients should branch on these instead.
+export const ERROR_CODES = {
+  BAD_REQUEST: 'BAD_REQUEST',
+  MALFORMED_BODY: 'MALFORMED_BODY',
+  INVALID_VALUE: 'INVALID_VALUE',
+  UNAUTHENTICATED: 'UNAUTHENTICATED',
+  TOKEN_EXPIRED: 'TOKEN_EXPIRED',
+  TOKEN_INVALID: 'TOKEN_INVALID',
+  FORBIDDEN: 'FORBIDDEN',
+  EMAIL_NOT_VERIFIED: 'EMAIL_NOT_VERIFIED',
+  NOT_FOUND: 'NOT_FOUND',
+  ROUTE_NOT_FOUND: 'ROUTE_NOT_FOUND',
+  NOT_ACCEPTABLE: 'NOT_ACCEPTABLE',
+  CONFLICT: 'CONFLICT',
+  ALREADY_EXISTS: 'ALREADY_EXISTS',
+  REFERENCE_CONFLICT: 'REFERENCE_CONFLICT',
+  PAYLOAD_TOO_LARGE: 'PAYLOAD_TOO_LARGE',
+  VALIDATION_FAILED: 'VALIDATION_FAILED',
+  UNPROCESSABLE_ENTITY: 'UNPROCESSABLE_ENTITY',
+  TOO_MANY_REQUESTS: 'TOO_MANY_REQUESTS',
+  TOO_MANY_ATTEMPTS: 'TOO_MANY_ATTEMPTS',
+  ACCOUNT_LOCKED: 'ACCOUNT_LOCKED',
+  INTERNAL_ERROR: 'INTERNAL_ERROR',
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+} as const;
 
 // -----------------------STATUS CODE----------------------------
 export const HTTP_OK = 200;
@@ -17,7 +52,10 @@ export const HTTP_BAD_REQUEST = 400;
 export const HTTP_UNAUTHENTICATED = 401;
 export const HTTP_FORBIDDEN = 403;
 export const HTTP_NOT_FOUND = 404;
+export const HTTP_NOT_ACCEPTABLE = 406;
 export const HTTP_CONFLICT = 409;
+export const HTTP_PAYLOAD_TOO_LARGE = 413;
 export const HTTP_UNPROCESSABLE_ENTITY = 422;
+export const HTTP_TOO_MANY_REQUESTS = 429;
 export const HTTP_INTERNAL_SERVER_ERROR = 500;
 export const HTTP_SERVICE_UNAVAILABLE = 503;
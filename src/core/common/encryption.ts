@@ -0,0 +1,50 @@
+/**
+ * @file encryption.ts
+ * @description Symmetric encryption for secrets that must be read back, such as TOTP secrets
+ * @company Coco
+ * @author Kehinde Fasunle
+ * @see https://github.com/fasunle
+ */
+
+//
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * 256-bit key derived from the configured encryption secret
+ * @constant {Buffer}
+ */
+const ENCRYPTION_KEY = createHash('sha256')
+  .update(process.env.ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key')
+  .digest();
+
+/**
+ * Encrypts a value with AES-256-GCM
+ * @param {string} plainText - The value to encrypt
+ * @returns {string} `iv.authTag.cipherText`, each part base64url encoded
+ */
+export const encryptSecret = (plainText: string): string => {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, ENCRYPTION_KEY, iv);
+  const cipherText = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), cipherText].map(part => part.toString('base64url')).join('.');
+};
+
+/**
+ * Decrypts a value produced by `encryptSecret`
+ * @param {string} encrypted - The encrypted value
+ * @returns {string} The original value
+ * @throws {Error} If the value was tampered with or encrypted with another key
+ */
+export const decryptSecret = (encrypted: string): string => {
+  const [iv, authTag, cipherText] = encrypted
+    .split('.')
+    .map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv(ALGORITHM, ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(cipherText), decipher.final()]).toString('utf8');
+};
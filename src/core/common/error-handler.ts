@@ -1,20 +1,79 @@
 /**
  * @file error-handler.ts
- * @description Error handling utilities and middleware for the application
+ * @description Error types, error handling utilities and middleware for the application.
+ * Errors are answered as RFC 7807 problem details (`application/problem+json`):
+ *
+ * ```json
+ * {
+ *   "type": "about:blank",
+ *   "title": "Not Found",
+ *   "status": 404,
+ *   "detail": "User not found",
+ *   "instance": "/api/v1/users/1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed",
+ *   "code": "NOT_FOUND",
+ *   "correlationId": "9f0c2a4e-1d7b-4a53-a1f6-0b8f3c7e2d11"
+ * }
+ * ```
+ *
+ * `code` is one of `ERROR_CODES` and stays stable while messages change. Validation
+ * errors add an `errors` list of the invalid fields, other errors their `data`.
  * @company Coco
  * @author Kehinde Fasunle
  * @see {@link https://github.com/fasunle}
  */
 
 //
-import { ErrorMiddleware } from '@/types';
+import { trace } from '@opentelemetry/api';
+import { randomUUID } from 'crypto';
+import { STATUS_CODES } from 'http';
+import { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
+import { ErrorMiddleware, ExpressMiddleware, FieldError } from '@/types';
 import {
+  ACCOUNT_LOCKED_ERROR,
   AUTHENTICATION_ERROR,
+  AUTHORIZATION_ERROR,
+  BAD_REQUEST_ERROR,
+  CONFLICT_ERROR,
+  EMAIL_NOT_VERIFIED_ERROR,
+  ERROR_CODES,
+  FORBIDDEN_ERROR,
   HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_FORBIDDEN,
   HTTP_INTERNAL_SERVER_ERROR,
+  HTTP_NOT_ACCEPTABLE,
+  HTTP_NOT_FOUND,
+  HTTP_PAYLOAD_TOO_LARGE,
+  HTTP_SERVICE_UNAVAILABLE,
+  HTTP_TOO_MANY_REQUESTS,
   HTTP_UNAUTHENTICATED,
+  HTTP_UNPROCESSABLE_ENTITY,
+  INTERNAL_SERVER_ERROR,
+  NOT_ACCEPTABLE_ERROR,
+  NOT_FOUND_ERROR,
+  PAYLOAD_TOO_LARGE_ERROR,
+  SERVICE_UNAVAILABLE_ERROR,
+  TOO_MANY_ATTEMPTS_ERROR,
+  TOO_MANY_REQUESTS_ERROR,
+  UNPROCESSABLE_ENTITY_ERROR,
   VALIDATION_ERROR,
 } from './constants';
+import { logger } from './logger';
+import { getRequestContext } from './request-context';
+
+/**
+ * Machine-readable error code, see `ERROR_CODES`
+ */
+export type ErrorCode = (typeof ERROR_CODES)[keyof typeof ERROR_CODES];
+
+/**
+ * PostgreSQL error codes translated into client errors
+ * @see {@link https://www.postgresql.org/docs/current/errcodes-appendix.html}
+ */
+const PG_UNIQUE_VIOLATION = '23505';
+const PG_FOREIGN_KEY_VIOLATION = '23503';
+const PG_INVALID_TEXT_REPRESENTATION = '22P02';
 
 /**
  * @class AppError
@@ -28,12 +87,14 @@ export class AppError extends Error {
    * @param {string} name - Error name/type
    * @param {number} [statusCode] - HTTP status code
    * @param {any} [data] - Additional error data
+   * @param {string} [code] - Machine-readable error code
    */
   constructor(
     public message: string,
     public name: string,
     public statusCode?: number,
-    public data?: any
+    public data?: any,
+    public code: ErrorCode | string = 'ERROR'
   ) {
     super(message);
     this.name = name;
@@ -41,33 +102,313 @@ export class AppError extends Error {
   }
 }
 
+/**
+ * @class BadRequestError
+ * @extends AppError
+ * @description The request is malformed (400)
+ */
+export class BadRequestError extends AppError {
+  constructor(message = 'Bad request', data?: unknown, code: ErrorCode = ERROR_CODES.BAD_REQUEST) {
+    super(message, BAD_REQUEST_ERROR, HTTP_BAD_REQUEST, data, code);
+  }
+}
+
+/**
+ * @class AuthenticationError
+ * @extends AppError
+ * @description The request lacks valid credentials (401)
+ */
+export class AuthenticationError extends AppError {
+  constructor(
+    message = 'Authentication failed',
+    data?: unknown,
+    code: ErrorCode = ERROR_CODES.UNAUTHENTICATED
+  ) {
+    super(message, AUTHENTICATION_ERROR, HTTP_UNAUTHENTICATED, data, code);
+  }
+}
+
+/**
+ * @class ForbiddenError
+ * @extends AppError
+ * @description The requester may not perform the action (403)
+ */
+export class ForbiddenError extends AppError {
+  constructor(message = 'Forbidden', data?: unknown, code: ErrorCode = ERROR_CODES.FORBIDDEN) {
+    super(message, FORBIDDEN_ERROR, HTTP_FORBIDDEN, data, code);
+  }
+}
+
+/**
+ * @class EmailNotVerifiedError
+ * @extends ForbiddenError
+ * @description The account can't sign in until its email address is verified (403)
+ */
+export class EmailNotVerifiedError extends ForbiddenError {
+  constructor(message = 'Email address has not been verified', data?: unknown) {
+    super(message, data, ERROR_CODES.EMAIL_NOT_VERIFIED);
+    this.name = EMAIL_NOT_VERIFIED_ERROR;
+  }
+}
+
+/**
+ * @class NotFoundError
+ * @extends AppError
+ * @description The resource doesn't exist or isn't visible to the requester (404)
+ */
+export class NotFoundError extends AppError {
+  constructor(message = 'Not found', data?: unknown, code: ErrorCode = ERROR_CODES.NOT_FOUND) {
+    super(message, NOT_FOUND_ERROR, HTTP_NOT_FOUND, data, code);
+  }
+}
+
+/**
+ * @class NotAcceptableError
+ * @extends AppError
+ * @description No representation matches the `Accept` header (406)
+ */
+export class NotAcceptableError extends AppError {
+  constructor(message = 'Not acceptable', data?: unknown) {
+    super(message, NOT_ACCEPTABLE_ERROR, HTTP_NOT_ACCEPTABLE, data, ERROR_CODES.NOT_ACCEPTABLE);
+  }
+}
+
+/**
+ * @class ConflictError
+ * @extends AppError
+ * @description The request conflicts with the current state of a resource (409)
+ */
+export class ConflictError extends AppError {
+  constructor(message = 'Conflict', data?: unknown, code: ErrorCode = ERROR_CODES.CONFLICT) {
+    super(message, CONFLICT_ERROR, HTTP_CONFLICT, data, code);
+  }
+}
+
+/**
+ * @class PayloadTooLargeError
+ * @extends AppError
+ * @description The request body exceeds the size limit (413)
+ */
+export class PayloadTooLargeError extends AppError {
+  constructor(message = 'Request body is too large', data?: unknown) {
+    super(
+      message,
+      PAYLOAD_TOO_LARGE_ERROR,
+      HTTP_PAYLOAD_TOO_LARGE,
+      data,
+      ERROR_CODES.PAYLOAD_TOO_LARGE
+    );
+  }
+}
+
+/**
+ * @class UnprocessableEntityError
+ * @extends AppError
+ * @description The request is well formed but can't be processed (422)
+ */
+export class UnprocessableEntityError extends AppError {
+  constructor(
+    message = 'Unprocessable entity',
+    data?: unknown,
+    code: ErrorCode = ERROR_CODES.UNPROCESSABLE_ENTITY
+  ) {
+    super(message, UNPROCESSABLE_ENTITY_ERROR, HTTP_UNPROCESSABLE_ENTITY, data, code);
+  }
+}
+
+/**
+ * @class ValidationError
+ * @extends UnprocessableEntityError
+ * @description Request input failed validation; `data` usually lists the invalid fields (422)
+ */
+export class ValidationError extends UnprocessableEntityError {
+  constructor(message = 'Invalid request', data?: FieldError[] | unknown) {
+    super(message, data, ERROR_CODES.VALIDATION_FAILED);
+    this.name = VALIDATION_ERROR;
+  }
+}
+
+/**
+ * @class TooManyRequestsError
+ * @extends AppError
+ * @description The requester is rate limited (429)
+ */
+export class TooManyRequestsError extends AppError {
+  constructor(
+    message = 'Too many requests',
+    data?: unknown,
+    code: ErrorCode = ERROR_CODES.TOO_MANY_REQUESTS
+  ) {
+    super(message, TOO_MANY_REQUESTS_ERROR, HTTP_TOO_MANY_REQUESTS, data, code);
+  }
+}
+
+/**
+ * @class TooManyAttemptsError
+ * @extends TooManyRequestsError
+ * @description Logins are paused after repeated failures (429)
+ */
+export class TooManyAttemptsError extends TooManyRequestsError {
+  constructor(message = 'Too many failed login attempts', data?: unknown) {
+    super(message, data, ERROR_CODES.TOO_MANY_ATTEMPTS);
+    this.name = TOO_MANY_ATTEMPTS_ERROR;
+  }
+}
+
+/**
+ * @class AccountLockedError
+ * @extends TooManyRequestsError
+ * @description The account is temporarily locked after repeated failed logins (429)
+ */
+export class AccountLockedError extends TooManyRequestsError {
+  constructor(message = 'The account is temporarily locked', data?: unknown) {
+    super(message, data, ERROR_CODES.ACCOUNT_LOCKED);
+    this.name = ACCOUNT_LOCKED_ERROR;
+  }
+}
+
+/**
+ * @class InternalServerError
+ * @extends AppError
+ * @description An unexpected failure; its message is never shown to clients (500)
+ */
+export class InternalServerError extends AppError {
+  constructor(message = 'Internal Server Error', data?: unknown) {
+    super(
+      message,
+      INTERNAL_SERVER_ERROR,
+      HTTP_INTERNAL_SERVER_ERROR,
+      data,
+      ERROR_CODES.INTERNAL_ERROR
+    );
+  }
+}
+
+/**
+ * @class ServiceUnavailableError
+ * @extends AppError
+ * @description A dependency such as the database is unavailable (503)
+ */
+export class ServiceUnavailableError extends AppError {
+  constructor(message = 'Service unavailable', data?: unknown) {
+    super(
+      message,
+      SERVICE_UNAVAILABLE_ERROR,
+      HTTP_SERVICE_UNAVAILABLE,
+      data,
+      ERROR_CODES.SERVICE_UNAVAILABLE
+    );
+  }
+}
+
+/**
+ * Constructor of an error type taking a message and optional data
+ */
+type ErrorType = new (message?: string, data?: unknown) => AppError;
+
+/**
+ * Error types by the error names in `constants.ts`
+ */
+const ERROR_TYPES_BY_NAME: Record<string, ErrorType> = {
+  [BAD_REQUEST_ERROR]: BadRequestError,
+  [AUTHENTICATION_ERROR]: AuthenticationError,
+  [AUTHORIZATION_ERROR]: ForbiddenError,
+  [FORBIDDEN_ERROR]: ForbiddenError,
+  [EMAIL_NOT_VERIFIED_ERROR]: EmailNotVerifiedError,
+  [NOT_FOUND_ERROR]: NotFoundError,
+  [NOT_ACCEPTABLE_ERROR]: NotAcceptableError,
+  [CONFLICT_ERROR]: ConflictError,
+  [PAYLOAD_TOO_LARGE_ERROR]: PayloadTooLargeError,
+  [UNPROCESSABLE_ENTITY_ERROR]: UnprocessableEntityError,
+  [VALIDATION_ERROR]: ValidationError,
+  [TOO_MANY_REQUESTS_ERROR]: TooManyRequestsError,
+  [TOO_MANY_ATTEMPTS_ERROR]: TooManyAttemptsError,
+  [ACCOUNT_LOCKED_ERROR]: AccountLockedError,
+  [INTERNAL_SERVER_ERROR]: InternalServerError,
+  [SERVICE_UNAVAILABLE_ERROR]: ServiceUnavailableError,
+};
+
+/**
+ * Error types used for a status code when no error name is given
+ */
+const ERROR_TYPES_BY_STATUS: Record<number, ErrorType> = {
+  [HTTP_BAD_REQUEST]: BadRequestError,
+  [HTTP_UNAUTHENTICATED]: AuthenticationError,
+  [HTTP_FORBIDDEN]: ForbiddenError,
+  [HTTP_NOT_FOUND]: NotFoundError,
+  [HTTP_NOT_ACCEPTABLE]: NotAcceptableError,
+  [HTTP_CONFLICT]: ConflictError,
+  [HTTP_PAYLOAD_TOO_LARGE]: PayloadTooLargeError,
+  [HTTP_UNPROCESSABLE_ENTITY]: UnprocessableEntityError,
+  [HTTP_TOO_MANY_REQUESTS]: TooManyRequestsError,
+  [HTTP_INTERNAL_SERVER_ERROR]: InternalServerError,
+  [HTTP_SERVICE_UNAVAILABLE]: ServiceUnavailableError,
+};
+
+/**
+ * @function createError
+ * @description Creates the typed error matching an error name or, without one, a status code
+ * @param {string} message - Error message
+ * @param {number} [statusCode=HTTP_BAD_REQUEST] - HTTP status code
+ * @param {string} [name] - Error name/type, one of the error names in `constants.ts`
+ * @param {any} [data] - Additional error data
+ * @returns {AppError} The error
+ */
+export const createError = (
+  message: string,
+  statusCode: number = HTTP_BAD_REQUEST,
+  name?: string,
+  data?: unknown
+): AppError => {
+  const ErrorType = (name && ERROR_TYPES_BY_NAME[name]) || ERROR_TYPES_BY_STATUS[statusCode];
+
+  if (!ErrorType) {
+    return new AppError(message, name ?? 'AppError', statusCode, data);
+  }
+
+  const error = new ErrorType(message, data);
+  error.statusCode = statusCode;
+  return error;
+};
+
 /**
  * @function throwError
- * @description Generic error throwing utility
+ * @description Generic error throwing utility. Throws the typed error matching the name,
+ * or else the status code, e.g. a `NotFoundError` for 404.
  * @param {string} message - Error message
  * @param {number} [statusCode=HTTP_BAD_REQUEST] - HTTP status code
- * @param {string} [name="AppError"] - Error name/type
+ * @param {string} [name] - Error name/type, one of the error names in `constants.ts`
  * @param {any} [data] - Additional error data
  * @throws {AppError}
  */
 export const throwError = (
   message: string,
   statusCode: number = HTTP_BAD_REQUEST,
-  name: string = 'AppError',
+  name?: string,
   data?: any
 ): never => {
-  throw new AppError(message, name, statusCode, data);
+  throw createError(message, statusCode, name, data);
 };
 
+/**
+ * @function validationError
+ * @description Creates a validation error, for callbacks that pass errors on instead of throwing
+ * @param {string} message - Validation error message
+ * @param {FieldError[] | any} [data] - The invalid fields, or other validation error data
+ * @returns {AppError} The error
+ */
+export const validationError = (message: string, data?: FieldError[] | unknown): AppError =>
+  new ValidationError(message, data);
+
 /**
  * @function throwValidationError
  * @description Throws a validation error
  * @param {string} message - Validation error message
- * @param {any} [data] - Additional validation error data
+ * @param {FieldError[] | any} [data] - The invalid fields, or other validation error data
  * @throws {AppError}
  */
-export const throwValidationError = (message: string, data?: any): never => {
-  throw new AppError(message, VALIDATION_ERROR, HTTP_BAD_REQUEST, data);
+export const throwValidationError = (message: string, data?: FieldError[] | any): never => {
+  throw validationError(message, data);
 };
 
 /**
@@ -77,7 +418,7 @@ export const throwValidationError = (message: string, data?: any): never => {
  * @throws {AppError}
  */
 export const throwAuthenticationError = (message: string = 'Authentication failed'): never => {
-  throw new AppError(message, AUTHENTICATION_ERROR, HTTP_UNAUTHENTICATED);
+  throw new AuthenticationError(message);
 };
 
 /**
@@ -87,38 +428,133 @@ export const throwAuthenticationError = (message: string = 'Authentication faile
  * @throws {AppError}
  */
 export const throwInternalError = (message: string = 'Internal Server Error'): never => {
-  throw new AppError(message, 'INTERNAL_ERROR', HTTP_INTERNAL_SERVER_ERROR);
+  throw new InternalServerError(message);
+};
+
+/**
+ * @function translateError
+ * @description Translates errors thrown by libraries into application errors, so clients get
+ * a meaningful status without seeing database or token internals. Unknown errors become
+ * internal server errors.
+ * @param {Error} err - The error
+ * @returns {AppError} The application error
+ */
+export const translateError = (err: Error): AppError => {
+  if (err instanceof AppError) {
+    return err;
+  }
+
+  if (err instanceof EntityNotFoundError) {
+    return new NotFoundError('Resource not found');
+  }
+
+  if (err instanceof QueryFailedError) {
+    switch ((err.driverError as { code?: string } | undefined)?.code) {
+      case PG_UNIQUE_VIOLATION:
+        return new ConflictError('Resource already exists', undefined, ERROR_CODES.ALREADY_EXISTS);
+      case PG_FOREIGN_KEY_VIOLATION:
+        return new ConflictError(
+          'Resource is referenced by or refers to another resource',
+          undefined,
+          ERROR_CODES.REFERENCE_CONFLICT
+        );
+      case PG_INVALID_TEXT_REPRESENTATION:
+        return new BadRequestError(
+          'Invalid identifier or value',
+          undefined,
+          ERROR_CODES.INVALID_VALUE
+        );
+    }
+  }
+
+  // TokenExpiredError extends JsonWebTokenError, so it must be checked first
+  if (err instanceof TokenExpiredError) {
+    return new AuthenticationError('Token has expired', undefined, ERROR_CODES.TOKEN_EXPIRED);
+  }
+  if (err instanceof JsonWebTokenError) {
+    return new AuthenticationError('Invalid token', undefined, ERROR_CODES.TOKEN_INVALID);
+  }
+
+  // Errors of the body parsers carry a status and whether their message is safe to show
+  const httpError = err as Error & { status?: number; expose?: boolean; type?: string };
+  if (httpError.expose && httpError.status && httpError.status < HTTP_INTERNAL_SERVER_ERROR) {
+    if (httpError.type === 'entity.parse.failed') {
+      return new BadRequestError(
+        'Request body is not valid JSON',
+        undefined,
+        ERROR_CODES.MALFORMED_BODY
+      );
+    }
+    return createError(httpError.message, httpError.status);
+  }
+
+  return new InternalServerError();
+};
+
+/**
+ * @function notFoundHandler
+ * @description Answers requests that match no route with a not found error
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const notFoundHandler: ExpressMiddleware = (req, res, next) => {
+  next(
+    new NotFoundError(
+      `Cannot ${req.method} ${req.originalUrl.split('?')[0]}`,
+      undefined,
+      ERROR_CODES.ROUTE_NOT_FOUND
+    )
+  );
 };
 
 /**
  * @function errorHandler
- * @description Global error handling middleware
+ * @description Global error handling middleware. Answers with problem details and logs
+ * server errors along with the correlation id sent to the client.
  * @param {Error} err - Error object
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  * @param {NextFunction} next - Express next function
  */
 const errorHandler: ErrorMiddleware = (err, req, res, next) => {
-  const stack = process.env.NODE_ENV === 'development' ? err : undefined;
-  // Handle specific error types
-  if (err.name === VALIDATION_ERROR) {
-    res.status(HTTP_BAD_REQUEST).json({
-      error: err.message || 'Validation failed',
-      stack,
-    });
+  // Once a response has started (e.g. a streamed export) Express can only abort it
+  if (res.headersSent) {
+    return next(err);
   }
 
-  // Handle other error types as needed
-  if (err.name === AUTHENTICATION_ERROR) {
-    res.status(HTTP_UNAUTHENTICATED).json({ error: 'Authentication failed' });
+  const error = translateError(err);
+  const status = error.statusCode || HTTP_BAD_REQUEST;
+  const correlationId = getRequestContext()?.requestId ?? randomUUID();
+  const development = process.env.NODE_ENV === 'development';
+  // The query string is left out, it can carry secrets such as verification or reset tokens
+  const path = req.originalUrl.split('?')[0];
+
+  if (status >= HTTP_INTERNAL_SERVER_ERROR) {
+    logger.error(`${req.method} ${path} failed [${correlationId}]:`, err.stack ?? err);
+    trace.getActiveSpan()?.recordException(err);
   }
 
-  // Default error handler
-  console.error(err.stack); // Log the error for debugging
+  // Validation errors list the invalid fields under `errors`, whichever check found them
+  const fieldErrors = error instanceof ValidationError && Array.isArray(error.data);
 
-  res.status(HTTP_INTERNAL_SERVER_ERROR).json({
-    error: 'Internal Server Error',
-    stack,
-  });
+  res
+    .status(status)
+    .type('application/problem+json')
+    .json({
+      type: 'about:blank',
+      title: STATUS_CODES[status] ?? 'Error',
+      status,
+      // Messages of unexpected failures may reveal internals, clients get the correlation id instead
+      detail:
+        status === HTTP_INTERNAL_SERVER_ERROR && !development
+          ? 'An unexpected error occurred'
+          : error.message,
+      instance: path,
+      code: error.code,
+      correlationId,
+      ...(fieldErrors ? { errors: error.data } : { data: error.data }),
+      ...(development && { stack: err.stack }),
+    });
 };
 export default errorHandler;
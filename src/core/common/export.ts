@@ -0,0 +1,234 @@
+/**
+ * @fileoverview Streaming data export to CSV, XLSX and NDJSON
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Exports take their records from an async iterable, so services can read them from the
+ * database in batches. CSV and NDJSON are written to the response as the records arrive.
+ * XLSX files are zip archives that can only be written whole, so XLSX exports are built
+ * in memory and capped at `MAX_XLSX_ROWS`.
+ */
+
+import { once } from 'events';
+import { Request, Response } from 'express';
+import * as XLSX from 'xlsx';
+import { HTTP_NOT_ACCEPTABLE, HTTP_OK } from './constants';
+import { throwError, throwValidationError, validationError } from './error-handler';
+import { logger } from './logger';
+
+/**
+ * Supported export formats
+ * @constant {string[]}
+ */
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'ndjson'] as const;
+
+/**
+ * An export format
+ */
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Maximum number of rows in an XLSX export
+ * @constant {number}
+ */
+export const MAX_XLSX_ROWS = 50000;
+
+/**
+ * Content type of each export format
+ */
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * Options of an export
+ */
+export interface ExportOptions {
+  format: ExportFormat;
+  /** File name without extension, offered to the client for saving */
+  filename: string;
+  /** Record keys to export, in column order */
+  columns: readonly string[];
+  /** The records; only the selected columns are read from them */
+  rows: AsyncIterable<object>;
+}
+
+/**
+ * Picks the export format from the `format` query parameter or, without one,
+ * from the `Accept` header. Defaults to CSV.
+ * @param {Request} req - Express request object
+ * @returns {ExportFormat} The format
+ * @throws {AppError} If the format parameter is unknown, or no accepted type can be produced
+ */
+export const resolveExportFormat = (req: Request): ExportFormat => {
+  const { format } = req.query;
+
+  if (format !== undefined) {
+    if (!(EXPORT_FORMATS as readonly unknown[]).includes(format)) {
+      const message = `format must be one of: ${EXPORT_FORMATS.join(', ')}`;
+      throwValidationError(message, [{ location: 'query', field: 'format', message }]);
+    }
+    return format as ExportFormat;
+  }
+
+  const accepted = req.accepts(EXPORT_FORMATS.map(name => CONTENT_TYPES[name]));
+  const match = EXPORT_FORMATS.find(name => CONTENT_TYPES[name] === accepted);
+
+  if (!match) {
+    throwError(
+      `Exports are available as ${Object.values(CONTENT_TYPES).join(', ')}`,
+      HTTP_NOT_ACCEPTABLE
+    );
+  }
+
+  return match as ExportFormat;
+};
+
+/**
+ * Parses the `columns` query parameter, a comma-separated list of column names
+ * @param {unknown} value - The parameter
+ * @param {readonly string[]} allowed - Columns that may be exported, in default order
+ * @returns {string[]} The selected columns, or all allowed columns if none are given
+ * @throws {AppError} Validation error if a column is unknown
+ */
+export const parseExportColumns = (value: unknown, allowed: readonly string[]): string[] => {
+  if (value === undefined || value === '') {
+    return [...allowed];
+  }
+
+  const columns = typeof value === 'string' ? value.split(',').map(column => column.trim()) : [];
+  const unknown = columns.filter(column => !allowed.includes(column));
+
+  if (!columns.length || unknown.length) {
+    const message = `columns must be a comma-separated list of: ${allowed.join(', ')}`;
+    throwValidationError(message, [{ location: 'query', field: 'columns', message }]);
+  }
+
+  return [...new Set(columns)];
+};
+
+/**
+ * Formats a value for a spreadsheet cell. Arrays are joined with `;`, matching the
+ * format user imports read.
+ * @param {unknown} value - The value
+ * @returns {string | number | boolean} The cell value
+ */
+const toCell = (value: unknown): string | number | boolean => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.join(';');
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Formats one CSV line. Values that spreadsheet apps would run as formulas are
+ * prefixed with a quote.
+ * @param {Array<string | number | boolean>} cells - The cells
+ * @returns {string} The line, including the line break
+ */
+const toCsvLine = (cells: (string | number | boolean)[]): string =>
+  cells
+    .map(cell => {
+      let text = String(cell);
+      if (typeof cell === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(',') + '\r\n';
+
+/**
+ * Writes a chunk to the response, waiting for the client to catch up when its buffer is full
+ * @param {Response} res - Express response object
+ * @param {string} chunk - The chunk
+ * @returns {Promise<void>}
+ */
+const write = async (res: Response, chunk: string): Promise<void> => {
+  if (!res.write(chunk)) {
+    await Promise.race([once(res, 'drain'), once(res, 'close')]);
+  }
+  if (res.destroyed) {
+    throw new Error('Client closed the connection');
+  }
+};
+
+/**
+ * Sets the status and headers that make the client save the response as a file
+ * @param {Response} res - Express response object
+ * @param {ExportFormat} format - The export format
+ * @param {string} filename - File name without extension
+ */
+const startDownload = (res: Response, format: ExportFormat, filename: string) => {
+  res.status(HTTP_OK);
+  res.setHeader('Content-Type', `${CONTENT_TYPES[format]}; charset=utf-8`);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
+};
+
+/**
+ * Sends records to the client as a downloadable file. Errors before the first record
+ * is read reach the error handler as usual; later ones can only abort the response.
+ * @param {Response} res - Express response object
+ * @param {ExportOptions} options - The export
+ * @returns {Promise<void>}
+ */
+export const sendExport = async (res: Response, options: ExportOptions): Promise<void> => {
+  const { format, filename, columns, rows } = options;
+
+  if (format === 'xlsx') {
+    const sheet: (string | number | boolean)[][] = [[...columns]];
+
+    for await (const row of rows) {
+      if (sheet.length > MAX_XLSX_ROWS) {
+        throw validationError(
+          `XLSX exports are limited to ${MAX_XLSX_ROWS} rows; narrow the filters or use CSV or NDJSON`
+        );
+      }
+      sheet.push(columns.map(column => toCell((row as Record<string, unknown>)[column])));
+    }
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet), filename.slice(0, 31));
+    startDownload(res, format, filename);
+    res.send(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }));
+    return;
+  }
+
+  const toLine = (row: Record<string, unknown>) =>
+    format === 'csv'
+      ? toCsvLine(columns.map(column => toCell(row[column])))
+      : `${JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? null])))}\n`;
+
+  // Reading the first record before responding lets query errors reach the error handler
+  const iterator = rows[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  startDownload(res, format, filename);
+
+  try {
+    if (format === 'csv') {
+      await write(res, toCsvLine([...columns]));
+    }
+    while (!next.done) {
+      await write(res, toLine(next.value as Record<string, unknown>));
+      next = await iterator.next();
+    }
+    res.end();
+  } catch (error) {
+    // The status line is already out, so the client can only learn of the failure from the cut-off
+    logger.error('Export failed after the response started:', error);
+    await iterator.return?.();
+    res.destroy();
+  }
+};
@@ -7,8 +7,14 @@
  */
 
 //
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
-import { JWTPayload } from 'types';
+import {
+  EmailVerificationPayload,
+  JWTPayload,
+  MfaPendingPayload,
+  RefreshTokenPayload,
+} from 'types';
 
 /**
  * Secret key for JWT token generation and verification
@@ -17,18 +23,73 @@ import { JWTPayload } from 'types';
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
 /**
- * Token expiration time
+ * Secret key for refresh token generation and verification
  * @constant {string}
  */
-const TOKEN_EXPIRATION = '24h';
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || `${JWT_SECRET}:refresh`;
 
 /**
- * Generates a JWT token with the provided payload
+ * Secret key for email verification tokens, kept apart so they can't be used as access tokens
+ * @constant {string}
+ */
+const JWT_EMAIL_VERIFICATION_SECRET = `${JWT_SECRET}:email-verification`;
+
+/**
+ * Secret key for "mfa pending" tokens, kept apart so they can't be used as access tokens
+ * @constant {string}
+ */
+const JWT_MFA_SECRET = `${JWT_SECRET}:mfa`;
+
+/**
+ * Access token lifetime in seconds (1 hour)
+ * @constant {number}
+ */
+export const ACCESS_TOKEN_TTL = 60 * 60;
+
+/**
+ * Refresh token lifetime in seconds (7 days)
+ * @constant {number}
+ */
+export const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60;
+
+/**
+ * Generates a short-lived JWT access token with the provided payload.
+ * Every token gets a unique `jti` so it can be revoked individually, and an `iatMs`
+ * claim so per-user revocation cut-offs are exact to the millisecond.
  * @param {JWTPayload} payload - The data to be encoded in the token
  * @returns {string} The generated JWT token
  */
 export const generateToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: TOKEN_EXPIRATION });
+  return jwt.sign({ ...payload, iatMs: Date.now() }, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+    jwtid: randomUUID(),
+  });
+};
+
+/**
+ * Generates a long-lived refresh token belonging to a token family.
+ * Every token gets a unique `jti` so that rotated tokens never collide.
+ * @param {RefreshTokenPayload} payload - The user and token family the token belongs to
+ * @returns {string} The generated refresh token
+ */
+export const generateRefreshToken = (payload: RefreshTokenPayload): string => {
+  return jwt.sign(payload, JWT_REFRESH_SECRET, {
+    expiresIn: REFRESH_TOKEN_TTL,
+    jwtid: randomUUID(),
+  });
+};
+
+/**
+ * Verifies a refresh token and returns the decoded payload
+ * @param {string} token - The refresh token to verify
+ * @returns {RefreshTokenPayload | null} The decoded payload if valid, null otherwise
+ */
+export const verifyRefreshToken = (token: string): RefreshTokenPayload | null => {
+  try {
+    return jwt.verify(token, JWT_REFRESH_SECRET) as RefreshTokenPayload;
+  } catch {
+    return null;
+  }
 };
 
 /**
@@ -44,6 +105,65 @@ export const verifyToken = (token: string): JWTPayload | null => {
   }
 };
 
+/**
+ * Email verification token lifetime in seconds (24 hours)
+ * @constant {number}
+ */
+export const EMAIL_VERIFICATION_TOKEN_TTL = 24 * 60 * 60;
+
+/**
+ * Generates a signed, expiring token for an email verification link
+ * @param {EmailVerificationPayload} payload - The user and email address being verified
+ * @returns {string} The generated verification token
+ */
+export const generateEmailVerificationToken = (payload: EmailVerificationPayload): string => {
+  return jwt.sign(payload, JWT_EMAIL_VERIFICATION_SECRET, {
+    expiresIn: EMAIL_VERIFICATION_TOKEN_TTL,
+  });
+};
+
+/**
+ * Verifies an email verification token and returns the decoded payload
+ * @param {string} token - The verification token to verify
+ * @returns {EmailVerificationPayload | null} The decoded payload if valid, null otherwise
+ */
+export const verifyEmailVerificationToken = (token: string): EmailVerificationPayload | null => {
+  try {
+    return jwt.verify(token, JWT_EMAIL_VERIFICATION_SECRET) as EmailVerificationPayload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * "MFA pending" token lifetime in seconds (5 minutes)
+ * @constant {number}
+ */
+export const MFA_TOKEN_TTL = 5 * 60;
+
+/**
+ * Generates a short-lived token proving the password step of a login succeeded.
+ * It gets a unique `jti` so it can be consumed once the second factor is passed.
+ * @param {MfaPendingPayload} payload - The user who still has to pass the second factor
+ * @returns {string} The generated token
+ */
+export const generateMfaToken = (payload: MfaPendingPayload): string => {
+  return jwt.sign(payload, JWT_MFA_SECRET, { expiresIn: MFA_TOKEN_TTL, jwtid: randomUUID() });
+};
+
+/**
+ * Verifies an "mfa pending" token and returns the decoded payload
+ * @param {string} token - The token to verify
+ * @returns {MfaPendingPayload | null} The decoded payload if valid, null otherwise
+ */
+export const verifyMfaToken = (token: string): MfaPendingPayload | null => {
+  try {
+    return jwt.verify(token, JWT_MFA_SECRET) as MfaPendingPayload;
+  } catch {
+    return null;
+  }
+};
+
 /**
  * Validates a session using the Authorization header
  * @param {string} [authHeader] - The Authorization header containing the Bearer token
@@ -0,0 +1,487 @@
+/**
+ * @fileoverview Destinations of log entries: the console, rotating files, HTTP collectors and syslog
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Transports receive entries that are already filtered by level and redacted. Writing must
+ * never block the request that logged: the file, HTTP and syslog transports buffer entries
+ * and send them in the background, and `flush` waits for whatever is still buffered, e.g.
+ * on shutdown. Transports report their own failures on stderr, never through the logger.
+ */
+
+import chalk from 'chalk';
+import dgram from 'dgram';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Severity of a log entry, from the most verbose to the most severe
+ */
+export type LogLevel = 'trace' | 'debug' | 'info' | 'success' | 'warn' | 'error';
+
+/**
+ * Rank of each level; entries below the minimum level are dropped. `success` is an
+ * informational entry with its own styling, so it ranks with `info`.
+ */
+export const LOG_LEVELS: Record<LogLevel, number> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  success: 30,
+  warn: 40,
+  error: 50,
+};
+
+/**
+ * A log entry, as written in JSON lines
+ */
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  /** ID of the request being handled, with its user and tenant once known */
+  requestId?: string;
+  userId?: string;
+  tenantId?: string;
+  /** IDs of the active trace span, to find the entry's request in the tracing backend */
+  traceId?: string;
+  spanId?: string;
+  /** Extra arguments of the call; one value as is, several as an array */
+  data?: unknown;
+  /** Call stack of `trace` entries */
+  stack?: string;
+}
+
+/**
+ * A destination of log entries
+ */
+export interface LogTransport {
+  /** Minimum level of the entries written by this transport, on top of the logger's own */
+  level?: LogLevel;
+  write(entry: LogEntry): void;
+  /** Writes buffered entries */
+  flush?(): Promise<void>;
+  /** Flushes and releases resources; nothing is written afterwards */
+  close?(): Promise<void>;
+}
+
+/**
+ * Serializes an entry as one line of JSON
+ * @param {LogEntry} entry - The entry
+ * @returns {string} The line, without a line break
+ */
+export const formatJson = (entry: LogEntry): string => JSON.stringify(entry);
+
+/**
+ * Reports a failure of a transport; the logger itself may be what is failing
+ * @param {string} transport - Name of the transport
+ * @param {unknown} error - The failure
+ */
+const reportFailure = (transport: string, error: unknown) => {
+  const reason = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`[logger] ${transport} transport failed: ${reason}\n`);
+};
+
+/**
+ * Colors and icons of the human-readable console output
+ */
+const PRETTY_STYLES: Record<LogLevel, [string, chalk.Chalk]> = {
+  trace: ['📍', chalk.cyan],
+  debug: ['🔍', chalk.magenta],
+  info: ['ℹ', chalk.blue],
+  success: ['✔', chalk.green],
+  warn: ['⚠', chalk.yellow],
+  error: ['✖', chalk.red],
+};
+
+/**
+ * Options of the console transport
+ */
+export interface ConsoleTransportOptions {
+  /** `json` for one JSON line per entry, `pretty` for colored output during development */
+  format?: 'json' | 'pretty';
+  level?: LogLevel;
+}
+
+/**
+ * Writes entries to stdout, or stderr for warnings and errors
+ */
+export class ConsoleTransport implements LogTransport {
+  public level?: LogLevel;
+  private format: 'json' | 'pretty';
+
+  constructor({ format = 'json', level }: ConsoleTransportOptions = {}) {
+    this.format = format;
+    this.level = level;
+  }
+
+  public write(entry: LogEntry) {
+    const stream = LOG_LEVELS[entry.level] >= LOG_LEVELS.warn ? process.stderr : process.stdout;
+
+    if (this.format === 'json') {
+      stream.write(formatJson(entry) + '\n');
+      return;
+    }
+
+    const [icon, color] = PRETTY_STYLES[entry.level];
+    const { requestId, userId, tenantId, traceId } = entry;
+    const context = requestId ? [{ requestId, userId, tenantId, traceId }] : [];
+    const data = entry.data === undefined ? [] : [entry.data];
+    const log = stream === process.stderr ? console.error : console.log;
+
+    log(color(icon), color(entry.message), ...data, ...context);
+    if (entry.stack) {
+      log(chalk.gray(entry.stack));
+    }
+  }
+}
+
+/**
+ * Options of the file transport
+ */
+export interface FileTransportOptions {
+  /** Path of the current log file; rotated files are kept next to it */
+  filename: string;
+  /** Size in bytes at which the file is rotated */
+  maxSize?: number;
+  /** Number of rotated files to keep */
+  maxFiles?: number;
+  /** Time in milliseconds buffered entries wait before being written */
+  flushInterval?: number;
+  /** Buffered size in bytes that triggers a write before the interval ends */
+  highWaterMark?: number;
+  level?: LogLevel;
+}
+
+/**
+ * Appends JSON lines to a file, buffering them and writing in the background.
+ *
+ * The file is rotated when it would grow past `maxSize` and on the first write of a new
+ * day (UTC): `app.log` is renamed to `app.<date>.log`, or `app.<date>.<n>.log` when the
+ * day already has rotated files, and only the newest `maxFiles` rotated files are kept.
+ */
+export class FileTransport implements LogTransport {
+  public level?: LogLevel;
+  private filename: string;
+  private maxSize: number;
+  private maxFiles: number;
+  private highWaterMark: number;
+  private buffer: string[] = [];
+  private bufferedBytes = 0;
+  /** Size and day of the current file, read from disk on the first write */
+  private size?: number;
+  private day?: string;
+  /** Chain of writes, so they happen one at a time and in order */
+  private writing: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout;
+  private closed = false;
+
+  constructor({
+    filename,
+    maxSize = 10 * 1024 * 1024,
+    maxFiles = 14,
+    flushInterval = 1000,
+    highWaterMark = 64 * 1024,
+    level,
+  }: FileTransportOptions) {
+    this.filename = path.resolve(filename);
+    this.maxSize = maxSize;
+    this.maxFiles = maxFiles;
+    this.highWaterMark = highWaterMark;
+    this.level = level;
+
+    // Unref'd, so pending entries don't keep the process alive; shutdown flushes them
+    this.timer = setInterval(() => void this.flush(), flushInterval).unref();
+  }
+
+  public write(entry: LogEntry) {
+    if (this.closed) {
+      return;
+    }
+
+    const line = formatJson(entry) + '\n';
+    this.buffer.push(line);
+    this.bufferedBytes += Buffer.byteLength(line);
+
+    if (this.bufferedBytes >= this.highWaterMark) {
+      void this.flush();
+    }
+  }
+
+  public flush(): Promise<void> {
+    if (this.buffer.length) {
+      const chunk = this.buffer.join('');
+      this.buffer = [];
+      this.bufferedBytes = 0;
+
+      this.writing = this.writing
+        .then(() => this.append(chunk))
+        .catch(error => reportFailure('file', error));
+    }
+
+    return this.writing;
+  }
+
+  public async close() {
+    clearInterval(this.timer);
+    await this.flush();
+    this.closed = true;
+  }
+
+  /**
+   * Appends a chunk of lines, rotating the file first when needed
+   * @private
+   * @param {string} chunk - The lines
+   */
+  private async append(chunk: string) {
+    const bytes = Buffer.byteLength(chunk);
+    const today = new Date().toISOString().slice(0, 10);
+
+    if (this.size === undefined || this.day === undefined) {
+      await fs.promises.mkdir(path.dirname(this.filename), { recursive: true });
+      const stats = await fs.promises.stat(this.filename).catch(() => null);
+      this.size = stats?.size ?? 0;
+      this.day = stats ? stats.mtime.toISOString().slice(0, 10) : today;
+    }
+
+    if (this.size > 0 && (this.day !== today || this.size + bytes > this.maxSize)) {
+      await this.rotate(this.day);
+      this.size = 0;
+    }
+
+    await fs.promises.appendFile(this.filename, chunk);
+    this.size += bytes;
+    this.day = today;
+  }
+
+  /**
+   * Renames the current file after the day it was written and deletes the oldest
+   * rotated files
+   * @private
+   * @param {string} day - Day the current file was written, as YYYY-MM-DD
+   */
+  private async rotate(day: string) {
+    const dir = path.dirname(this.filename);
+    const ext = path.extname(this.filename);
+    const base = path.basename(this.filename, ext);
+    const files = await fs.promises.readdir(dir);
+
+    let target = `${base}.${day}${ext}`;
+    for (let n = 1; files.includes(target); n++) {
+      target = `${base}.${day}.${n}${ext}`;
+    }
+    await fs.promises.rename(this.filename, path.join(dir, target));
+
+    const escape = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^${escape(base)}\\.\\d{4}-\\d{2}-\\d{2}(\\.\\d+)?${escape(ext)}$`);
+    const rotated = await Promise.all(
+      [...files.filter(file => pattern.test(file)), target].map(async file => ({
+        file,
+        mtime: (await fs.promises.stat(path.join(dir, file))).mtimeMs,
+      }))
+    );
+
+    await Promise.all(
+      rotated
+        .sort((a, b) => b.mtime - a.mtime)
+        .slice(this.maxFiles)
+        .map(({ file }) => fs.promises.unlink(path.join(dir, file)))
+    );
+  }
+}
+
+/**
+ * Options of the HTTP transport
+ */
+export interface HttpTransportOptions {
+  /** URL the entries are posted to, as newline-delimited JSON */
+  url: string;
+  /** Extra request headers, e.g. an authorization header of the log collector */
+  headers?: Record<string, string>;
+  /** Time in milliseconds buffered entries wait before being sent */
+  flushInterval?: number;
+  /** Number of buffered entries that triggers a send before the interval ends */
+  batchSize?: number;
+  /** Number of entries kept while the collector is unreachable; older ones are dropped */
+  maxBuffer?: number;
+  /** Time in milliseconds a request may take */
+  timeout?: number;
+  level?: LogLevel;
+}
+
+/**
+ * Posts batches of entries to a log collector as `application/x-ndjson`
+ */
+export class HttpTransport implements LogTransport {
+  public level?: LogLevel;
+  private url: string;
+  private headers: Record<string, string>;
+  private batchSize: number;
+  private maxBuffer: number;
+  private timeout: number;
+  private buffer: LogEntry[] = [];
+  private sending: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout;
+
+  constructor({
+    url,
+    headers = {},
+    flushInterval = 2000,
+    batchSize = 100,
+    maxBuffer = 10000,
+    timeout = 5000,
+    level,
+  }: HttpTransportOptions) {
+    this.url = url;
+    this.headers = headers;
+    this.batchSize = batchSize;
+    this.maxBuffer = maxBuffer;
+    this.timeout = timeout;
+    this.level = level;
+
+    this.timer = setInterval(() => void this.flush(), flushInterval).unref();
+  }
+
+  public write(entry: LogEntry) {
+    this.buffer.push(entry);
+
+    if (this.buffer.length > this.maxBuffer) {
+      this.buffer.splice(0, this.buffer.length - this.maxBuffer);
+    }
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  public flush(): Promise<void> {
+    if (this.buffer.length) {
+      const batch = this.buffer;
+      this.buffer = [];
+
+      this.sending = this.sending
+        .then(() => this.send(batch))
+        .catch(error => {
+          reportFailure('http', error);
+          // Keep the batch for the next attempt, within the buffer limit
+          this.buffer = [...batch, ...this.buffer].slice(-this.maxBuffer);
+        });
+    }
+
+    return this.sending;
+  }
+
+  public async close() {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  /**
+   * Posts a batch of entries
+   * @private
+   * @param {LogEntry[]} batch - The entries
+   */
+  private async send(batch: LogEntry[]) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson', ...this.headers },
+      body: batch.map(formatJson).join('\n') + '\n',
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.url} answered ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Syslog severity of each level
+ */
+const SYSLOG_SEVERITIES: Record<LogLevel, number> = {
+  trace: 7,
+  debug: 7,
+  info: 6,
+  success: 5,
+  warn: 4,
+  error: 3,
+};
+
+/**
+ * Options of the syslog transport
+ */
+export interface SyslogTransportOptions {
+  host?: string;
+  port?: number;
+  /** Syslog facility; 16 to 23 are local0 to local7 */
+  facility?: number;
+  /** APP-NAME field of the messages */
+  appName?: string;
+  level?: LogLevel;
+}
+
+/**
+ * Sends entries to a syslog server over UDP, as RFC 5424 messages whose text is the
+ * JSON line of the entry
+ */
+export class SyslogTransport implements LogTransport {
+  public level?: LogLevel;
+  private host: string;
+  private port: number;
+  private facility: number;
+  private appName: string;
+  private socket: dgram.Socket;
+  /** Datagrams not yet handed to the network */
+  private pending = new Set<Promise<void>>();
+  private closed = false;
+
+  constructor({
+    host = 'localhost',
+    port = 514,
+    facility = 16,
+    appName = 'api',
+    level,
+  }: SyslogTransportOptions = {}) {
+    this.host = host;
+    this.port = port;
+    this.facility = facility;
+    this.appName = appName;
+    this.level = level;
+
+    this.socket = dgram.createSocket('udp4');
+    this.socket.on('error', error => reportFailure('syslog', error));
+    this.socket.unref();
+  }
+
+  public write(entry: LogEntry) {
+    if (this.closed) {
+      return;
+    }
+
+    const priority = this.facility * 8 + SYSLOG_SEVERITIES[entry.level];
+    const header = `<${priority}>1 ${entry.timestamp} ${os.hostname()} ${this.appName} ${process.pid} - -`;
+    const message = Buffer.from(`${header} ${formatJson(entry)}`);
+
+    const sent = new Promise<void>(resolve =>
+      this.socket.send(message, this.port, this.host, error => {
+        if (error) {
+          reportFailure('syslog', error);
+        }
+        resolve();
+      })
+    );
+    this.pending.add(sent);
+    void sent.then(() => this.pending.delete(sent));
+  }
+
+  public async flush() {
+    await Promise.all(this.pending);
+  }
+
+  public async close() {
+    this.closed = true;
+    await this.flush();
+    this.socket.close();
+  }
+}
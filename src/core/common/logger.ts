@@ -4,60 +4,286 @@
  * @author Kehinde Fasunle <fasunle@gmail.com>
  *
  * @company Coco
- * @version 1.0.0
+ * @version 2.0.0
  * @license MIT
  * @github https://github.com/fasunle
  *
  * @class Logger
- * @description A singleton logger class that provides centralized logging functionality with different log levels
- * and handles both production and development environment logging
+ * @description A singleton logger class that filters entries by level, redacts sensitive
+ * values and hands structured entries to its transports (console, file, HTTP or syslog)
  *
- * @method private constructor() Initializes the logger instance with log file path and environment settings
- * @method private ensureLogDirectory() Creates log directory if it doesn't exist
- * @method public static getInstance() Returns the singleton instance of Logger
- * @method private writeToFile() Writes log messages to file with timestamp and level
+ * @method private constructor() Initializes the logger with its level, redaction paths and transports
+ * @method public static getInstance() Returns the singleton instance of Logger, configured from the environment
+ * @method public setLevel() Changes the minimum level of the logged entries
+ * @method public isLevelEnabled() Tells whether entries of a level are logged
+ * @method public addTransport() Adds a destination of the log entries
+ * @method public flush() Writes the entries buffered by the transports
+ * @method public close() Flushes and closes the transports, e.g. on shutdown
+ * @method private withContext() Returns the request, user, tenant, trace and span IDs of the current request
+ * @method private log() Builds an entry and writes it to the transports
  * @method public info() Logs information level messages
  * @method public success() Logs success level messages
  * @method public warn() Logs warning level messages
  * @method public error() Logs error level messages
- * @method public debug() Logs debug level messages in development
- * @method public trace() Logs trace level messages with stack trace in development
+ * @method public debug() Logs debug level messages
+ * @method public trace() Logs trace level messages with stack trace
  */
 
 //
+import { isSpanContextValid, trace } from '@opentelemetry/api';
 import { ExpressMiddleware } from '@/types';
-import chalk from 'chalk';
-import fs from 'fs';
 import path from 'path';
+import {
+  ConsoleTransport,
+  FileTransport,
+  HttpTransport,
+  LOG_LEVELS,
+  LogEntry,
+  LogLevel,
+  LogTransport,
+  SyslogTransport,
+} from './log-transports';
+import { getRequestContext } from './request-context';
 
 /**
- * Logger class providing centralized logging functionality with different log levels
- * and production/development environment handling
+ * Replacement of redacted values
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Paths that are always redacted. A path matches the end of the key path of a value,
+ * ignoring case, so `password` matches a `password` key at any depth while
+ * `query.code` only matches the `code` of a `query`. `*` matches any key.
+ */
+export const DEFAULT_REDACT_PATHS = [
+  'password',
+  'currentPassword',
+  'newPassword',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'secret',
+  'mfaSecret',
+  'recoveryCodes',
+  'apiKey',
+  'authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+  'query.code',
+];
+
+/**
+ * Depth past which nested values are not logged
+ */
+const MAX_DEPTH = 8;
+
+/**
+ * Options of the logger
+ */
+export interface LoggerOptions {
+  /** Minimum level of the logged entries */
+  level: LogLevel;
+  /** Paths of the values to redact, see `DEFAULT_REDACT_PATHS` */
+  redact: string[];
+  transports: LogTransport[];
+}
+
+/**
+ * Tells whether a key path ends with a redaction path
+ * @param {string[]} keys - Key path of a value, lowercased
+ * @param {string[][]} patterns - Redaction paths split into lowercased keys
+ * @returns {boolean} Whether the value is redacted
+ */
+const isRedacted = (keys: string[], patterns: string[][]): boolean =>
+  patterns.some(
+    pattern =>
+      pattern.length <= keys.length &&
+      pattern.every((key, i) => key === '*' || key === keys[keys.length - pattern.length + i])
+  );
+
+/**
+ * Copies a value into plain JSON data, replacing redacted values. Errors keep their
+ * name, message and stack, and circular references and deeply nested values are cut off.
+ * @param {unknown} value - The value
+ * @param {string[][]} patterns - Redaction paths split into lowercased keys
+ * @param {string[]} [keys] - Key path of the value, lowercased
+ * @param {WeakSet<object>} [ancestors] - Objects the value is nested in, to detect cycles
+ * @returns {unknown} The copy
+ */
+export const redact = (
+  value: unknown,
+  patterns: string[][],
+  keys: string[] = [],
+  ancestors: WeakSet<object> = new WeakSet()
+): unknown => {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return undefined;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Buffer.isBuffer(value)) {
+    return `[Buffer ${value.length} bytes]`;
+  }
+  if (ancestors.has(value)) {
+    return '[Circular]';
+  }
+  if (keys.length >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  ancestors.add(value);
+  const copy = (entries: [string, unknown][]) =>
+    Object.fromEntries(
+      entries.map(([key, nested]) => {
+        const path = [...keys, key.toLowerCase()];
+        return [
+          key,
+          isRedacted(path, patterns) ? REDACTED : redact(nested, patterns, path, ancestors),
+        ];
+      })
+    );
+
+  let result: unknown;
+  if (Array.isArray(value) || value instanceof Set) {
+    result = [...value].map(item => redact(item, patterns, keys, ancestors));
+  } else if (value instanceof Map) {
+    result = copy([...value.entries()].map(([key, nested]) => [String(key), nested]));
+  } else if (value instanceof Error) {
+    const { name, message, stack } = value;
+    result = copy([
+      ['name', name],
+      ['message', message],
+      ...Object.entries(value),
+      ['stack', stack],
+    ]);
+  } else {
+    result = copy(Object.entries(value));
+  }
+  ancestors.delete(value);
+
+  return result;
+};
+
+/**
+ * Parses a comma-separated environment variable
+ * @param {string} [value] - The variable
+ * @returns {string[]} The non-empty items
+ */
+const parseList = (value?: string): string[] =>
+  (value ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the logger configuration from the environment:
+ * - `LOG_LEVEL`: minimum level, `info` in production and `trace` otherwise
+ * - `LOG_FORMAT`: `json` or `pretty` console output, `json` in production
+ * - `LOG_TRANSPORTS`: comma-separated `console`, `file`, `http` and `syslog`,
+ *   `console,file` in production and `console` otherwise
+ * - `LOG_FILE`, `LOG_FILE_MAX_SIZE_MB`, `LOG_FILE_MAX_FILES`: file and rotation
+ * - `LOG_HTTP_URL`, `LOG_HTTP_AUTHORIZATION`: log collector of the HTTP transport
+ * - `LOG_SYSLOG_HOST`, `LOG_SYSLOG_PORT`, `LOG_SYSLOG_APP_NAME`: syslog server
+ * - `LOG_REDACT`: comma-separated paths redacted on top of `DEFAULT_REDACT_PATHS`
+ * @returns {LoggerOptions} The options
+ */
+const optionsFromEnv = (): LoggerOptions => {
+  const env = process.env;
+  const isProd = env.NODE_ENV === 'production';
+  const warnings: string[] = [];
+
+  let level: LogLevel = isProd ? 'info' : 'trace';
+  if (env.LOG_LEVEL && Object.keys(LOG_LEVELS).includes(env.LOG_LEVEL)) {
+    level = env.LOG_LEVEL as LogLevel;
+  } else if (env.LOG_LEVEL) {
+    warnings.push(`unknown LOG_LEVEL ${env.LOG_LEVEL}`);
+  }
+
+  const transports: LogTransport[] = [];
+  const names = parseList(env.LOG_TRANSPORTS || (isProd ? 'console,file' : 'console'));
+
+  for (const name of names) {
+    switch (name) {
+      case 'console':
+        transports.push(
+          new ConsoleTransport({
+            format: (env.LOG_FORMAT || (isProd ? 'json' : 'pretty')) === 'json' ? 'json' : 'pretty',
+          })
+        );
+        break;
+      case 'file':
+        transports.push(
+          new FileTransport({
+            filename: env.LOG_FILE || path.join(process.cwd(), 'logs', 'app.log'),
+            maxSize: (Number(env.LOG_FILE_MAX_SIZE_MB) || 10) * 1024 * 1024,
+            maxFiles: Number(env.LOG_FILE_MAX_FILES) || 14,
+          })
+        );
+        break;
+      case 'http':
+        if (!env.LOG_HTTP_URL) {
+          warnings.push('the http transport needs LOG_HTTP_URL');
+          break;
+        }
+        transports.push(
+          new HttpTransport({
+            url: env.LOG_HTTP_URL,
+            headers: env.LOG_HTTP_AUTHORIZATION
+              ? { Authorization: env.LOG_HTTP_AUTHORIZATION }
+              : undefined,
+          })
+        );
+        break;
+      case 'syslog':
+        transports.push(
+          new SyslogTransport({
+            host: env.LOG_SYSLOG_HOST,
+            port: Number(env.LOG_SYSLOG_PORT) || undefined,
+            appName: env.LOG_SYSLOG_APP_NAME,
+          })
+        );
+        break;
+      default:
+        warnings.push(`unknown log transport ${name}`);
+    }
+  }
+
+  // The logger can't log its own configuration problems
+  warnings.forEach(warning => process.stderr.write(`[logger] Ignoring ${warning}\n`));
+
+  return {
+    level,
+    redact: [...DEFAULT_REDACT_PATHS, ...parseList(env.LOG_REDACT)],
+    transports,
+  };
+};
+
+/**
+ * Logger class providing centralized, structured logging with levels, redaction and
+ * pluggable transports
  */
 export class Logger {
   private static instance: Logger;
-  private logFile: string;
-  private isProd: boolean;
+  private level: LogLevel;
+  private redactPaths: string[][];
+  private transports: LogTransport[];
 
   /**
    * Private constructor to prevent direct instantiation
-   * Initializes log file path and environment settings
+   * @param {LoggerOptions} options - Level, redaction paths and transports
    */
-  private constructor() {
-    this.logFile = path.join(process.cwd(), 'logs', 'app.log');
-    this.isProd = process.env.NODE_ENV === 'production';
-    this.ensureLogDirectory();
-  }
-
-  /**
-   * Creates log directory if it doesn't exist
-   * @private
-   */
-  private ensureLogDirectory() {
-    const logDir = path.dirname(this.logFile);
-    if (!fs.existsSync(logDir)) {
-      fs.mkdirSync(logDir, { recursive: true });
-    }
+  private constructor({ level, redact, transports }: LoggerOptions) {
+    this.level = level;
+    this.redactPaths = redact.map(path => path.toLowerCase().split('.'));
+    this.transports = transports;
   }
 
   /**
@@ -66,24 +292,109 @@ export class Logger {
    */
   public static getInstance(): Logger {
     if (!Logger.instance) {
-      Logger.instance = new Logger();
+      Logger.instance = new Logger(optionsFromEnv());
     }
     return Logger.instance;
   }
 
   /**
-   * Writes log message to file with timestamp and level
+   * Changes the minimum level of the logged entries
+   * @param {LogLevel} level - The level
+   */
+  public setLevel(level: LogLevel) {
+    this.level = level;
+  }
+
+  /**
+   * Tells whether entries of a level are logged, e.g. to skip building costly details
+   * @param {LogLevel} level - The level
+   * @returns {boolean} Whether the entries are logged
+   */
+  public isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS[level] >= LOG_LEVELS[this.level];
+  }
+
+  /**
+   * Adds a destination of the log entries
+   * @param {LogTransport} transport - The transport
+   */
+  public addTransport(transport: LogTransport) {
+    this.transports.push(transport);
+  }
+
+  /**
+   * Writes the entries buffered by the transports
+   * @returns {Promise<void>}
+   */
+  public async flush() {
+    await Promise.all(this.transports.map(transport => transport.flush?.()));
+  }
+
+  /**
+   * Flushes and closes the transports; call it last on shutdown
+   * @returns {Promise<void>}
+   */
+  public async close() {
+    await Promise.all(this.transports.map(transport => transport.close?.()));
+  }
+
+  /**
+   * Returns the details of the current request and trace, so every entry written while
+   * handling a request can be tied back to it and to its spans
    * @private
-   * @param {string} level - Log level
-   * @param {string} message - Log message
-   * @param {...any[]} args - Additional arguments to log
+   * @returns {Partial<LogEntry>} The request ID, user ID and tenant ID when logging
+   * within a request, and the trace ID and span ID when logging within a span
    */
-  private writeToFile(level: string, message: string, ...args: any[]) {
-    const timestamp = new Date().toISOString();
-    const formattedMessage = `[${timestamp}] [${level}] ${message} ${
-      args.length ? JSON.stringify(args) : ''
-    }`;
-    fs.appendFileSync(this.logFile, formattedMessage + '\n');
+  private withContext(): Partial<LogEntry> {
+    const context = getRequestContext();
+    const spanContext = trace.getActiveSpan()?.spanContext();
+
+    return {
+      ...(context && {
+        requestId: context.requestId,
+        ...(context.actor && { userId: context.actor.userId }),
+        ...(context.tenantId && { tenantId: context.tenantId }),
+      }),
+      ...(spanContext &&
+        isSpanContextValid(spanContext) && {
+          traceId: spanContext.traceId,
+          spanId: spanContext.spanId,
+        }),
+    };
+  }
+
+  /**
+   * Builds an entry and writes it to the transports that accept its level
+   * @private
+   * @param {LogLevel} level - Level of the entry
+   * @param {string} message - Message of the entry
+   * @param {unknown[]} args - Additional arguments to log
+   */
+  private log(level: LogLevel, message: string, args: unknown[]) {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      message,
+      ...this.withContext(),
+      ...(args.length && {
+        data: redact(args.length === 1 ? args[0] : args, this.redactPaths),
+      }),
+      ...(level === 'trace' && { stack: new Error().stack?.split('\n').slice(3).join('\n') }),
+    };
+
+    for (const transport of this.transports) {
+      if (!transport.level || LOG_LEVELS[level] >= LOG_LEVELS[transport.level]) {
+        try {
+          transport.write(entry);
+        } catch (error) {
+          process.stderr.write(`[logger] Transport failed: ${(error as Error).message}\n`);
+        }
+      }
+    }
   }
 
   /**
@@ -92,8 +403,7 @@ export class Logger {
    * @param {...any[]} args - Additional arguments to log
    */
   public info(message: string, ...args: any[]) {
-    console.log(chalk.blue('ℹ'), chalk.blue(message), ...args);
-    if (this.isProd) this.writeToFile('INFO', message, ...args);
+    this.log('info', message, args);
   }
 
   /**
@@ -102,8 +412,7 @@ export class Logger {
    * @param {...any[]} args - Additional arguments to log
    */
   public success(message: string, ...args: any[]) {
-    console.log(chalk.green('✔'), chalk.green(message), ...args);
-    if (this.isProd) this.writeToFile('SUCCESS', message, ...args);
+    this.log('success', message, args);
   }
 
   /**
@@ -112,8 +421,7 @@ export class Logger {
    * @param {...any[]} args - Additional arguments to log
    */
   public warn(message: string, ...args: any[]) {
-    console.log(chalk.yellow('⚠'), chalk.yellow(message), ...args);
-    if (this.isProd) this.writeToFile('WARN', message, ...args);
+    this.log('warn', message, args);
   }
 
   /**
@@ -122,33 +430,25 @@ export class Logger {
    * @param {...any[]} args - Additional arguments to log
    */
   public error(message: string, ...args: any[]) {
-    console.log(chalk.red('✖'), chalk.red(message), ...args);
-    if (this.isProd) this.writeToFile('ERROR', message, ...args);
+    this.log('error', message, args);
   }
 
   /**
-   * Logs debug level message (only in development)
+   * Logs debug level message
    * @param {string} message - Debug message to log
    * @param {...any[]} args - Additional arguments to log
    */
   public debug(message: string, ...args: any[]) {
-    if (!this.isProd) {
-      console.log(chalk.magenta('🔍'), chalk.magenta(message), ...args);
-    }
-    if (this.isProd) this.writeToFile('DEBUG', message, ...args);
+    this.log('debug', message, args);
   }
 
   /**
-   * Logs trace level message with stack trace (only in development)
+   * Logs trace level message with the stack trace of the call
    * @param {string} message - Trace message to log
    * @param {...any[]} args - Additional arguments to log
    */
   public trace(message: string, ...args: any[]) {
-    if (!this.isProd) {
-      console.log(chalk.cyan('📍'), chalk.cyan(message), ...args);
-      console.trace();
-    }
-    if (this.isProd) this.writeToFile('TRACE', message, ...args);
+    this.log('trace', message, args);
   }
 }
 
@@ -159,33 +459,37 @@ export class Logger {
 export const logger = Logger.getInstance();
 
 /**
- * Middleware to log incoming HTTP requests
+ * Middleware to log HTTP requests. Headers and bodies are never logged, and the query
+ * goes through redaction like every other value.
  * @param {Request} req - Express request object
  * @param {Response} res - Express response object
  * @param {NextFunction} next - Express next function
  */
 export const requestLogger: ExpressMiddleware = (req, res, next) => {
-  const start = Date.now();
+  const start = process.hrtime.bigint();
+  const method = req.method;
+  const path = req.originalUrl.split('?')[0];
 
-  // Log request details
-  logger.info(`Incoming ${req.method} request to ${req.url}`, {
-    method: req.method,
-    url: req.url,
-    params: req.params,
+  logger.debug(`Incoming ${method} request to ${path}`, {
+    method,
+    path,
     query: req.query,
-    body: req.body,
-    headers: req.headers,
     ip: req.ip,
+    userAgent: req.get('User-Agent'),
   });
 
   // Log response details after request is completed
   res.on('finish', () => {
-    const duration = Date.now() - start;
-    logger.info(`Request completed in ${duration}ms`, {
-      method: req.method,
-      url: req.url,
+    const duration = Math.round(Number(process.hrtime.bigint() - start) / 1e5) / 10;
+    const level: LogLevel =
+      res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+
+    logger[level](`${method} ${path} ${res.statusCode} in ${duration}ms`, {
+      method,
+      path,
       statusCode: res.statusCode,
       duration,
+      contentLength: Number(res.get('Content-Length')) || undefined,
     });
   });
 
@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Prometheus metrics of the HTTP server, database, Redis and email delivery
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Every metric lives in one registry, served in the Prometheus text format by
+ * `metricsHandler`. Labels only take values from small, fixed sets: HTTP requests are
+ * labelled with their route template (e.g. `/api/v1/tenants/:tenantId`) rather than
+ * their path, and database queries with their statement type rather than their SQL.
+ */
+
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { ExpressMiddleware } from '@/types';
+import { throwAuthenticationError, throwError } from './error-handler';
+import { HTTP_FORBIDDEN } from './constants';
+import { hashToken, matchesTokenHash } from './token';
+
+/**
+ * Registry of every metric of the application
+ */
+export const metricsRegistry = new Registry();
+
+// Process stats: CPU, memory, event loop lag, handles and garbage collection
+collectDefaultMetrics({ register: metricsRegistry });
+
+/**
+ * Buckets of the latency histograms, in seconds
+ */
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Label of requests that matched no route, e.g. unknown paths and static files
+ */
+export const UNMATCHED_ROUTE = 'unmatched';
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests answered, by method, route template and status code',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'Time taken to answer HTTP requests, by method, route template and status code',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const dbQueryDuration = new Histogram({
+  name: 'db_query_duration_seconds',
+  help: 'Time taken by successful database queries, by statement type',
+  labelNames: ['operation'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const dbQueryErrorsTotal = new Counter({
+  name: 'db_query_errors_total',
+  help: 'Failed database queries, by statement type',
+  labelNames: ['operation'] as const,
+  registers: [metricsRegistry],
+});
+
+export const redisCommandDuration = new Histogram({
+  name: 'redis_command_duration_seconds',
+  help: 'Time taken by Redis commands, by command',
+  labelNames: ['command'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const redisCommandErrorsTotal = new Counter({
+  name: 'redis_command_errors_total',
+  help: 'Failed Redis commands, by command',
+  labelNames: ['command'] as const,
+  registers: [metricsRegistry],
+});
+
+export const emailsTotal = new Counter({
+  name: 'emails_total',
+  help: 'Emails handed to the SMTP server, by template and status (sent, failed)',
+  labelNames: ['template', 'status'] as const,
+  registers: [metricsRegistry],
+});
+
+export const emailsQueued = new Gauge({
+  name: 'emails_queued',
+  help: 'Emails being rendered or waiting for the SMTP server',
+  registers: [metricsRegistry],
+});
+
+/**
+ * Times an asynchronous operation with a histogram, counting failures
+ * @param {Histogram<T>} histogram - Histogram of the durations
+ * @param {Counter<T>} errors - Counter of the failures
+ * @param {Partial<Record<T, string>>} labels - Labels of the operation
+ * @param {Function} operation - The operation
+ * @returns {Promise<R>} The result of the operation
+ */
+export const timeOperation = async <T extends string, R>(
+  histogram: Histogram<T>,
+  errors: Counter<T>,
+  labels: Partial<Record<T, string>>,
+  operation: () => Promise<R>
+): Promise<R> => {
+  const end = histogram.startTimer(labels);
+
+  try {
+    return await operation();
+  } catch (error) {
+    errors.inc(labels);
+    throw error;
+  } finally {
+    end();
+  }
+};
+
+/**
+ * Gets the route template of a request. Routers are mounted on static paths in this
+ * application, so the template is the path of the request with its trailing segments,
+ * the ones matched by the route, replaced by the path of the route.
+ * @param {Request} req - Express request object
+ * @returns {string} The template, e.g. `/api/v1/users/:userId`, or `unmatched`
+ */
+export const routeTemplate = (req: Parameters<ExpressMiddleware>[0]): string => {
+  const routePath: unknown = req.route?.path;
+
+  if (typeof routePath !== 'string') {
+    return UNMATCHED_ROUTE;
+  }
+
+  const segments = req.originalUrl.split('?')[0].split('/').filter(Boolean);
+  const routeSegments = routePath.split('/').filter(Boolean);
+  const mountPath = segments.slice(0, segments.length - routeSegments.length);
+
+  return '/' + [...mountPath, ...routeSegments].join('/');
+};
+
+/**
+ * Middleware to count and time HTTP requests once they are answered
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const metricsMiddleware: ExpressMiddleware = (req, res, next) => {
+  const end = httpRequestDuration.startTimer();
+
+  res.on('finish', () => {
+    const labels = {
+      method: req.method,
+      route: routeTemplate(req),
+      status_code: String(res.statusCode),
+    };
+
+    httpRequestsTotal.inc(labels);
+    end(labels);
+  });
+
+  next();
+};
+
+/**
+ * Bearer token required by `/metrics`, if any
+ */
+const METRICS_TOKEN_HASH = process.env.METRICS_TOKEN ? hashToken(process.env.METRICS_TOKEN) : null;
+
+/**
+ * Client IPs allowed to read `/metrics`; empty to allow any
+ */
+const METRICS_ALLOWED_IPS = (process.env.METRICS_ALLOWED_IPS ?? '')
+  .split(',')
+  .map(ip => ip.trim())
+  .filter(Boolean);
+
+/**
+ * Serves the metrics in the Prometheus text format. When `METRICS_ALLOWED_IPS` is set,
+ * only those client IPs are answered, and when `METRICS_TOKEN` is set, the token must be
+ * sent as `Authorization: Bearer <token>`.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @throws {AppError} Forbidden for other IPs, or authentication error without the token
+ */
+export const metricsHandler: ExpressMiddleware = async (req, res) => {
+  // IPv4 clients of a dual-stack server appear as IPv4-mapped IPv6 addresses
+  const ip = req.ip?.replace(/^::ffff:/, '');
+
+  if (METRICS_ALLOWED_IPS.length && !(ip && METRICS_ALLOWED_IPS.includes(ip))) {
+    throwError('Metrics are not available to this client', HTTP_FORBIDDEN);
+  }
+  if (METRICS_TOKEN_HASH) {
+    const [scheme, token] = req.get('Authorization')?.split(' ') ?? [];
+
+    if (scheme !== 'Bearer' || !token || !matchesTokenHash(token, METRICS_TOKEN_HASH)) {
+      throwAuthenticationError('A valid metrics token is required');
+    }
+  }
+
+  res.setHeader('Content-Type', metricsRegistry.contentType);
+  res.send(await metricsRegistry.metrics());
+};
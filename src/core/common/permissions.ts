@@ -0,0 +1,88 @@
+/**
+ * @fileoverview Permission catalogue and matching for permission-based access control
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Permissions are named `<resource>:<action>`. A role can also hold `<resource>:*`,
+ * granting every action on a resource, or `*`, granting everything.
+ */
+
+import { UserRole } from '@/types';
+
+/**
+ * Every permission known to the application
+ * @constant {string[]}
+ */
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'roles:read',
+  'roles:write',
+  'tenants:read',
+  'tenants:write',
+  'api-keys:read',
+  'api-keys:write',
+  'audit:read',
+  'platform:admin',
+] as const;
+
+/**
+ * A permission known to the application
+ */
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permission granting every other permission
+ * @constant {string}
+ */
+export const WILDCARD_PERMISSION = '*';
+
+/**
+ * Roles created on startup when missing. They can be edited but not deleted.
+ * @constant {Array<{name: string, description: string, permissions: string[]}>}
+ */
+export const DEFAULT_ROLES = [
+  { name: UserRole.ADMIN, description: 'Full access', permissions: [WILDCARD_PERMISSION] },
+  {
+    name: UserRole.MANAGER,
+    description: 'Views users and tenants',
+    permissions: ['users:read', 'tenants:read'],
+  },
+  { name: UserRole.USER, description: 'Regular user', permissions: [] },
+];
+
+const RESOURCES = new Set(PERMISSIONS.map(permission => permission.split(':')[0]));
+
+/**
+ * Checks whether a permission is a known permission or a valid wildcard
+ * @param {string} permission - The permission to check
+ * @returns {boolean} True if the permission can be granted
+ */
+export const isValidPermission = (permission: string): boolean => {
+  if (permission === WILDCARD_PERMISSION) {
+    return true;
+  }
+
+  const [resource, action] = permission.split(':');
+  return (
+    (PERMISSIONS as readonly string[]).includes(permission) ||
+    (action === '*' && RESOURCES.has(resource))
+  );
+};
+
+/**
+ * Checks whether a set of granted permissions covers a required permission
+ * @param {string[]} granted - The permissions held
+ * @param {string} required - The permission needed
+ * @returns {boolean} True if the permission is granted directly or by a wildcard
+ */
+export const grantsPermission = (granted: string[], required: string): boolean => {
+  const [resource] = required.split(':');
+
+  return (
+    granted.includes(WILDCARD_PERMISSION) ||
+    granted.includes(required) ||
+    granted.includes(`${resource}:*`)
+  );
+};
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Policy layer for attribute- and ownership-based access control
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * A policy declares, per action, a rule that receives the subject (the session user),
+ * the loaded resource and the current tenant, and returns allow or deny with a reason.
+ * Policies are enforced in routes with `authorizeResource` and in services with
+ * `authorize`. Every denial is logged.
+ *
+ * @example
+ * export const notePolicy = definePolicy<Note, 'update'>('note', {
+ *   update: ({ subject, resource }) =>
+ *     resource.authorId === subject.userId ? allow() : deny('You can only edit your own notes'),
+ * });
+ *
+ * await authorize(session, 'update', notePolicy, note);
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { JWTPayload, TenantAccess } from '@/types';
+import { getCurrentTenant } from '@/core/db/tenant-context';
+import { FORBIDDEN_ERROR, HTTP_FORBIDDEN, HTTP_NOT_FOUND } from './constants';
+import { throwAuthenticationError, throwError } from './error-handler';
+import { logger } from './logger';
+
+/**
+ * Outcome of evaluating a policy rule
+ */
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+/**
+ * Everything a policy rule can base its decision on
+ * @template R - Type of the resource
+ */
+export interface PolicyContext<R> {
+  subject: JWTPayload;
+  action: string;
+  resource: R;
+  /** Tenant the request is scoped to, if any */
+  tenant?: TenantAccess;
+}
+
+/**
+ * A rule deciding whether the subject may perform one action on a resource
+ * @template R - Type of the resource
+ */
+export type PolicyRule<R> = (context: PolicyContext<R>) => PolicyDecision | Promise<PolicyDecision>;
+
+/**
+ * A named set of rules, one per action, for one type of resource
+ * @template R - Type of the resource
+ * @template A - Actions the policy covers
+ */
+export interface Policy<R, A extends string = string> {
+  name: string;
+  rules: Record<A, PolicyRule<R>>;
+}
+
+/**
+ * Creates an allow decision
+ * @param {string} [reason] - Why access is allowed
+ * @returns {PolicyDecision} The decision
+ */
+export const allow = (reason: string = 'Allowed'): PolicyDecision => ({ allowed: true, reason });
+
+/**
+ * Creates a deny decision
+ * @param {string} reason - Why access is denied; returned to the client
+ * @returns {PolicyDecision} The decision
+ */
+export const deny = (reason: string): PolicyDecision => ({ allowed: false, reason });
+
+/**
+ * Declares a policy
+ * @param {string} name - Name of the resource type, used in logs and errors
+ * @param {Record<A, PolicyRule<R>>} rules - Rule for each action
+ * @returns {Policy<R, A>} The policy
+ */
+export const definePolicy = <R, A extends string>(
+  name: string,
+  rules: Record<A, PolicyRule<R>>
+): Policy<R, A> => ({ name, rules });
+
+/**
+ * Evaluates a policy without enforcing it, e.g. to decide what to show.
+ * Actions without a rule are denied.
+ * @param {JWTPayload} subject - The session user
+ * @param {A} action - The action
+ * @param {Policy<R, A>} policy - The policy of the resource type
+ * @param {R} resource - The resource
+ * @param {TenantAccess} [tenant] - The tenant; defaults to the current tenant context
+ * @returns {Promise<PolicyDecision>} The decision
+ */
+export const evaluatePolicy = async <R, A extends string>(
+  subject: JWTPayload,
+  action: A,
+  policy: Policy<R, A>,
+  resource: R,
+  tenant: TenantAccess | undefined = getCurrentTenant()
+): Promise<PolicyDecision> => {
+  const rule = policy.rules[action];
+
+  if (!rule) {
+    return deny(`Action ${action} is not allowed on ${policy.name}`);
+  }
+
+  return await rule({ subject, action, resource, tenant });
+};
+
+/**
+ * Logs a denied access attempt
+ * @param {JWTPayload} subject - The session user
+ * @param {string} action - The action
+ * @param {Policy} policy - The policy that denied access
+ * @param {PolicyDecision} decision - The decision
+ */
+const logDenial = <R, A extends string>(
+  subject: JWTPayload,
+  action: A,
+  policy: Policy<R, A>,
+  decision: PolicyDecision
+) => {
+  logger.warn(`Access denied: ${policy.name}:${action}`, {
+    userId: subject.userId,
+    apiKeyId: subject.apiKeyId,
+    tenantId: getCurrentTenant()?.id,
+    reason: decision.reason,
+  });
+};
+
+/**
+ * Enforces a policy in service code
+ * @param {JWTPayload} subject - The session user
+ * @param {A} action - The action
+ * @param {Policy<R, A>} policy - The policy of the resource type
+ * @param {R} resource - The resource
+ * @param {TenantAccess} [tenant] - The tenant; defaults to the current tenant context
+ * @returns {Promise<void>}
+ * @throws {AppError} Forbidden error carrying the reason when access is denied
+ */
+export const authorize = async <R, A extends string>(
+  subject: JWTPayload,
+  action: A,
+  policy: Policy<R, A>,
+  resource: R,
+  tenant?: TenantAccess
+): Promise<void> => {
+  const decision = await evaluatePolicy(subject, action, policy, resource, tenant);
+
+  if (!decision.allowed) {
+    logDenial(subject, action, policy, decision);
+    throwError(decision.reason, HTTP_FORBIDDEN, FORBIDDEN_ERROR, { action, resource: policy.name });
+  }
+};
+
+/**
+ * Creates a middleware that loads a resource and enforces a policy on it.
+ * The loaded resource is made available to the handler as `res.locals.resource`.
+ * @param {Policy<R, A>} policy - The policy of the resource type
+ * @param {A} action - The action the route performs
+ * @param {Function} loadResource - Loads the resource for the request, or returns null
+ * @returns {Function} Express middleware function
+ * @example
+ * router.patch(
+ *   '/notes/:noteId',
+ *   authenticated,
+ *   authorizeResource(notePolicy, 'update', req => noteService.findNote(req.params.noteId)),
+ *   (req, res) => res.json({ note: res.locals.resource })
+ * );
+ */
+export const authorizeResource = <R, A extends string>(
+  policy: Policy<R, A>,
+  action: A,
+  loadResource: (req: Request) => Promise<R | null>
+) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const subject = req?.session?.user as JWTPayload;
+
+    if (!subject) {
+      throwAuthenticationError('User not authenticated');
+    }
+
+    const resource = await loadResource(req);
+
+    if (!resource) {
+      throwError(`${policy.name} not found`, HTTP_NOT_FOUND);
+    }
+
+    const decision = await evaluatePolicy(subject, action, policy, resource, req.tenant);
+
+    if (!decision.allowed) {
+      logDenial(subject, action, policy, decision);
+      throwError(decision.reason, HTTP_FORBIDDEN, FORBIDDEN_ERROR, {
+        action,
+        resource: policy.name,
+      });
+    }
+
+    res.locals.resource = resource;
+    next();
+  };
+};
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview Request context shared by everything that runs for a request
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * The context is kept in AsyncLocalStorage, like the tenant context, so services and the
+ * logger can tell which request they run for, who made it and from where without it being
+ * passed around. It starts with the request ID and client details, gains the actor once
+ * `authenticated` has run and the tenant once `belongsToTenant` has.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { ExpressMiddleware, JWTPayload } from '@/types';
+
+/**
+ * Header carrying the request ID, in both directions
+ * @constant {string}
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Request IDs accepted from clients: up to 128 visible ASCII characters, so they
+ * can't break log lines or response headers
+ */
+const REQUEST_ID_PATTERN = /^[\x21-\x7e]{1,128}$/;
+
+/**
+ * Details of the current request
+ */
+export interface RequestContext {
+  /** ID of the request, from the `X-Request-Id` header or generated */
+  requestId: string;
+  ip: string | null;
+  userAgent: string | null;
+  /** Session of the authenticated user or API key, set by `authenticated` */
+  actor?: Pick<JWTPayload, 'userId' | 'apiKeyId'>;
+  /** Tenant the request acts in, from a tenant-pinned session or `belongsToTenant` */
+  tenantId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Gets the context of the current request
+ * @returns {RequestContext | undefined} The context, or undefined outside a request,
+ * e.g. in scheduled jobs
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Records the authenticated session of the current request
+ * @param {JWTPayload} session - The session
+ */
+export const setRequestActor = (session: JWTPayload): void => {
+  const context = storage.getStore();
+
+  if (context) {
+    context.actor = { userId: session.userId, apiKeyId: session.apiKeyId };
+    context.tenantId = session.tenantId ?? context.tenantId;
+  }
+};
+
+/**
+ * Records the tenant the current request acts in
+ * @param {string} tenantId - The tenant ID
+ */
+export const setRequestTenant = (tenantId: string): void => {
+  const context = storage.getStore();
+
+  if (context) {
+    context.tenantId = tenantId;
+  }
+};
+
+/**
+ * Express middleware that runs the rest of the request in a new request context.
+ * The request ID is taken from the `X-Request-Id` header, so calls can be traced across
+ * services, or generated when missing or malformed, and is echoed in the response.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const requestContext: ExpressMiddleware = (req, res, next) => {
+  const incomingId = req.get(REQUEST_ID_HEADER)?.trim();
+  const requestId = incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID();
+
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  storage.run(
+    {
+      requestId,
+      ip: req.ip ?? null,
+      userAgent: req.get('User-Agent')?.slice(0, 255) ?? null,
+    },
+    () => next()
+  );
+};
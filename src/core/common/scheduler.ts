@@ -0,0 +1,63 @@
+/**
+ * @fileoverview In-process scheduler for recurring maintenance jobs
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Jobs run on a fixed interval in every instance of the server, so they must be safe to
+ * run concurrently. A run is skipped while the previous one is still going, and failures
+ * are logged without stopping the schedule.
+ */
+
+import { logger } from './logger';
+
+/**
+ * A scheduled job that can be stopped, e.g. on shutdown
+ */
+export interface ScheduledJob {
+  name: string;
+  stop: () => void;
+}
+
+/**
+ * Runs a task now and then on a fixed interval
+ * @param {string} name - Name of the job, used in logs
+ * @param {number} intervalMs - Time between runs in milliseconds
+ * @param {Function} task - The task
+ * @returns {ScheduledJob} The job
+ */
+export const scheduleJob = (
+  name: string,
+  intervalMs: number,
+  task: () => Promise<unknown>
+): ScheduledJob => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      logger.warn(`Skipping job ${name}: the previous run has not finished`);
+      return;
+    }
+
+    running = true;
+    try {
+      await task();
+    } catch (error) {
+      logger.error(`Job ${name} failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // Unref'd timers don't keep the process alive during shutdown
+  const initial = setTimeout(run, 0).unref();
+  const timer = setInterval(run, intervalMs).unref();
+
+  return {
+    name,
+    stop: () => {
+      clearTimeout(initial);
+      clearInterval(timer);
+    },
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * @file token-revocation.ts
+ * @description Redis-backed revocation list for access tokens
+ * @company Coco
+ * @author Kehinde Fasunle
+ * @see https://github.com/fasunle
+ *
+ * Two kinds of revocation are supported:
+ * - a single token, keyed by its `jti`, kept until the token would have expired anyway;
+ *   single-use tokens are consumed the same way
+ * - every token of a user issued before a "valid after" timestamp (logout everywhere,
+ *   password change, admin revocation), kept for one access token lifetime
+ *
+ * The cut-off is compared in milliseconds against the token's `iatMs` claim, since the
+ * second-precision `iat` can't tell a token issued just before a revocation from one
+ * issued just after it in the same second.
+ */
+
+//
+import { JWTPayload } from 'types';
+import { getRedisService } from '@/core/db/redis';
+import { ACCESS_TOKEN_TTL } from './jwt';
+
+const REVOKED_TOKEN_PREFIX = 'auth:revoked:';
+const VALID_AFTER_PREFIX = 'auth:valid-after-ms:';
+
+/**
+ * Claims revocation is checked against, shared by access and "mfa pending" tokens
+ */
+type RevocablePayload = Pick<JWTPayload, 'userId' | 'jti' | 'iat' | 'iatMs'>;
+
+/**
+ * Current time in seconds since the epoch, matching JWT `iat`/`exp` claims
+ * @returns {number} Unix timestamp in seconds
+ */
+const nowInSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * Revokes a single access token until it expires
+ * @param {JWTPayload} payload - The decoded token to revoke
+ * @returns {Promise<void>}
+ */
+export const revokeToken = async (payload: JWTPayload): Promise<void> => {
+  if (!payload.jti || !payload.exp) {
+    return;
+  }
+
+  const remainingLifetime = payload.exp - nowInSeconds();
+  if (remainingLifetime > 0) {
+    await getRedisService<number>().set(
+      `${REVOKED_TOKEN_PREFIX}${payload.jti}`,
+      payload.exp,
+      remainingLifetime
+    );
+  }
+};
+
+/**
+ * Consumes a single-use token. Only the first call for a token succeeds, even when
+ * several run concurrently.
+ * @param {Pick<JWTPayload, 'jti' | 'exp'>} payload - The decoded token to consume
+ * @returns {Promise<boolean>} True if this call consumed the token, false if it was already
+ * consumed, revoked or expired
+ */
+export const consumeToken = async (payload: Pick<JWTPayload, 'jti' | 'exp'>): Promise<boolean> => {
+  if (!payload.jti || !payload.exp) {
+    return false;
+  }
+
+  const remainingLifetime = payload.exp - nowInSeconds();
+  if (remainingLifetime <= 0) {
+    return false;
+  }
+
+  const uses = await getRedisService<number>().increment(
+    `${REVOKED_TOKEN_PREFIX}${payload.jti}`,
+    remainingLifetime
+  );
+  return uses === 1;
+};
+
+/**
+ * Revokes every access token of a user issued before now
+ * @param {string} userId - The ID of the user
+ * @returns {Promise<void>}
+ */
+export const revokeAllUserTokens = async (userId: string): Promise<void> => {
+  await getRedisService<number>().set(
+    `${VALID_AFTER_PREFIX}${userId}`,
+    Date.now(),
+    ACCESS_TOKEN_TTL
+  );
+};
+
+/**
+ * Time a token was issued at in milliseconds. Tokens without `iatMs` are taken as issued
+ * at the start of their `iat` second, so a revocation in that second covers them.
+ * @param {RevocablePayload} payload - The decoded token
+ * @returns {number} Unix timestamp in milliseconds
+ */
+const issuedAtInMilliseconds = (payload: RevocablePayload): number =>
+  payload.iatMs ?? (payload.iat ?? 0) * 1000;
+
+/**
+ * Checks whether a token has been revoked individually or by a per-user cut-off
+ * @param {RevocablePayload} payload - The decoded token to check
+ * @returns {Promise<boolean>} True if the token must be rejected
+ */
+export const isTokenRevoked = async (payload: RevocablePayload): Promise<boolean> => {
+  const redis = getRedisService<number>();
+
+  if (payload.jti && (await redis.exists(`${REVOKED_TOKEN_PREFIX}${payload.jti}`))) {
+    return true;
+  }
+
+  const validAfter = await redis.get(`${VALID_AFTER_PREFIX}${payload.userId}`);
+  return validAfter !== null && issuedAtInMilliseconds(payload) < validAfter;
+};
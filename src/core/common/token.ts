@@ -0,0 +1,54 @@
+/**
+ * @file token.ts
+ * @description Helpers for generating and hashing opaque secrets such as refresh and reset tokens
+ * @company Coco
+ * @author Kehinde Fasunle
+ * @see https://github.com/fasunle
+ */
+
+//
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Generates a cryptographically secure random token
+ * @param {number} [bytes=32] - Number of random bytes to generate
+ * @returns {string} The token encoded as base64url
+ */
+export const generateOpaqueToken = (bytes: number = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * Hashes a token with SHA-256 so it can be stored at rest.
+ * Tokens are high-entropy, so a fast unsalted hash is sufficient here (unlike passwords).
+ * @param {string} token - The plain token
+ * @returns {string} The hex encoded hash
+ */
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Derives a PKCE S256 code challenge from a code verifier (RFC 7636)
+ * @param {string} codeVerifier - The code verifier kept by the client
+ * @returns {string} The code challenge encoded as base64url
+ */
+export const createCodeChallenge = (codeVerifier: string): string => {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+};
+
+/**
+ * Compares a plain token against a stored hash in constant time
+ * @param {string} token - The plain token
+ * @param {string | null} [storedHash] - The hash stored at rest
+ * @returns {boolean} True if the token matches the hash
+ */
+export const matchesTokenHash = (token: string, storedHash?: string | null): boolean => {
+  if (!storedHash) {
+    return false;
+  }
+
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = Buffer.from(hashToken(token), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Distributed tracing with OpenTelemetry
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Each request runs in a server span that continues the trace of the W3C `traceparent`
+ * header of the caller, if any. Database queries, Redis commands and emails are traced in
+ * child spans through `withSpan`, and log entries carry the IDs of the active span.
+ *
+ * Spans are exported according to `OTEL_TRACES_EXPORTER`:
+ * - `otlp`: OTLP/HTTP to `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT` or
+ *   `OTEL_EXPORTER_OTLP_ENDPOINT`, with `OTEL_EXPORTER_OTLP_HEADERS`
+ * - `console`: printed to stdout
+ * - `file`: JSON lines in `OTEL_TRACES_FILE`, e.g. to check spans in tests
+ * - `none` (default): spans are only used to propagate and log trace IDs
+ */
+
+import {
+  Attributes,
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import { ExportResult, ExportResultCode, hrTimeToMilliseconds } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanExporter,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import {
+  ATTR_CLIENT_ADDRESS,
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_SERVICE_NAME,
+  ATTR_URL_PATH,
+  ATTR_USER_AGENT_ORIGINAL,
+} from '@opentelemetry/semantic-conventions';
+import fs from 'fs';
+import path from 'path';
+import { ExpressMiddleware } from '@/types';
+import { HTTP_INTERNAL_SERVER_ERROR } from './constants';
+import { logger } from './logger';
+import { routeTemplate, UNMATCHED_ROUTE } from './metrics';
+
+/**
+ * Tracer of the application's own spans. Spans started before `startTracing` are no-ops.
+ */
+export const tracer = trace.getTracer('api');
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Exports spans as JSON lines appended to a file
+ */
+export class FileSpanExporter implements SpanExporter {
+  private filename: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filename: string) {
+    this.filename = path.resolve(filename);
+    fs.mkdirSync(path.dirname(this.filename), { recursive: true });
+  }
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void) {
+    const lines = spans.map(span =>
+      JSON.stringify({
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId,
+        parentSpanId: span.parentSpanContext?.spanId,
+        name: span.name,
+        kind: SpanKind[span.kind],
+        startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+        durationMs: hrTimeToMilliseconds(span.duration),
+        status: span.status,
+        attributes: span.attributes,
+        events: span.events.map(({ name, attributes }) => ({ name, attributes })),
+      })
+    );
+
+    this.writing = this.writing
+      .then(() => fs.promises.appendFile(this.filename, lines.map(line => line + '\n').join('')))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        error => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown() {
+    await this.writing;
+  }
+
+  async forceFlush() {
+    await this.writing;
+  }
+}
+
+/**
+ * Creates the span processor of the exporter chosen by `OTEL_TRACES_EXPORTER`
+ * @returns {SpanProcessor | undefined} The processor, or undefined when spans aren't exported
+ */
+const createSpanProcessor = (): SpanProcessor | undefined => {
+  const exporter = process.env.OTEL_TRACES_EXPORTER || 'none';
+
+  switch (exporter) {
+    case 'otlp':
+      // The endpoint and headers are read from the OTEL_EXPORTER_OTLP_* variables
+      return new BatchSpanProcessor(new OTLPTraceExporter());
+    case 'console':
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'file':
+      return new SimpleSpanProcessor(
+        new FileSpanExporter(process.env.OTEL_TRACES_FILE || path.join('logs', 'traces.jsonl'))
+      );
+    case 'none':
+      return undefined;
+    default:
+      logger.warn(`Unknown OTEL_TRACES_EXPORTER ${exporter}, spans are not exported`);
+      return undefined;
+  }
+};
+
+/**
+ * Registers the tracer provider, along with the W3C trace context propagator and the
+ * AsyncLocalStorage context manager. Call it once, before the server starts.
+ */
+export const startTracing = (): void => {
+  if (provider) {
+    return;
+  }
+
+  const processor = createSpanProcessor();
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: process.env.OTEL_SERVICE_NAME || 'api',
+    }),
+    spanProcessors: processor ? [processor] : [],
+  });
+  provider.register();
+};
+
+/**
+ * Exports the pending spans and stops tracing; call it on shutdown
+ * @returns {Promise<void>}
+ */
+export const stopTracing = async (): Promise<void> => {
+  await provider?.shutdown();
+  provider = undefined;
+};
+
+/**
+ * Marks a span as failed by an error
+ * @param {Span} span - The span
+ * @param {unknown} error - The error
+ */
+export const recordSpanError = (span: Span, error: unknown): void => {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({
+    code: SpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+};
+
+/**
+ * Runs an operation in a child span of the active span. The span records the error and
+ * fails if the operation throws, and ends when it settles.
+ * @param {string} name - Name of the span, e.g. `SELECT` or `EmailService.sendEmail`
+ * @param {Attributes} attributes - Attributes of the span
+ * @param {Function} operation - The operation; receives the span to add details
+ * @param {SpanKind} [kind=SpanKind.INTERNAL] - `CLIENT` for calls to other services
+ * @returns {Promise<R>} The result of the operation
+ *
+ * @example
+ * ```typescript
+ * const rows = await withSpan('SELECT', { 'db.system.name': 'postgresql' }, () =>
+ *   dataSource.query(sql)
+ * );
+ * ```
+ */
+export const withSpan = <R>(
+  name: string,
+  attributes: Attributes,
+  operation: (span: Span) => Promise<R>,
+  kind: SpanKind = SpanKind.INTERNAL
+): Promise<R> =>
+  tracer.startActiveSpan(name, { kind, attributes }, async span => {
+    try {
+      return await operation(span);
+    } catch (error) {
+      recordSpanError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+
+/**
+ * Middleware that runs the rest of the request in a server span. The span continues the
+ * trace of the `traceparent` header, and is named after the route template once the
+ * request is answered, e.g. `GET /api/v1/users/:userId`, or only the method when no
+ * route matched.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const tracingMiddleware: ExpressMiddleware = (req, res, next) => {
+  const parent = propagation.extract(ROOT_CONTEXT, req.headers);
+  const span = tracer.startSpan(
+    req.method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [ATTR_HTTP_REQUEST_METHOD]: req.method,
+        [ATTR_URL_PATH]: req.originalUrl.split('?')[0],
+        [ATTR_CLIENT_ADDRESS]: req.ip,
+        [ATTR_USER_AGENT_ORIGINAL]: req.get('User-Agent'),
+      },
+    },
+    parent
+  );
+
+  // Unlike `finish`, `close` is also emitted when the client aborts the request
+  res.on('close', () => {
+    const route = routeTemplate(req);
+
+    if (route !== UNMATCHED_ROUTE) {
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= HTTP_INTERNAL_SERVER_ERROR) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parent, span), next);
+};
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview File upload handling backed by multer
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Uploads are stored under `UPLOAD_DIR` and served from `/uploads`. The declared
+ * content type is only a first filter: stored images are checked against their
+ * magic bytes, and files that don't match are deleted. Import files are only parsed,
+ * so they are kept in memory instead.
+ */
+
+import { randomBytes } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { NextFunction, Request, Response } from 'express';
+import multer from 'multer';
+import { validationError } from './error-handler';
+import { logger } from './logger';
+
+/**
+ * Directory uploaded files are stored in
+ * @constant {string}
+ */
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+/**
+ * URL path uploaded files are served from
+ * @constant {string}
+ */
+export const UPLOAD_URL_PATH = '/uploads';
+
+/**
+ * Maximum avatar size in bytes (2 MB)
+ * @constant {number}
+ */
+const MAX_AVATAR_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Accepted avatar content types and their file extensions
+ */
+const AVATAR_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const AVATAR_DIR = path.join(UPLOAD_DIR, 'avatars');
+
+/**
+ * Detects an image type from the first bytes of a file
+ * @param {Buffer} header - The first bytes of the file
+ * @returns {string | null} The content type, or null if it isn't a supported image
+ */
+const detectImageType = (header: Buffer): string | null => {
+  if (header.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (['GIF87a', 'GIF89a'].includes(header.subarray(0, 6).toString('ascii'))) {
+    return 'image/gif';
+  }
+  if (
+    header.subarray(0, 4).toString('ascii') === 'RIFF' &&
+    header.subarray(8, 12).toString('ascii') === 'WEBP'
+  ) {
+    return 'image/webp';
+  }
+  return null;
+};
+
+const avatarUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, callback) => {
+      fs.mkdir(AVATAR_DIR, { recursive: true }, error => callback(error, AVATAR_DIR));
+    },
+    filename: (req, file, callback) => {
+      callback(null, `${randomBytes(16).toString('hex')}.${AVATAR_TYPES[file.mimetype]}`);
+    },
+  }),
+  limits: { fileSize: MAX_AVATAR_SIZE, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (AVATAR_TYPES[file.mimetype]) {
+      callback(null, true);
+    } else {
+      callback(validationError(`Avatar must be one of: ${Object.keys(AVATAR_TYPES).join(', ')}`));
+    }
+  },
+});
+
+/**
+ * Middleware that stores an uploaded avatar from the multipart field `avatar` and
+ * verifies it is the image it claims to be. The stored file is available as `req.file`.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const uploadAvatar = (req: Request, res: Response, next: NextFunction) => {
+  avatarUpload.single('avatar')(req, res, async error => {
+    if (error instanceof multer.MulterError) {
+      const message =
+        error.code === 'LIMIT_FILE_SIZE'
+          ? `Avatar must be at most ${MAX_AVATAR_SIZE / (1024 * 1024)} MB`
+          : error.message;
+      return next(validationError(message));
+    }
+    if (error) {
+      return next(error);
+    }
+    if (!req.file) {
+      return next(
+        validationError('avatar file is required', [
+          { location: 'body', field: 'avatar', message: 'avatar file is required' },
+        ])
+      );
+    }
+
+    try {
+      const handle = await fs.promises.open(req.file.path, 'r');
+      const { buffer } = await handle.read(Buffer.alloc(12), 0, 12, 0);
+      await handle.close();
+
+      if (detectImageType(buffer) !== req.file.mimetype) {
+        await removeUploadedFile(getUploadUrl(req.file.path));
+        return next(validationError('Avatar content does not match its type'));
+      }
+    } catch (verifyError) {
+      return next(verifyError);
+    }
+
+    next();
+  });
+};
+
+/**
+ * Maximum size of a user import file in bytes (5 MB)
+ * @constant {number}
+ */
+const MAX_IMPORT_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Accepted import file extensions. Browsers report CSV under several content types,
+ * so the extension decides how the file is parsed.
+ */
+const IMPORT_EXTENSIONS = ['.csv', '.xlsx'];
+
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_SIZE, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (IMPORT_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      callback(null, true);
+    } else {
+      callback(validationError(`Import file must be one of: ${IMPORT_EXTENSIONS.join(', ')}`));
+    }
+  },
+});
+
+/**
+ * Middleware that reads an uploaded CSV or XLSX file from the multipart field `file`
+ * into memory. The file is available as `req.file`, its content as `req.file.buffer`.
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ */
+export const uploadImportFile = (req: Request, res: Response, next: NextFunction) => {
+  importUpload.single('file')(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      const message =
+        error.code === 'LIMIT_FILE_SIZE'
+          ? `Import file must be at most ${MAX_IMPORT_SIZE / (1024 * 1024)} MB`
+          : error.message;
+      return next(validationError(message));
+    }
+    if (error) {
+      return next(error);
+    }
+    if (!req.file) {
+      return next(
+        validationError('file is required', [
+          { location: 'body', field: 'file', message: 'file is required' },
+        ])
+      );
+    }
+
+    next();
+  });
+};
+
+/**
+ * Gets the public URL of a stored upload
+ * @param {string} filePath - Path of the stored file
+ * @returns {string} The URL path the file is served from
+ */
+export const getUploadUrl = (filePath: string): string =>
+  `${UPLOAD_URL_PATH}/${path.relative(UPLOAD_DIR, filePath).split(path.sep).join('/')}`;
+
+/**
+ * Deletes a stored upload by its public URL. Missing files and URLs outside
+ * the upload directory are ignored.
+ * @param {string} url - The URL path of the file
+ * @returns {Promise<void>}
+ */
+export const removeUploadedFile = async (url: string): Promise<void> => {
+  const filePath = path.resolve(UPLOAD_DIR, `.${url.slice(UPLOAD_URL_PATH.length)}`);
+
+  if (!url.startsWith(`${UPLOAD_URL_PATH}/`) || !filePath.startsWith(`${UPLOAD_DIR}${path.sep}`)) {
+    return;
+  }
+
+  await fs.promises
+    .unlink(filePath)
+    .catch(error => error.code !== 'ENOENT' && logger.error('Failed to delete upload:', error));
+};
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Request validation middleware driven by DTO classes
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * DTOs are classes whose properties carry class-validator rules. `validate` replaces the
+ * route parameters, query and body of a request with instances of their DTOs:
+ * - Route parameters and query values, which always arrive as strings, are converted to
+ *   the declared property types
+ * - Properties without rules are stripped, so handlers only see declared fields
+ * - Every invalid field is reported at once, with the first rule it failed, through
+ *   `throwValidationError`
+ */
+
+import { ClassConstructor, plainToInstance, Transform } from 'class-transformer';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsString,
+  validate as validateInstance,
+  ValidationError,
+} from 'class-validator';
+import { ExpressMiddleware, FieldError } from '@/types';
+import { throwValidationError } from './error-handler';
+
+/**
+ * Part of a request that can be validated
+ */
+export type RequestLocation = 'params' | 'query' | 'body';
+
+/**
+ * DTO classes to validate each part of a request against
+ */
+export type ValidationSchemas = Partial<Record<RequestLocation, ClassConstructor<object>>>;
+
+/**
+ * Order the parts of a request are validated and reported in
+ */
+const LOCATIONS: RequestLocation[] = ['params', 'query', 'body'];
+
+/**
+ * Flattens class-validator errors into one field error per invalid field
+ * @param {ValidationError[]} errors - The errors
+ * @param {RequestLocation} location - Part of the request that was validated
+ * @param {string} [prefix] - Path of the parent object, for nested errors
+ * @returns {FieldError[]} The field errors
+ */
+const toFieldErrors = (
+  errors: ValidationError[],
+  location: RequestLocation,
+  prefix: string = ''
+): FieldError[] =>
+  errors.flatMap(error => {
+    const field = `${prefix}${error.property}`;
+
+    return [
+      ...Object.values(error.constraints ?? {}).map(message => ({ location, field, message })),
+      ...toFieldErrors(error.children ?? [], location, `${field}.`),
+    ];
+  });
+
+/**
+ * Express middleware factory that validates and normalizes the parts of a request
+ * @param {ValidationSchemas} schemas - DTO classes for the params, query and body
+ * @returns {ExpressMiddleware} The middleware
+ * @throws {AppError} Validation error listing every invalid field
+ *
+ * @example
+ * ```typescript
+ * router.post('/', validate({ body: CreateRoleDto }), async (req, res) => {
+ *   const { name, permissions } = req.body as CreateRoleDto;
+ * });
+ * ```
+ */
+export const validate =
+  (schemas: ValidationSchemas): ExpressMiddleware =>
+  async (req, res, next) => {
+    const errors: FieldError[] = [];
+    const values: Partial<Record<RequestLocation, object>> = {};
+
+    for (const location of LOCATIONS) {
+      const dto = schemas[location];
+      const input: unknown = req[location] ?? {};
+
+      if (!dto) {
+        continue;
+      }
+      if (typeof input !== 'object' || Array.isArray(input)) {
+        errors.push({ location, field: '', message: `${location} must be an object` });
+        continue;
+      }
+
+      const instance = plainToInstance(dto, input, {
+        enableImplicitConversion: location !== 'body',
+        exposeDefaultValues: true,
+      });
+      const failures = await validateInstance(instance, {
+        whitelist: true,
+        stopAtFirstError: true,
+        validationError: { target: false, value: false },
+      });
+
+      errors.push(...toFieldErrors(failures, location));
+      values[location] = instance;
+    }
+
+    if (errors.length) {
+      throwValidationError('Invalid request', errors);
+    }
+
+    if (values.params) {
+      req.params = values.params as typeof req.params;
+    }
+    if (values.query) {
+      // Express 5 defines `req.query` as a getter, so it can't simply be assigned
+      Object.defineProperty(req, 'query', { value: values.query, writable: true });
+    }
+    if (values.body) {
+      req.body = values.body;
+    }
+
+    next();
+  };
+
+/**
+ * Converts the strings `true` and `false` to booleans, e.g. in query strings and
+ * multipart forms. Other values are left for the validation rules to reject.
+ * @returns {PropertyDecorator} The decorator
+ */
+export const ToBoolean = (): PropertyDecorator =>
+  Transform(({ obj, key }) => {
+    const value = obj[key];
+    return value === 'true' ? true : value === 'false' ? false : value;
+  });
+
+/**
+ * Trims surrounding whitespace from string values
+ * @returns {PropertyDecorator} The decorator
+ */
+export const Trim = (): PropertyDecorator =>
+  Transform(({ value }) => (typeof value === 'string' ? value.trim() : value));
+
+/**
+ * Trims and lowercases email addresses, so they compare equal however they were typed
+ * @returns {PropertyDecorator} The decorator
+ */
+export const NormalizeEmail = (): PropertyDecorator =>
+  Transform(({ value }) => (typeof value === 'string' ? value.trim().toLowerCase() : value));
+
+/**
+ * Rules of a required string field
+ * @returns {PropertyDecorator} The decorator
+ */
+export const RequiredString = (): PropertyDecorator => (target, key) => {
+  IsString({ message: '$property is required' })(target, key);
+  IsNotEmpty({ message: '$property is required' })(target, key);
+};
+
+/**
+ * Rules of an email address field; the address is normalized to lowercase
+ * @returns {PropertyDecorator} The decorator
+ */
+export const EmailAddress = (): PropertyDecorator => (target, key) => {
+  NormalizeEmail()(target, key);
+  IsEmail({}, { message: '$property must be a valid email address' })(target, key);
+};
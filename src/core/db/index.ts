@@ -9,6 +9,9 @@
 import { DataSource } from 'typeorm';
 import * as dotenv from 'dotenv';
 import { AppDataSource } from '@/data-source';
+import { logger } from '@/core/common/logger';
+import { withSpan } from '@/core/common/tracing';
+import { DB_SPAN_ATTRIBUTES } from './tracing';
 
 dotenv.config();
 
@@ -57,13 +60,15 @@ export class DatabaseService {
    * @throws {Error} If query execution fails
    */
   public async query(text: string, params?: any[]) {
-    try {
-      const result = await this.dataSource.query(text, params);
-      return result;
-    } catch (error) {
-      console.error('Query error:', error);
-      throw error;
-    }
+    return withSpan('DatabaseService.query', DB_SPAN_ATTRIBUTES, async () => {
+      try {
+        const result = await this.dataSource.query(text, params);
+        return result;
+      } catch (error) {
+        logger.error('Query error:', error);
+        throw error;
+      }
+    });
   }
 
   /**
@@ -73,20 +78,22 @@ export class DatabaseService {
    * @throws {Error} If transaction fails
    */
   public async transaction<T>(callback: (queryRunner: any) => Promise<T>): Promise<T> {
-    const queryRunner = this.dataSource.createQueryRunner();
-    await queryRunner.connect();
-    await queryRunner.startTransaction();
+    return withSpan('DatabaseService.transaction', DB_SPAN_ATTRIBUTES, async () => {
+      const queryRunner = this.dataSource.createQueryRunner();
+      await queryRunner.connect();
+      await queryRunner.startTransaction();
 
-    try {
-      const result = await callback(queryRunner);
-      await queryRunner.commitTransaction();
-      return result;
-    } catch (error) {
-      await queryRunner.rollbackTransaction();
-      throw error;
-    } finally {
-      await queryRunner.release();
-    }
+      try {
+        const result = await callback(queryRunner);
+        await queryRunner.commitTransaction();
+        return result;
+      } catch (error) {
+        await queryRunner.rollbackTransaction();
+        throw error;
+      } finally {
+        await queryRunner.release();
+      }
+    });
   }
 
   /**
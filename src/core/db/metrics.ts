@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Database metrics: query timings from a TypeORM subscriber and pool usage
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { Gauge } from 'prom-client';
+import { AfterQueryEvent, DataSource, EntitySubscriberInterface, EventSubscriber } from 'typeorm';
+import { PostgresDriver } from 'typeorm/driver/postgres/PostgresDriver';
+
+//
+import { dbQueryDuration, dbQueryErrorsTotal, metricsRegistry } from '@/core/common/metrics';
+
+/**
+ * Statement types used as labels; other statements are labelled `OTHER`
+ */
+const OPERATIONS = new Set([
+  'SELECT',
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'WITH',
+  'START',
+  'COMMIT',
+  'ROLLBACK',
+  'SAVEPOINT',
+  'RELEASE',
+]);
+
+/**
+ * Gets the statement type of a query
+ * @param {string} query - The SQL
+ * @returns {string} The statement type, e.g. `SELECT`
+ */
+export const operationOf = (query: string): string => {
+  const keyword = query.trimStart().split(/\s/, 1)[0].toUpperCase();
+  return OPERATIONS.has(keyword) ? keyword : 'OTHER';
+};
+
+/**
+ * Records the duration of every query, and counts failed ones
+ */
+@EventSubscriber()
+export class QueryMetricsSubscriber implements EntitySubscriberInterface {
+  afterQuery(event: AfterQueryEvent<unknown>) {
+    const labels = { operation: operationOf(event.query) };
+
+    if (!event.success) {
+      dbQueryErrorsTotal.inc(labels);
+    } else if (event.executionTime !== undefined) {
+      dbQueryDuration.observe(labels, event.executionTime / 1000);
+    }
+  }
+}
+
+let trackedDataSource: DataSource | undefined;
+
+/**
+ * Connections of the pool of the tracked data source, read when metrics are collected
+ */
+export const dbPoolConnections = new Gauge({
+  name: 'db_pool_connections',
+  help: 'Connections of the database pool, by state (active, idle) and clients waiting for one',
+  labelNames: ['state'] as const,
+  registers: [metricsRegistry],
+  collect() {
+    const pool = trackedDataSource?.isInitialized
+      ? (trackedDataSource.driver as PostgresDriver).master
+      : undefined;
+
+    if (!pool) {
+      this.reset();
+      return;
+    }
+
+    this.set({ state: 'active' }, pool.totalCount - pool.idleCount);
+    this.set({ state: 'idle' }, pool.idleCount);
+    this.set({ state: 'waiting' }, pool.waitingCount);
+  },
+});
+
+/**
+ * Reports the connections of the pool of a data source whenever metrics are collected
+ * @param {DataSource} dataSource - The data source
+ */
+export const trackDatabasePool = (dataSource: DataSource): void => {
+  trackedDataSource = dataSource;
+};
@@ -14,6 +14,7 @@
  * const user = await redis.get('user:123');
  * await redis.delete('user:123');
  * const exists = await redis.exists('user:123');
+ * const attempts = await redis.increment('attempts:123', 900); // counter with TTL
  *
  * // Hash operations
  * await redis.setHash('users', 'user:123', { id: 123, name: 'John' });
@@ -26,11 +27,19 @@
  * @author Kehinde Fasunle <kfasunle@gmail.com>
  * @see {@link https://github.com/fasunle}
  */
+import { SpanKind } from '@opentelemetry/api';
+import { ATTR_DB_OPERATION_NAME, ATTR_DB_SYSTEM_NAME } from '@opentelemetry/semantic-conventions';
 import { createClient, RedisClientType } from 'redis';
 
 //
 import { logger } from '@/core/common/logger';
 import { throwError } from '@/core/common/error-handler';
+import {
+  redisCommandDuration,
+  redisCommandErrorsTotal,
+  timeOperation,
+} from '@/core/common/metrics';
+import { withSpan } from '@/core/common/tracing';
 import { HTTP_INTERNAL_SERVER_ERROR } from '../common/constants';
 
 export class RedisService<T> {
@@ -46,7 +55,24 @@ export class RedisService<T> {
     });
 
     this.client.on('error', err => logger.error('Redis Client Error: ', err));
-    this.client.connect();
+    this.client.connect().catch(err => logger.error('Redis connection failed: ', err));
+  }
+
+  /**
+   * Runs a Redis command in a span, recording its latency and failure in the metrics.
+   * @param name The command name, used as the metric label
+   * @param run Runs the command
+   * @returns The result of the command
+   */
+  private command<R>(name: string, run: () => Promise<R>): Promise<R> {
+    const operation = name.toUpperCase();
+
+    return withSpan(
+      operation,
+      { [ATTR_DB_SYSTEM_NAME]: 'redis', [ATTR_DB_OPERATION_NAME]: operation },
+      () => timeOperation(redisCommandDuration, redisCommandErrorsTotal, { command: name }, run),
+      SpanKind.CLIENT
+    );
   }
 
   /**
@@ -59,9 +85,9 @@ export class RedisService<T> {
     try {
       const serializedValue = JSON.stringify(value);
       if (expireInSeconds) {
-        await this.client.setEx(key, expireInSeconds, serializedValue);
+        await this.command('setex', () => this.client.setEx(key, expireInSeconds, serializedValue));
       } else {
-        await this.client.set(key, serializedValue);
+        await this.command('set', () => this.client.set(key, serializedValue));
       }
     } catch (error) {
       throwError(`Error setting Redis key: ${error.message}`, HTTP_INTERNAL_SERVER_ERROR);
@@ -75,7 +101,7 @@ export class RedisService<T> {
    */
   async get(key: string): Promise<T | null> {
     try {
-      const value = await this.client.get(key);
+      const value = await this.command('get', () => this.client.get(key));
       return value ? JSON.parse(value as any) : null;
     } catch (error) {
       throwError(`Error getting Redis key: ${error.message}`, HTTP_INTERNAL_SERVER_ERROR);
@@ -88,7 +114,7 @@ export class RedisService<T> {
    */
   async delete(key: string): Promise<void> {
     try {
-      await this.client.del(key);
+      await this.command('del', () => this.client.del(key));
     } catch (error) {
       throwError(`Error deleting Redis key: ${error.message}`, HTTP_INTERNAL_SERVER_ERROR);
     }
@@ -101,7 +127,7 @@ export class RedisService<T> {
    */
   async exists(key: string): Promise<boolean> {
     try {
-      return (await this.client.exists(key)) === 1;
+      return (await this.command('exists', () => this.client.exists(key))) === 1;
     } catch (error) {
       throwError(
         `Error checking Redis key existence: ${error.message}`,
@@ -110,6 +136,29 @@ export class RedisService<T> {
     }
   }
 
+  /**
+   * Atomically increments a counter, starting its expiration window on first increment.
+   * INCR and EXPIRE run in one MULTI/EXEC transaction, so a counter is never left without
+   * its expiration.
+   * @param key The Redis key
+   * @param expireInSeconds Optional TTL in seconds, applied when the counter has none yet
+   * @returns The counter value after incrementing
+   */
+  async increment(key: string, expireInSeconds?: number): Promise<number> {
+    try {
+      if (!expireInSeconds) {
+        return await this.command('incr', () => this.client.incr(key));
+      }
+
+      const [value] = await this.command('multi', () =>
+        this.client.multi().incr(key).expire(key, expireInSeconds, 'NX').exec()
+      );
+      return Number(value);
+    } catch (error) {
+      throwError(`Error incrementing Redis key: ${error.message}`, HTTP_INTERNAL_SERVER_ERROR);
+    }
+  }
+
   /**
    * Sets a field in a Redis hash.
    * @param key The Redis hash key
@@ -118,7 +167,7 @@ export class RedisService<T> {
    */
   async setHash(key: string, field: string, value: T): Promise<void> {
     try {
-      await this.client.hSet(key, field, JSON.stringify(value));
+      await this.command('hset', () => this.client.hSet(key, field, JSON.stringify(value)));
     } catch (error) {
       throwError(`Error setting Redis hash: ${error.message}`, HTTP_INTERNAL_SERVER_ERROR);
     }
@@ -132,7 +181,7 @@ export class RedisService<T> {
    */
   async getHash(key: string, field: string): Promise<T | null> {
     try {
-      const value = await this.client.hGet(key, field);
+      const value = await this.command('hget', () => this.client.hGet(key, field));
       return value ? JSON.parse(JSON.stringify(value)) : null;
     } catch (error) {
       throwError(`Error getting Redis hash: ${error.message}`, HTTP_INTERNAL_SERVER_ERROR);
@@ -146,7 +195,7 @@ export class RedisService<T> {
    */
   async getAllHash(key: string): Promise<Record<string, T>> {
     try {
-      const hash = await this.client.hGetAll(key);
+      const hash = await this.command('hgetall', () => this.client.hGetAll(key));
       const result: Record<string, T> = {};
       for (const [field, value] of Object.entries(hash)) {
         result[field] = JSON.parse(value);
@@ -164,3 +213,32 @@ export class RedisService<T> {
     await this.client.quit();
   }
 }
+
+let sharedInstance: RedisService<unknown> | undefined;
+
+/**
+ * Returns the application-wide Redis service, connecting on first use.
+ * Uses the `REDIS_URL` environment variable, defaulting to a local Redis server.
+ * @template T The type of values the caller stores
+ * @returns {RedisService<T>} The shared Redis service
+ *
+ * @example
+ * const redis = getRedisService<number>();
+ * await redis.set('counter', 1, 60);
+ */
+export const getRedisService = <T = unknown>(): RedisService<T> => {
+  if (!sharedInstance) {
+    sharedInstance = new RedisService(process.env.REDIS_URL || 'redis://localhost:6379');
+  }
+  return sharedInstance as RedisService<T>;
+};
+
+/**
+ * Disconnects the shared Redis service if it was ever used.
+ */
+export const disconnectRedisService = async (): Promise<void> => {
+  if (sharedInstance) {
+    await sharedInstance.disconnect();
+    sharedInstance = undefined;
+  }
+};
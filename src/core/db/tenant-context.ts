@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Tenant context and tenant-scoped repositories
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * The tenant of the current request is kept in AsyncLocalStorage, so it follows the
+ * request through every await without being passed around. Tenant-scoped repositories
+ * read it on each call and add it to every query and insert; a call made outside a
+ * tenant context fails instead of silently returning every tenant's rows.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  DeepPartial,
+  EntityTarget,
+  FindManyOptions,
+  FindOneOptions,
+  FindOptionsWhere,
+  ObjectLiteral,
+  Repository,
+} from 'typeorm';
+import { AppDataSource } from '@/data-source';
+import { HTTP_INTERNAL_SERVER_ERROR } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { TenantAccess } from '@/types';
+
+const storage = new AsyncLocalStorage<TenantAccess>();
+
+/**
+ * Runs a function with the given tenant as the current tenant
+ * @param {TenantAccess} tenant - The tenant and the current user's role in it
+ * @param {Function} callback - The function to run
+ * @returns {T} The result of the callback
+ */
+export const runInTenant = <T>(tenant: TenantAccess, callback: () => T): T =>
+  storage.run(tenant, callback);
+
+/**
+ * Gets the current tenant and the current user's role in it
+ * @returns {TenantAccess | undefined} The tenant, or undefined outside a tenant context
+ */
+export const getCurrentTenant = (): TenantAccess | undefined => storage.getStore();
+
+/**
+ * Gets the ID of the current tenant
+ * @returns {string | undefined} The tenant ID, or undefined outside a tenant context
+ */
+export const getCurrentTenantId = (): string | undefined => storage.getStore()?.id;
+
+/**
+ * Entities that belong to a single tenant
+ */
+export interface TenantOwned extends ObjectLiteral {
+  tenantId: string;
+}
+
+/**
+ * Repository wrapper that restricts every read and write to the current tenant
+ * @template T - A tenant-owned entity
+ */
+export class TenantScopedRepository<T extends TenantOwned> {
+  constructor(private repository: Repository<T>) {}
+
+  /**
+   * Finds entities of the current tenant
+   * @param {FindManyOptions<T>} [options] - Find options; `where` is narrowed to the tenant
+   * @returns {Promise<T[]>} The matching entities
+   */
+  public find(options: FindManyOptions<T> = {}): Promise<T[]> {
+    return this.repository.find({ ...options, where: this.scope(options.where) });
+  }
+
+  /**
+   * Finds the first entity of the current tenant matching the options
+   * @param {FindOneOptions<T>} options - Find options; `where` is narrowed to the tenant
+   * @returns {Promise<T | null>} The entity, or null if none matches
+   */
+  public findOne(options: FindOneOptions<T>): Promise<T | null> {
+    return this.repository.findOne({ ...options, where: this.scope(options.where) });
+  }
+
+  /**
+   * Counts entities of the current tenant
+   * @param {FindManyOptions<T>} [options] - Find options; `where` is narrowed to the tenant
+   * @returns {Promise<number>} The number of matching entities
+   */
+  public count(options: FindManyOptions<T> = {}): Promise<number> {
+    return this.repository.count({ ...options, where: this.scope(options.where) });
+  }
+
+  /**
+   * Creates an entity instance belonging to the current tenant
+   * @param {DeepPartial<T>} data - The entity data
+   * @returns {T} The unsaved entity
+   */
+  public create(data: DeepPartial<T>): T {
+    return this.repository.create({ ...data, tenantId: this.tenantId() });
+  }
+
+  /**
+   * Saves an entity of the current tenant
+   * @param {T} entity - The entity to save
+   * @returns {Promise<T>} The saved entity
+   * @throws {Error} If the entity belongs to another tenant
+   */
+  public save(entity: T): Promise<T> {
+    if (entity.tenantId !== this.tenantId()) {
+      throwError('Entity does not belong to the current tenant', HTTP_INTERNAL_SERVER_ERROR);
+    }
+    return this.repository.save(entity);
+  }
+
+  /**
+   * Removes entities of the current tenant matching the criteria
+   * @param {FindOptionsWhere<T>} where - The criteria, narrowed to the tenant
+   * @returns {Promise<number>} The number of removed entities
+   */
+  public async delete(where: FindOptionsWhere<T>): Promise<number> {
+    const result = await this.repository.delete(this.scope(where) as FindOptionsWhere<T>);
+    return result.affected ?? 0;
+  }
+
+  /**
+   * Gets the current tenant ID or fails when there is no tenant context
+   * @private
+   * @returns {string} The tenant ID
+   */
+  private tenantId(): string {
+    const tenantId = getCurrentTenantId();
+
+    if (!tenantId) {
+      throwError('Tenant-scoped query made outside a tenant context', HTTP_INTERNAL_SERVER_ERROR);
+    }
+
+    return tenantId;
+  }
+
+  /**
+   * Adds the current tenant to query criteria, including each branch of OR criteria
+   * @private
+   * @param {FindOptionsWhere<T> | FindOptionsWhere<T>[]} [where] - The criteria
+   * @returns {FindOptionsWhere<T> | FindOptionsWhere<T>[]} The scoped criteria
+   */
+  private scope(
+    where?: FindOptionsWhere<T> | FindOptionsWhere<T>[]
+  ): FindOptionsWhere<T> | FindOptionsWhere<T>[] {
+    const tenantId = this.tenantId();
+
+    if (Array.isArray(where)) {
+      return where.map(branch => ({ ...branch, tenantId }));
+    }
+
+    return { ...where, tenantId } as FindOptionsWhere<T>;
+  }
+}
+
+/**
+ * Gets a repository scoped to the current tenant
+ * @param {EntityTarget<T>} entity - A tenant-owned entity
+ * @returns {TenantScopedRepository<T>} The scoped repository
+ */
+export const getTenantRepository = <T extends TenantOwned>(
+  entity: EntityTarget<T>
+): TenantScopedRepository<T> => new TenantScopedRepository(AppDataSource.getRepository(entity));
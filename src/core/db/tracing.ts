@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Spans of database queries, recorded by a TypeORM subscriber
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { Span, SpanKind } from '@opentelemetry/api';
+import {
+  ATTR_DB_OPERATION_NAME,
+  ATTR_DB_QUERY_TEXT,
+  ATTR_DB_SYSTEM_NAME,
+} from '@opentelemetry/semantic-conventions';
+import {
+  AfterQueryEvent,
+  BeforeQueryEvent,
+  EntitySubscriberInterface,
+  EventSubscriber,
+  QueryRunner,
+} from 'typeorm';
+
+//
+import { recordSpanError, tracer } from '@/core/common/tracing';
+import { operationOf } from './metrics';
+
+/**
+ * Attributes shared by the spans of every database operation
+ */
+export const DB_SPAN_ATTRIBUTES = { [ATTR_DB_SYSTEM_NAME]: 'postgresql' };
+
+/**
+ * Traces every query in a client span, child of the span active when it was sent
+ */
+@EventSubscriber()
+export class QueryTracingSubscriber implements EntitySubscriberInterface {
+  /**
+   * Open spans of each query runner, oldest first. A connection answers its queries in
+   * the order they were sent, so they end in that order too.
+   */
+  private spans = new WeakMap<QueryRunner, Span[]>();
+
+  beforeQuery(event: BeforeQueryEvent<unknown>) {
+    const operation = operationOf(event.query);
+    const span = tracer.startSpan(operation, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        ...DB_SPAN_ATTRIBUTES,
+        [ATTR_DB_OPERATION_NAME]: operation,
+        [ATTR_DB_QUERY_TEXT]: event.query,
+      },
+    });
+
+    const spans = this.spans.get(event.queryRunner) ?? [];
+    spans.push(span);
+    this.spans.set(event.queryRunner, spans);
+  }
+
+  afterQuery(event: AfterQueryEvent<unknown>) {
+    const span = this.spans.get(event.queryRunner)?.shift();
+
+    if (!span) {
+      return;
+    }
+    if (!event.success) {
+      recordSpanError(span, event.error);
+    }
+    span.end();
+  }
+}
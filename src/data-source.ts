@@ -11,6 +11,20 @@ import { DataSource } from 'typeorm';
 
 //
 import { User } from '@/entity/user.entity';
+import { LinkedIdentity } from '@/entity/linked-identity.entity';
+import { ApiKey } from '@/entity/api-key.entity';
+import { Role } from '@/entity/role.entity';
+import { Tenant } from '@/entity/tenant.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { TenantInvitation } from '@/entity/tenant-invitation.entity';
+import { TenantIdentityProvider } from '@/entity/tenant-identity-provider.entity';
+import { UserErasure } from '@/entity/user-erasure.entity';
+import { EmailLog } from '@/entity/email-log.entity';
+import { DataExport } from '@/entity/data-export.entity';
+import { AuditLog } from '@/entity/audit-log.entity';
+import { RefreshSession } from '@/entity/refresh-session.entity';
+import { QueryMetricsSubscriber } from '@/core/db/metrics';
+import { QueryTracingSubscriber } from '@/core/db/tracing';
 
 export const AppDataSource = new DataSource({
   type: 'postgres',
@@ -21,7 +35,21 @@ export const AppDataSource = new DataSource({
   database: 'test',
   synchronize: true,
   logging: false,
-  entities: [User],
+  entities: [
+    User,
+    LinkedIdentity,
+    ApiKey,
+    Role,
+    Tenant,
+    TenantMembership,
+    TenantInvitation,
+    TenantIdentityProvider,
+    UserErasure,
+    EmailLog,
+    DataExport,
+    AuditLog,
+    RefreshSession,
+  ],
   migrations: [],
-  subscribers: [],
+  subscribers: [QueryMetricsSubscriber, QueryTracingSubscriber],
 });
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Request DTOs of the API key endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { Type } from 'class-transformer';
+import { IsArray, IsDate, IsOptional, IsString, IsUUID } from 'class-validator';
+import { RequiredString, Trim } from '@/core/common/validation';
+import { CreateApiKeyOptions } from '@/services/api-key';
+
+/**
+ * Body of `POST /api-keys`
+ */
+export class CreateApiKeyDto implements CreateApiKeyOptions {
+  /** Label of the key */
+  @Trim()
+  @RequiredString()
+  name: string;
+
+  /** Roles granted to the key; defaults to the creator's roles */
+  @IsOptional()
+  @IsArray({ message: '$property must be an array of strings' })
+  @IsString({ each: true, message: '$property must be an array of strings' })
+  roles?: string[];
+
+  /** Permissions granted to the key; only ones the creator holds */
+  @IsOptional()
+  @IsArray({ message: '$property must be an array of strings' })
+  @IsString({ each: true, message: '$property must be an array of strings' })
+  permissions?: string[];
+
+  /** Tenant the key is restricted to */
+  @IsOptional()
+  @IsUUID(undefined, { message: '$property must be a UUID' })
+  tenantId?: string;
+
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate({ message: '$property must be an ISO 8601 date' })
+  expiresAt?: Date;
+}
+
+/**
+ * Query of `GET /api-keys`
+ */
+export class ListApiKeysQueryDto {
+  /** Only list keys owned by this user */
+  @IsOptional()
+  @IsUUID(undefined, { message: '$property must be a UUID' })
+  ownerId?: string;
+}
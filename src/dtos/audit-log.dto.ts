@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Request DTOs of the audit log endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { IsDate, IsIn, IsInt, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+import { EXPORT_FORMATS, ExportFormat } from '@/core/common/export';
+import { AUDIT_ACTIONS, AuditLogFilters, ListAuditLogsOptions } from '@/services/audit';
+
+/**
+ * Filters shared by searching and exporting the audit log
+ */
+export class AuditLogFiltersQueryDto implements AuditLogFilters {
+  /** Only entries of actions by this user */
+  @IsOptional()
+  @IsUUID(undefined, { message: '$property must be a UUID' })
+  actorId?: string;
+
+  /** Only entries of actions within this tenant */
+  @IsOptional()
+  @IsUUID(undefined, { message: '$property must be a UUID' })
+  tenantId?: string;
+
+  @IsOptional()
+  @IsIn(AUDIT_ACTIONS, { message: `$property must be one of: ${AUDIT_ACTIONS.join(', ')}` })
+  action?: string;
+
+  /** Only entries about this kind of resource, e.g. `user` */
+  @IsOptional()
+  @IsString()
+  targetType?: string;
+
+  /** Only entries about the resource with this ID or name */
+  @IsOptional()
+  @IsString()
+  targetId?: string;
+
+  @IsOptional()
+  @IsDate({ message: '$property must be an ISO 8601 date' })
+  from?: Date;
+
+  @IsOptional()
+  @IsDate({ message: '$property must be an ISO 8601 date' })
+  to?: Date;
+}
+
+/**
+ * Query of `GET /audit-logs`
+ */
+export class ListAuditLogsQueryDto extends AuditLogFiltersQueryDto implements ListAuditLogsOptions {
+  @IsInt({ message: '$property must be an integer between 1 and 200' })
+  @Min(1, { message: '$property must be an integer between 1 and 200' })
+  @Max(200, { message: '$property must be an integer between 1 and 200' })
+  limit: number = 50;
+
+  /** `nextCursor` of the previous page */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+/**
+ * Query of `GET /audit-logs/export`
+ */
+export class ExportAuditLogsQueryDto extends AuditLogFiltersQueryDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: `$property must be one of: ${EXPORT_FORMATS.join(', ')}` })
+  format?: ExportFormat;
+
+  /** Comma-separated columns, checked by `parseExportColumns` */
+  @IsOptional()
+  @IsString()
+  columns?: string;
+}
@@ -0,0 +1,158 @@
+/**
+ * @fileoverview Request DTOs of the authentication endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import {
+  IsByteLength,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+  ValidateIf,
+} from 'class-validator';
+import { EmailAddress, RequiredString, Trim } from '@/core/common/validation';
+
+/**
+ * Minimum length of new passwords
+ * @constant {number}
+ */
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Maximum size of new passwords in bytes; bcrypt ignores everything past the 72nd byte
+ * @constant {number}
+ */
+export const MAX_PASSWORD_BYTES = 72;
+
+/**
+ * Rules of a new password
+ * @returns {PropertyDecorator} The decorator
+ */
+export const NewPassword = (): PropertyDecorator => (target, key) => {
+  IsString()(target, key);
+  MinLength(MIN_PASSWORD_LENGTH, {
+    message: `$property must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+  })(target, key);
+  IsByteLength(0, MAX_PASSWORD_BYTES, {
+    message: `$property must be at most ${MAX_PASSWORD_BYTES} bytes long`,
+  })(target, key);
+};
+
+/**
+ * Body of `POST /auth/register`
+ */
+export class RegisterDto {
+  @EmailAddress()
+  email: string;
+
+  @NewPassword()
+  password: string;
+
+  /** Split into the first and last name, which hold up to 50 characters each */
+  @Trim()
+  @RequiredString()
+  @MaxLength(50)
+  name: string;
+}
+
+/**
+ * Body of `POST /auth/login`
+ */
+export class LoginDto {
+  @EmailAddress()
+  email: string;
+
+  @RequiredString()
+  password: string;
+}
+
+/**
+ * Body of the endpoints that only take an email address
+ */
+export class EmailDto {
+  @EmailAddress()
+  email: string;
+}
+
+/**
+ * Body of the endpoints that only take a token from an emailed link
+ */
+export class TokenDto {
+  @RequiredString()
+  token: string;
+}
+
+/**
+ * Body of `POST /auth/mfa/verify`; takes either an authenticator code or a recovery code
+ */
+export class MfaVerifyDto {
+  @RequiredString()
+  mfaToken: string;
+
+  @ValidateIf(body => body.recoveryCode === undefined)
+  @IsString({ message: 'code or recoveryCode is required' })
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  recoveryCode?: string;
+}
+
+/**
+ * Body of `POST /auth/mfa/enroll/confirm`
+ */
+export class MfaCodeDto {
+  @RequiredString()
+  code: string;
+}
+
+/**
+ * Body of `POST /auth/refresh`
+ */
+export class RefreshTokenDto {
+  @RequiredString()
+  refreshToken: string;
+}
+
+/**
+ * Body of `POST /auth/change-password`
+ */
+export class ChangePasswordDto {
+  @RequiredString()
+  currentPassword: string;
+
+  @NewPassword()
+  newPassword: string;
+}
+
+/**
+ * Body of `POST /auth/reset-password`
+ */
+export class ResetPasswordDto {
+  @RequiredString()
+  token: string;
+
+  @NewPassword()
+  newPassword: string;
+}
+
+/**
+ * Query of the identity provider's redirect back to `GET /auth/oauth/:provider/callback`
+ */
+export class OAuthCallbackQueryDto {
+  @ValidateIf(query => query.error === undefined)
+  @RequiredString()
+  code?: string;
+
+  @ValidateIf(query => query.error === undefined)
+  @RequiredString()
+  state?: string;
+
+  /** Set by the provider when the user didn't complete the sign-in */
+  @IsOptional()
+  @IsString()
+  error?: string;
+}
@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Request DTOs of the self-service profile endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { EmailAddress, RequiredString } from '@/core/common/validation';
+
+/**
+ * Body of `PATCH /me`; the email address is changed through `POST /me/email`
+ */
+export class UpdateProfileDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  lastName?: string;
+}
+
+/**
+ * Body of `POST /me/email`
+ */
+export class ChangeEmailDto {
+  @EmailAddress()
+  email: string;
+
+  /** The user's current password */
+  @RequiredString()
+  password: string;
+}
+
+/**
+ * Body of `DELETE /me`
+ */
+export class DeleteAccountDto {
+  /** The user's password, to confirm the deletion */
+  @RequiredString()
+  password: string;
+}
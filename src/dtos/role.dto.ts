@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Request DTOs of the role management endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { IsArray, IsOptional, IsString } from 'class-validator';
+import { RequiredString, Trim } from '@/core/common/validation';
+
+/**
+ * Body of `POST /roles`
+ */
+export class CreateRoleDto {
+  @Trim()
+  @RequiredString()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  /** Permissions granted by the role; only ones the requester holds */
+  @IsArray({ message: '$property must be an array of strings' })
+  @IsString({ each: true, message: '$property must be an array of strings' })
+  permissions: string[];
+}
+
+/**
+ * Body of `PATCH /roles/:name`; the name of a role can't be changed
+ */
+export class UpdateRoleDto {
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  /** New permissions, replacing the current ones */
+  @IsOptional()
+  @IsArray({ message: '$property must be an array of strings' })
+  @IsString({ each: true, message: '$property must be an array of strings' })
+  permissions?: string[];
+}
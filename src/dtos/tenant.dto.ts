@@ -0,0 +1,116 @@
+/**
+ * @fileoverview Request DTOs of the tenant endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { UserRole } from '@/types';
+import { EmailAddress, RequiredString, ToBoolean, Trim } from '@/core/common/validation';
+
+/**
+ * Maximum length of tenant names and slugs
+ * @constant {number}
+ */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Message of an invalid tenant member role
+ */
+const TENANT_ROLE_MESSAGE = `$property must be one of: ${Object.values(UserRole).join(', ')}`;
+
+/**
+ * Body of `POST /tenants`
+ */
+export class CreateTenantDto {
+  @Trim()
+  @RequiredString()
+  @MaxLength(MAX_NAME_LENGTH)
+  name: string;
+
+  /** URL-friendly identifier, derived from the name when omitted */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  slug?: string;
+}
+
+/**
+ * Body of `PATCH /tenants/:tenantId`
+ */
+export class UpdateTenantDto {
+  @IsOptional()
+  @Trim()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(MAX_NAME_LENGTH)
+  slug?: string;
+}
+
+/**
+ * Query of `GET /tenants`
+ */
+export class ListTenantsQueryDto {
+  /** `true` to list every tenant, which requires the `tenants:read` permission */
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean({ message: '$property must be true or false' })
+  all?: boolean;
+}
+
+/**
+ * Body of `PATCH /tenants/:tenantId/members/:userId`
+ */
+export class UpdateMemberDto {
+  @IsEnum(UserRole, { message: TENANT_ROLE_MESSAGE })
+  role: UserRole;
+}
+
+/**
+ * Body of `POST /tenants/:tenantId/invitations`
+ */
+export class InviteMemberDto {
+  @EmailAddress()
+  email: string;
+
+  /** Role the invitee gets; only admins can invite admins */
+  @IsEnum(UserRole, { message: TENANT_ROLE_MESSAGE })
+  role: UserRole = UserRole.USER;
+}
+
+/**
+ * Body of `PUT /tenants/:tenantId/identity-provider`
+ */
+export class SetIdentityProviderDto {
+  /** Issuer URL of the OIDC provider; the API reads its metadata, so only HTTPS is accepted */
+  @IsUrl(
+    { protocols: ['https'], require_protocol: true },
+    { message: '$property must be an HTTPS URL' }
+  )
+  @MaxLength(255)
+  issuer: string;
+
+  @RequiredString()
+  @MaxLength(255)
+  clientId: string;
+
+  @RequiredString()
+  @MaxLength(1000)
+  clientSecret: string;
+}
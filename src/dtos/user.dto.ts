@@ -0,0 +1,197 @@
+/**
+ * @fileoverview Request DTOs of the user management endpoints
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import {
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { EXPORT_FORMATS, ExportFormat } from '@/core/common/export';
+import { EmailAddress, ToBoolean, Trim } from '@/core/common/validation';
+import {
+  ExportUsersOptions,
+  ListUsersOptions,
+  USER_SORT_FIELDS,
+  UserSortField,
+} from '@/services/user';
+import { NewPassword } from './auth.dto';
+
+/**
+ * Route parameters of the endpoints acting on one user
+ */
+export class UserIdParamsDto {
+  @IsUUID(undefined, { message: '$property must be a UUID' })
+  userId: string;
+}
+
+/**
+ * Filters and sorting shared by listing and exporting users
+ */
+export class UserFiltersQueryDto implements ExportUsersOptions {
+  /** `true` to list soft-deleted users instead */
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean({ message: '$property must be true or false' })
+  deleted?: boolean;
+
+  @IsOptional()
+  @IsString()
+  role?: string;
+
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean({ message: '$property must be true or false' })
+  isActive?: boolean;
+
+  @IsOptional()
+  @IsDate({ message: '$property must be an ISO 8601 date' })
+  createdFrom?: Date;
+
+  @IsOptional()
+  @IsDate({ message: '$property must be an ISO 8601 date' })
+  createdTo?: Date;
+
+  /** Case-insensitive substring of the email address */
+  @IsOptional()
+  @Trim()
+  @IsString()
+  search?: string;
+
+  @IsIn(USER_SORT_FIELDS, { message: `$property must be one of: ${USER_SORT_FIELDS.join(', ')}` })
+  sortBy: UserSortField = 'createdAt';
+
+  @IsIn(['asc', 'desc'], { message: '$property must be asc or desc' })
+  order: 'asc' | 'desc' = 'desc';
+}
+
+/**
+ * Query of `GET /users`
+ */
+export class ListUsersQueryDto extends UserFiltersQueryDto implements ListUsersOptions {
+  @IsInt({ message: '$property must be an integer between 1 and 100' })
+  @Min(1, { message: '$property must be an integer between 1 and 100' })
+  @Max(100, { message: '$property must be an integer between 1 and 100' })
+  limit: number = 20;
+
+  /** Number of users to skip, for offset pagination */
+  @IsOptional()
+  @IsInt({ message: '$property must be a non-negative integer' })
+  @Min(0, { message: '$property must be a non-negative integer' })
+  offset?: number;
+
+  /** `nextCursor` of the previous page, for cursor pagination */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+/**
+ * Query of `GET /users/export`
+ */
+export class ExportUsersQueryDto extends UserFiltersQueryDto {
+  @IsOptional()
+  @IsIn(EXPORT_FORMATS, { message: `$property must be one of: ${EXPORT_FORMATS.join(', ')}` })
+  format?: ExportFormat;
+
+  /** Comma-separated columns, checked by `parseExportColumns` */
+  @IsOptional()
+  @IsString()
+  columns?: string;
+}
+
+/**
+ * Body of `POST /users`
+ */
+export class CreateUserDto {
+  @EmailAddress()
+  email: string;
+
+  @NewPassword()
+  password: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  lastName?: string;
+
+  /** Roles of the user; only roles whose permissions the requester holds */
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  roles?: string[];
+
+  /** Whether the account is active without email verification */
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Body of `PATCH /users/:userId`
+ */
+export class UpdateUserDto {
+  @IsOptional()
+  @EmailAddress()
+  email?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  firstName?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  lastName?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Form fields of `POST /users/import`, sent along with the file
+ */
+export class ImportUsersDto {
+  /** `true` to validate and report without importing */
+  @ToBoolean()
+  @IsBoolean({ message: '$property must be true or false' })
+  dryRun: boolean = false;
+
+  /** What to do with rows whose email already exists */
+  @IsIn(['skip', 'update'], { message: '$property must be skip or update' })
+  onDuplicate: 'skip' | 'update' = 'skip';
+
+  /** `true` to send created users a welcome email */
+  @ToBoolean()
+  @IsBoolean({ message: '$property must be true or false' })
+  sendWelcomeEmail: boolean = false;
+}
+
+/**
+ * Body of `POST /users/:userId/erase`
+ */
+export class EraseUserDto {
+  /** Reason or reference of the request, e.g. a ticket number */
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
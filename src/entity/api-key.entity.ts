@@ -0,0 +1,82 @@
+/**
+ * @fileoverview API key entity for machine-to-machine clients
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Keys have the form `coco_<publicId>_<secret>`. The public id identifies the key in
+ * listings and logs; only a SHA-256 hash of the full key is stored.
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from './user.entity';
+
+/**
+ * API key entity class representing the api_keys table in the database
+ */
+@Entity('api_keys')
+export class ApiKey {
+  /** Unique identifier for the API key */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Human readable label, e.g. the integration using the key */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /** Public part of the key, used to look it up and to identify it */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 16 })
+  publicId: string;
+
+  /** SHA-256 hash of the full key (excluded from serialization) */
+  @Column({ type: 'varchar', length: 64 })
+  @Exclude()
+  keyHash: string;
+
+  /** Roles granted to requests made with the key */
+  @Column({ type: 'varchar', length: 50, array: true, default: [] })
+  roles: string[];
+
+  /** Permissions granted to requests made with the key */
+  @Column({ type: 'varchar', length: 50, array: true, default: [] })
+  permissions: string[];
+
+  /** Tenant the key is restricted to, if any */
+  @Column({ type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  /** ID of the user who owns the key; requests made with it act on their behalf */
+  @Column({ type: 'uuid' })
+  ownerId: string;
+
+  /** User who owns the key */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'ownerId' })
+  owner: User;
+
+  /** Timestamp after which the key is rejected, if any */
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  /** Timestamp of the last request made with the key */
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  /** Timestamp of when the key was revoked */
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt: Date | null;
+
+  /** Timestamp of when the key was created */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,83 @@
+/**
+ * @fileoverview Audit log entity recording security-relevant actions
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Entries are append-only: the application never updates or deletes them, and a database
+ * trigger rejects any attempt to. Actors and targets are referenced by ID without foreign
+ * keys, so entries outlive purged users, and no email addresses are stored in them.
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * Field values before and after a change; only the fields that changed are kept
+ */
+export interface AuditChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * Audit log entity class representing the audit_logs table in the database
+ */
+@Entity('audit_logs')
+@Index(['targetType', 'targetId'])
+export class AuditLog {
+  /** Unique identifier for the entry */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** ID of the user who acted, null for anonymous requests and scheduled jobs */
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  /** ID of the API key the actor used, null for user sessions */
+  @Column({ type: 'uuid', nullable: true })
+  apiKeyId: string | null;
+
+  /** ID of the tenant the request was scoped to */
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  tenantId: string | null;
+
+  /** What happened, e.g. `auth.login.failed` or `role.assigned` */
+  @Index()
+  @Column({ type: 'varchar', length: 100 })
+  action: string;
+
+  /** Kind of the affected resource, e.g. `user` or `role` */
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  targetType: string | null;
+
+  /** ID or name of the affected resource */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  targetId: string | null;
+
+  /** Changed fields of the target */
+  @Column({ type: 'jsonb', nullable: true })
+  changes: AuditChanges | null;
+
+  /** Further details of the action, e.g. why a login failed */
+  @Column({ type: 'jsonb', nullable: true })
+  metadata: Record<string, unknown> | null;
+
+  /** IP address of the client */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip: string | null;
+
+  /** User agent of the client */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  userAgent: string | null;
+
+  /** ID of the request, to match the entry with logs */
+  @Column({ type: 'varchar', length: 128, nullable: true })
+  requestId: string | null;
+
+  /** Timestamp of the action */
+  @Index()
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
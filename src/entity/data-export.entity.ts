@@ -0,0 +1,70 @@
+/**
+ * @fileoverview Data export entity tracking GDPR data-subject access exports
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * An export is requested by its user, built in the background into a ZIP archive and
+ * downloaded through an emailed link until it expires.
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from './user.entity';
+
+/**
+ * Lifecycle of an export
+ */
+export type DataExportStatus = 'pending' | 'ready' | 'failed' | 'expired';
+
+/**
+ * Data export entity class representing the data_exports table in the database
+ */
+@Entity('data_exports')
+export class DataExport {
+  /** Unique identifier for the export */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** ID of the user whose data is exported */
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  /** User whose data is exported */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /** Status of the export */
+  @Column({ type: 'varchar', length: 20, default: 'pending' })
+  status: DataExportStatus;
+
+  /** SHA-256 hash of the download token sent by email (excluded from serialization) */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  @Exclude()
+  tokenHash: string | null;
+
+  /** Path of the archive on disk (excluded from serialization) */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  @Exclude()
+  filePath: string | null;
+
+  /** Timestamp after which the archive can no longer be downloaded */
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+
+  /** Timestamp of when the archive was built */
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  /** Timestamp of the request */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
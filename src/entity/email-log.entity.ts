@@ -0,0 +1,41 @@
+/**
+ * @fileoverview Email log entity recording the emails sent to each address
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Only the envelope is kept, never the rendered body, which may contain links with tokens.
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * Email log entity class representing the email_logs table in the database
+ */
+@Entity('email_logs')
+export class EmailLog {
+  /** Unique identifier for the log entry */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Address the email was sent to */
+  @Index()
+  @Column({ type: 'varchar', length: 255 })
+  recipient: string;
+
+  /** Subject of the email */
+  @Column({ type: 'varchar', length: 255 })
+  subject: string;
+
+  /** Name of the template the email was rendered from */
+  @Column({ type: 'varchar', length: 100 })
+  templateName: string;
+
+  /** Whether the email was handed to the mail server (`sent`) or not (`failed`) */
+  @Column({ type: 'varchar', length: 20 })
+  status: 'sent' | 'failed';
+
+  /** Timestamp of the attempt */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Linked identity entity connecting external OAuth2/OIDC accounts to users
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Each row records that the subject `subject` at identity provider `provider`
+ * (e.g. google, github or a tenant's own OIDC provider) signs in as `user`.
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { User } from './user.entity';
+
+/**
+ * Linked identity entity class representing the linked_identities table in the database
+ */
+@Entity('linked_identities')
+@Unique(['provider', 'subject'])
+export class LinkedIdentity {
+  /** Unique identifier for the linked identity */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Name of the identity provider */
+  @Column({ type: 'varchar', length: 50 })
+  provider: string;
+
+  /** Stable user identifier at the provider (the OIDC `sub` claim) */
+  @Column({ type: 'varchar', length: 255 })
+  subject: string;
+
+  /** Email address reported by the provider when the identity was linked */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  email: string | null;
+
+  /** ID of the user this identity signs in as */
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  /** User this identity signs in as */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /** Timestamp of the last sign-in through this identity */
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  /** Timestamp of when the identity was linked */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
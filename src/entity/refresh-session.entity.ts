@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Refresh session entity holding the refresh token of each signed-in device
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Every login starts a session, identified by the family id its refresh tokens carry.
+ * Refreshing rotates the session's token; logging out or reusing a rotated token ends only
+ * that session, so a user can stay signed in on several devices.
+ */
+
+import { Entity, PrimaryColumn, Column, CreateDateColumn, ManyToOne, JoinColumn } from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from './user.entity';
+
+/**
+ * Refresh session entity class representing the refresh_sessions table in the database
+ */
+@Entity('refresh_sessions')
+export class RefreshSession {
+  /** Unique identifier for the session, the `familyId` of its refresh tokens */
+  @PrimaryColumn('uuid')
+  id: string;
+
+  /** ID of the signed-in user */
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  /** Signed-in user */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /** SHA-256 hash of the current refresh token (excluded from serialization) */
+  @Column({ type: 'varchar', length: 64 })
+  @Exclude()
+  tokenHash: string;
+
+  /** Timestamp after which the current refresh token has expired */
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  /** Timestamp of the last refresh */
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt: Date | null;
+
+  /** Timestamp of the login that started the session */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Role entity bundling permissions for permission-based access control
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Users reference roles by name through `User.roles`, so tokens stay small and
+ * editing a role's permissions takes effect without re-issuing tokens.
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Role entity class representing the roles table in the database
+ */
+@Entity('roles')
+export class Role {
+  /** Unique identifier for the role */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Unique name of the role, as stored in `User.roles` */
+  @Column({ type: 'varchar', length: 50, unique: true })
+  name: string;
+
+  /** Human-readable description of the role */
+  @Column({ type: 'varchar', length: 255, default: '' })
+  description: string;
+
+  /** Permissions granted by the role, e.g. `users:read` */
+  @Column({ type: 'varchar', array: true, default: [] })
+  permissions: string[];
+
+  /** Whether the role is built in; built-in roles can't be deleted */
+  @Column({ type: 'boolean', default: false })
+  isSystem: boolean;
+
+  /** Timestamp of when the role was created */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  /** Timestamp of when the role was last updated */
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Tenant identity provider entity holding a tenant's own OIDC sign-in settings
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * A tenant can have one OIDC provider, offered as the identity provider
+ * `tenant-<tenantId>`. Its client secret is stored encrypted and never serialized.
+ */
+
+import { Exclude } from 'class-transformer';
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Tenant } from './tenant.entity';
+
+/**
+ * Tenant identity provider entity class representing the tenant_identity_providers table
+ */
+@Entity('tenant_identity_providers')
+export class TenantIdentityProvider {
+  /** Unique identifier for the provider settings */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** ID of the tenant, which has at most one provider */
+  @Column({ type: 'uuid', unique: true })
+  tenantId: string;
+
+  /** Tenant the provider signs users in for */
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  /** Issuer URL of the OIDC provider */
+  @Column({ type: 'varchar', length: 255 })
+  issuer: string;
+
+  /** Client ID registered at the provider */
+  @Column({ type: 'varchar', length: 255 })
+  clientId: string;
+
+  /** Client secret registered at the provider, encrypted with `encryptSecret` */
+  @Exclude()
+  @Column({ type: 'text' })
+  clientSecret: string;
+
+  /** Timestamp of when the provider was configured */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  /** Timestamp of when the provider settings were last changed */
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Tenant invitation entity for inviting users to join a tenant by email
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { Tenant } from './tenant.entity';
+
+/**
+ * Tenant invitation entity class representing the tenant_invitations table in the database
+ */
+@Entity('tenant_invitations')
+export class TenantInvitation {
+  /** Unique identifier for the invitation */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** ID of the tenant the invitation is for */
+  @Column({ type: 'uuid' })
+  tenantId: string;
+
+  /** Tenant the invitation is for */
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  /** Email address the invitation was sent to */
+  @Column({ type: 'varchar', length: 100 })
+  email: string;
+
+  /** Role the invitee gets within the tenant */
+  @Column({ type: 'varchar', length: 20, default: 'user' })
+  role: string;
+
+  /** SHA-256 hash of the invitation token (excluded from serialization) */
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  @Exclude()
+  tokenHash: string;
+
+  /** ID of the user who sent the invitation */
+  @Column({ type: 'uuid' })
+  invitedById: string;
+
+  /** Timestamp after which the invitation can no longer be accepted */
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  /** Timestamp of when the invitation was accepted */
+  @Column({ type: 'timestamp', nullable: true })
+  acceptedAt: Date | null;
+
+  /** Timestamp of when the invitation was created */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
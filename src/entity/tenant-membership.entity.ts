@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Tenant membership entity linking users to tenants with a per-tenant role
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from 'typeorm';
+import { Tenant } from './tenant.entity';
+import { User } from './user.entity';
+
+/**
+ * Tenant membership entity class representing the tenant_memberships table in the database
+ */
+@Entity('tenant_memberships')
+@Unique(['tenantId', 'userId'])
+export class TenantMembership {
+  /** Unique identifier for the membership */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** ID of the tenant */
+  @Column({ type: 'uuid' })
+  tenantId: string;
+
+  /** Tenant the user belongs to */
+  @ManyToOne(() => Tenant, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'tenantId' })
+  tenant: Tenant;
+
+  /** ID of the member */
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  /** User who belongs to the tenant */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  /** Role of the user within this tenant */
+  @Column({ type: 'varchar', length: 20, default: 'user' })
+  role: string;
+
+  /** Timestamp of when the user joined the tenant */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+}
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Tenant entity for multi-tenant data isolation
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * A tenant is an organization whose data is isolated from other tenants.
+ * Users join tenants through memberships, each with its own role.
+ */
+
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Tenant entity class representing the tenants table in the database
+ */
+@Entity('tenants')
+export class Tenant {
+  /** Unique identifier for the tenant */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Display name of the tenant */
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  /** URL-friendly unique identifier of the tenant */
+  @Column({ type: 'varchar', length: 100, unique: true })
+  slug: string;
+
+  /** Timestamp of when the tenant was created */
+  @CreateDateColumn({ type: 'timestamp' })
+  createdAt: Date;
+
+  /** Timestamp of when the tenant was last updated */
+  @UpdateDateColumn({ type: 'timestamp' })
+  updatedAt: Date;
+}
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview User erasure entity recording GDPR "right to erasure" requests
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * An erasure anonymizes the user's personal data, so the record itself holds none:
+ * the email address is kept only as a hash, to answer whether a given address was erased.
+ */
+
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * User erasure entity class representing the user_erasures table in the database
+ */
+@Entity('user_erasures')
+export class UserErasure {
+  /** Unique identifier for the erasure */
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** ID of the erased user; not a foreign key, the user may since have been purged */
+  @Index({ unique: true })
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  /** SHA-256 hash of the erased email address */
+  @Column({ type: 'varchar', length: 64 })
+  emailHash: string;
+
+  /** ID of the user who carried out the erasure */
+  @Column({ type: 'uuid', nullable: true })
+  requestedById: string | null;
+
+  /** Reason or reference of the request, e.g. a support ticket */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  reason: string | null;
+
+  /** Number of rows anonymized or removed, per table */
+  @Column({ type: 'jsonb' })
+  affectedRows: Record<string, number>;
+
+  /** Timestamp of the erasure */
+  @CreateDateColumn({ type: 'timestamp' })
+  erasedAt: Date;
+}
@@ -23,12 +23,11 @@ import {
   Column,
   CreateDateColumn,
   UpdateDateColumn,
-  BeforeInsert,
-  BeforeUpdate,
+  DeleteDateColumn,
 } from 'typeorm';
 import { Exclude } from 'class-transformer';
 import { logger } from '@/core/common/logger';
-import { hashPassword, verifyPassword } from '@/core/common/bcrypt';
+import { verifyPassword } from '@/core/common/bcrypt';
 
 /**
  * User entity class representing the users table in the database
@@ -52,22 +51,58 @@ export class User {
   @Column({ type: 'varchar', length: 50 })
   lastName: string;
 
-  /** Hashed password (excluded from serialization) */
+  /**
+   * Bcrypt hash of the password (excluded from serialization). Nothing hashes it on save,
+   * so whatever sets a password must assign the result of `hashPassword`.
+   */
   @Column({ type: 'varchar', length: 100 })
   @Exclude()
   password: string;
 
+  /** New email address awaiting verification, replaces `email` once verified */
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  pendingEmail: string | null;
+
+  /** URL path of the user's avatar image */
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  avatarUrl: string | null;
+
   /** Flag indicating if the user account is active */
   @Column({ type: 'boolean', default: false })
   isActive: boolean;
 
-  /** Array of user roles */
-  @Column({ type: 'varchar', length: 20, array: true, default: ['user'] })
+  /** Names of the user's roles; their permissions are defined by Role entities */
+  @Column({ type: 'varchar', length: 50, array: true, default: ['user'] })
   roles: string[];
 
-  /** Refresh token for authentication */
+  /** SHA-256 hash of the pending password reset token (excluded from serialization) */
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  @Exclude()
+  passwordResetToken: string | null;
+
+  /** Expiry of the pending password reset token */
+  @Column({ type: 'timestamp', nullable: true })
+  @Exclude()
+  passwordResetExpiresAt: Date | null;
+
+  /** Flag indicating if TOTP two-factor authentication is enabled */
+  @Column({ type: 'boolean', default: false })
+  mfaEnabled: boolean;
+
+  /** Encrypted TOTP secret, set on enrollment (excluded from serialization) */
   @Column({ type: 'varchar', length: 255, nullable: true })
-  refreshToken: string;
+  @Exclude()
+  mfaSecret: string | null;
+
+  /** SHA-256 hashes of the unused recovery codes (excluded from serialization) */
+  @Column({ type: 'varchar', length: 64, array: true, nullable: true })
+  @Exclude()
+  mfaRecoveryCodes: string[] | null;
+
+  /** Last TOTP time step accepted, so a code can't be replayed */
+  @Column({ type: 'integer', nullable: true })
+  @Exclude()
+  mfaLastUsedStep: number | null;
 
   /** Timestamp of the user's last login */
   @Column({ type: 'timestamp', nullable: true })
@@ -82,17 +117,11 @@ export class User {
   updatedAt: Date;
 
   /**
-   * Automatically hashes the password before inserting or updating the user
-   * @returns {Promise<void>}
+   * Timestamp of when the user was soft-deleted. Deleted users are left out of queries
+   * unless `withDeleted` is set, and purged after the retention period.
    */
-  @BeforeInsert()
-  @BeforeUpdate()
-  async hashPassword(): Promise<void> {
-    logger.info('Hashing password before insert or update');
-    if (this.password) {
-      this.password = await hashPassword(this.password);
-    }
-  }
+  @DeleteDateColumn({ type: 'timestamp', nullable: true })
+  deletedAt: Date | null;
 
   /**
    * Validates a plain text password against the stored hash
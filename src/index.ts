@@ -8,17 +8,52 @@
  */
 
 import { logger } from '@/core/common/logger';
+import { ScheduledJob, scheduleJob } from '@/core/common/scheduler';
+import { startTracing, stopTracing } from '@/core/common/tracing';
+import { trackDatabasePool } from '@/core/db/metrics';
+import { disconnectRedisService } from '@/core/db/redis';
+import auditService from '@/services/audit';
+import authService from '@/services/auth';
+import roleService from '@/services/role';
+import dataExportService from '@/services/data-export';
+import userService, { DELETED_USER_RETENTION_DAYS } from '@/services/user';
 import { AppDataSource } from './data-source';
 import server from './server';
 
 const PORT = process.env.PORT || 5000;
 
+startTracing();
+
 let serverInstance: any;
+let jobs: ScheduledJob[] = [];
+
+/**
+ * Starts the recurring maintenance jobs
+ * @returns {ScheduledJob[]} The scheduled jobs
+ */
+function startJobs(): ScheduledJob[] {
+  const day = 24 * 60 * 60 * 1000;
+
+  return [
+    scheduleJob('purge-deleted-users', 60 * 60 * 1000, async () => {
+      const purged = await userService.purgeDeletedUsers(
+        new Date(Date.now() - DELETED_USER_RETENTION_DAYS * day)
+      );
+      if (purged) {
+        logger.info(`Purged ${purged} deleted users`);
+      }
+    }),
+    scheduleJob('expire-data-exports', 60 * 60 * 1000, () => dataExportService.expireExports()),
+    scheduleJob('expire-refresh-sessions', 60 * 60 * 1000, () => authService.expireSessions()),
+  ];
+}
 
 async function shutdown() {
   logger.info('Received shutdown signal. Starting graceful shutdown...');
 
   try {
+    jobs.forEach(job => job.stop());
+
     if (serverInstance) {
       await new Promise(resolve => {
         serverInstance.close(resolve);
@@ -31,9 +66,16 @@ async function shutdown() {
       logger.info('Database connection closed');
     }
 
+    await disconnectRedisService();
+
+    await stopTracing();
+
+    logger.info('Shutdown complete');
+    await logger.close();
     process.exit(0);
   } catch (error) {
     logger.error('Error during shutdown:', error);
+    await logger.close();
     process.exit(1);
   }
 }
@@ -44,6 +86,11 @@ process.on('SIGINT', shutdown);
 AppDataSource.initialize()
   .then(async () => {
     logger.info('Database initialized successfully');
+    trackDatabasePool(AppDataSource);
+
+    await auditService.installAppendOnlyGuard();
+    await roleService.seedDefaultRoles();
+    jobs = startJobs();
 
     serverInstance = server.listen(PORT, () =>
       logger.info(`Server is running on http://localhost:${PORT}`)
@@ -51,5 +98,6 @@ AppDataSource.initialize()
   })
   .catch(error => {
     logger.error('Error initializing database:', error);
-    process.exit(1);
+    // Write the buffered entries, including this one, before exiting
+    void logger.close().finally(() => process.exit(1));
   });
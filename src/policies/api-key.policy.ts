@@ -0,0 +1,24 @@
+/**
+ * @fileoverview Access policy for API keys
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * - users can revoke their own keys
+ * - holders of `users:write` can revoke anyone's keys
+ */
+
+import { ApiKey } from '@/entity/api-key.entity';
+import { allow, definePolicy, deny } from '@/core/common/policy';
+import roleService from '@/services/role';
+
+/**
+ * Policy for managing API keys
+ */
+export const apiKeyPolicy = definePolicy<ApiKey, 'revoke'>('api-key', {
+  revoke: async ({ subject, resource }) =>
+    resource.ownerId === subject.userId ||
+    (await roleService.hasPermissions(subject, ['users:write']))
+      ? allow()
+      : deny('You can only revoke your own API keys'),
+});
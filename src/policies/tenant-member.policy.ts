@@ -0,0 +1,32 @@
+/**
+ * @fileoverview Access policy for tenant memberships
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * - tenant admins can change members' roles and remove members
+ * - any member can leave the tenant
+ */
+
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { allow, definePolicy, deny } from '@/core/common/policy';
+import { UserRole } from '@/types';
+
+/**
+ * Policy for changing and removing tenant memberships
+ */
+export const tenantMemberPolicy = definePolicy<TenantMembership, 'update' | 'remove'>(
+  'tenant-member',
+  {
+    update: ({ tenant, resource }) =>
+      tenant?.id === resource.tenantId && tenant.role === UserRole.ADMIN
+        ? allow()
+        : deny("Only tenant admins can change members' roles"),
+
+    remove: ({ subject, tenant, resource }) =>
+      resource.userId === subject.userId ||
+      (tenant?.id === resource.tenantId && tenant.role === UserRole.ADMIN)
+        ? allow()
+        : deny('Only tenant admins can remove other members'),
+  }
+);
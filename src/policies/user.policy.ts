@@ -0,0 +1,72 @@
+/**
+ * @fileoverview Access policy for user accounts
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * - users can view and edit their own profile and delete their own account
+ * - tenant admins and managers can view and edit members of their tenant;
+ *   managers can't edit tenant admins
+ * - holders of `users:read` / `users:write` can view / edit and delete any user
+ */
+
+import { User } from '@/entity/user.entity';
+import { allow, definePolicy, deny, PolicyContext } from '@/core/common/policy';
+import roleService from '@/services/role';
+import tenantService from '@/services/tenant';
+import { UserRole } from '@/types';
+
+/**
+ * Checks whether the subject is the user itself
+ * @param {PolicyContext<User>} context - The policy context
+ * @returns {boolean} True for the user's own account
+ */
+const isSelf = ({ subject, resource }: PolicyContext<User>): boolean =>
+  subject.userId === resource.id;
+
+/**
+ * Checks whether the subject manages the user within the current tenant
+ * @param {PolicyContext<User>} context - The policy context
+ * @param {boolean} editing - Whether the user is being modified
+ * @returns {Promise<boolean>} True if the subject is a tenant admin or manager and the
+ * user is a member they may manage
+ */
+const managesInTenant = async (
+  { tenant, resource }: PolicyContext<User>,
+  editing: boolean
+): Promise<boolean> => {
+  if (!tenant || (tenant.role !== UserRole.ADMIN && tenant.role !== UserRole.MANAGER)) {
+    return false;
+  }
+
+  const membership = await tenantService.getMembership(tenant.id, resource.id);
+  if (!membership) {
+    return false;
+  }
+
+  return !editing || tenant.role === UserRole.ADMIN || membership.role !== UserRole.ADMIN;
+};
+
+/**
+ * Policy for reading, updating and deleting user accounts
+ */
+export const userPolicy = definePolicy<User, 'read' | 'update' | 'delete'>('user', {
+  read: async context =>
+    isSelf(context) ||
+    (await roleService.hasPermissions(context.subject, ['users:read'])) ||
+    (await managesInTenant(context, false))
+      ? allow()
+      : deny('You can only view your own profile or users you manage'),
+
+  update: async context =>
+    isSelf(context) ||
+    (await roleService.hasPermissions(context.subject, ['users:write'])) ||
+    (await managesInTenant(context, true))
+      ? allow()
+      : deny('You can only edit your own profile or users you manage'),
+
+  delete: async context =>
+    isSelf(context) || (await roleService.hasPermissions(context.subject, ['users:write']))
+      ? allow()
+      : deny('Only the account owner or a user administrator can delete this account'),
+});
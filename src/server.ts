@@ -15,25 +15,39 @@ import path from 'path';
 //
 import { v1 } from './controllers/v1';
 import { HTTP_OK } from './core/common/constants';
-import errorHandler from './core/common/error-handler';
+import errorHandler, { notFoundHandler, TooManyRequestsError } from './core/common/error-handler';
 import { requestLogger } from './core/common/logger';
+import { metricsHandler, metricsMiddleware } from './core/common/metrics';
+import { requestContext } from './core/common/request-context';
+import { tracingMiddleware } from './core/common/tracing';
 import { CSPPolicy, staticFilesMiddleware } from './templates';
+import { UPLOAD_DIR, UPLOAD_URL_PATH } from './core/common/upload';
 
 /**
  * Express server instance for handling HTTP requests
  */
 const server = app();
 
+// Assign the request ID and start the trace span first, so everything after them,
+// including body parsing errors, logs both
+server.use(requestContext);
+server.use(tracingMiddleware);
+server.use(metricsMiddleware);
+
 // Configure middleware for parsing JSON and URL-encoded bodies
 server.use(app.json());
 server.use(app.urlencoded({ extended: true }));
 server.use(requestLogger);
 
+// Serve Prometheus metrics before rate limiting, so scrapes are never throttled
+server.get('/metrics', metricsHandler);
+
 // Configure rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
   max: 100, // Limit each IP to 100 requests per windowMs
-  message: 'Too many requests from this IP, please try again later.',
+  handler: (req, res, next) =>
+    next(new TooManyRequestsError('Too many requests from this IP, please try again later.')),
   standardHeaders: true,
   legacyHeaders: false,
 });
@@ -42,8 +56,8 @@ const limiter = rateLimit({
 const corsOptions = {
   origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
-  exposedHeaders: ['Content-Range', 'X-Content-Range'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'X-Tenant-Id', 'X-Request-Id'],
+  exposedHeaders: ['Content-Range', 'X-Content-Range', 'X-Request-Id'],
   credentials: true,
   maxAge: 86400, // 24 hours
 };
@@ -75,6 +89,15 @@ server.set('views', path.join(__dirname, 'views'));
 // Serve static files with security headers
 server.use('/static', staticFilesMiddleware(app));
 
+// Serve uploaded files such as avatars; nosniff stops browsers from treating them as anything else
+server.use(
+  UPLOAD_URL_PATH,
+  app.static(UPLOAD_DIR, {
+    maxAge: '1d',
+    setHeaders: res => res.setHeader('X-Content-Type-Options', 'nosniff'),
+  })
+);
+
 server.get('/', (req, res) => {
   res.status(HTTP_OK).send('Hello World from version 1 of the API');
 });
@@ -84,6 +107,8 @@ server.get('/', (req, res) => {
  */
 server.use('/api/v1', v1);
 
+// Answer unknown routes and every error as problem details
+server.use(notFoundHandler);
 server.use(errorHandler);
 
 export default server;
@@ -0,0 +1,220 @@
+/**
+ * @fileoverview API key service for managing machine-to-machine credentials
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * This service handles:
+ * - Creating keys scoped to roles, permissions and optionally a tenant
+ * - Listing and revoking keys, recording creations and revocations in the audit log
+ * - Resolving a presented key into the same session payload a JWT produces
+ */
+
+import { randomBytes } from 'crypto';
+import { IsNull } from 'typeorm';
+import { AppDataSource } from '@/data-source';
+import { ApiKey } from '@/entity/api-key.entity';
+import auditService from '../audit';
+import roleService from '../role';
+import { HTTP_BAD_REQUEST, HTTP_FORBIDDEN, HTTP_NOT_FOUND } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+import { authorize } from '@/core/common/policy';
+import { grantsPermission } from '@/core/common/permissions';
+import { generateOpaqueToken, hashToken, matchesTokenHash } from '@/core/common/token';
+import { apiKeyPolicy } from '@/policies/api-key.policy';
+import { JWTPayload } from '@/types';
+
+/**
+ * Prefix that makes keys recognizable, e.g. by secret scanners
+ * @constant {string}
+ */
+export const API_KEY_PREFIX = 'coco_';
+
+/**
+ * Minimum interval between `lastUsedAt` writes for a key, in milliseconds
+ * @constant {number}
+ */
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+const API_KEY_PATTERN = new RegExp(`^${API_KEY_PREFIX}([a-f0-9]{12})_([A-Za-z0-9_-]{43})$`);
+
+/**
+ * Options for creating an API key
+ */
+export interface CreateApiKeyOptions {
+  name: string;
+  roles?: string[];
+  permissions?: string[];
+  tenantId?: string | null;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Service class responsible for API key creation, listing, revocation and authentication
+ */
+export class ApiKeyService {
+  private apiKeyRepository = AppDataSource.getRepository(ApiKey);
+
+  /**
+   * Creates an API key owned by the requesting user.
+   * A key can't be granted roles, permissions or a tenant its owner doesn't have.
+   * @param {JWTPayload} owner - The session of the user creating the key
+   * @param {CreateApiKeyOptions} options - Name, scopes and expiry of the key
+   * @returns {Promise<{apiKey: ApiKey, key: string}>} The stored key and the plain key, shown only once
+   * @throws {Error} If the requested scopes exceed the owner's
+   */
+  public async createKey(
+    owner: JWTPayload,
+    options: CreateApiKeyOptions
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const roles = options.roles ?? owner.roles ?? [];
+    const ownerRoles = owner.roles ?? [];
+    const escalated = roles.filter(role => !ownerRoles.includes(role));
+
+    if (escalated.length) {
+      throwError(`Cannot grant roles you don't have: ${escalated.join(', ')}`, HTTP_FORBIDDEN);
+    }
+
+    await roleService.assertCanGrant(options.permissions ?? [], owner);
+
+    if (options.tenantId && owner.tenantId && options.tenantId !== owner.tenantId) {
+      throwError('Cannot scope a key to another tenant', HTTP_FORBIDDEN);
+    }
+
+    if (options.expiresAt && options.expiresAt <= new Date()) {
+      throwError('expiresAt must be in the future', HTTP_BAD_REQUEST);
+    }
+
+    const publicId = randomBytes(6).toString('hex');
+    const key = `${API_KEY_PREFIX}${publicId}_${generateOpaqueToken()}`;
+
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        name: options.name,
+        publicId,
+        keyHash: hashToken(key),
+        roles,
+        permissions: options.permissions ?? [],
+        tenantId: options.tenantId ?? owner.tenantId ?? null,
+        ownerId: owner.userId,
+        expiresAt: options.expiresAt ?? null,
+      })
+    );
+    await auditService.record({
+      action: 'api_key.created',
+      actor: owner,
+      targetType: 'api_key',
+      targetId: apiKey.id,
+      metadata: { name: apiKey.name, roles, permissions: apiKey.permissions },
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * Lists API keys, newest first
+   * @param {string} [ownerId] - Only list keys of this owner; all keys when omitted
+   * @returns {Promise<ApiKey[]>} The keys, including revoked and expired ones
+   */
+  public async listKeys(ownerId?: string): Promise<ApiKey[]> {
+    return await this.apiKeyRepository.find({
+      where: ownerId ? { ownerId } : {},
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Revokes an API key, as allowed by the API key policy
+   * @param {string} id - The ID of the key
+   * @param {JWTPayload} requester - The session of the user revoking the key
+   * @returns {Promise<ApiKey>} The revoked key
+   * @throws {Error} If the key is not found or the requester may not revoke it
+   */
+  public async revokeKey(id: string, requester: JWTPayload): Promise<ApiKey> {
+    const apiKey = await this.apiKeyRepository.findOne({ where: { id } });
+
+    if (!apiKey) {
+      throwError('API key not found', HTTP_NOT_FOUND);
+    }
+
+    await authorize(requester, 'revoke', apiKeyPolicy, apiKey);
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await this.apiKeyRepository.save(apiKey);
+      await auditService.record({
+        action: 'api_key.revoked',
+        actor: requester,
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metadata: { ownerId: apiKey.ownerId },
+      });
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Resolves a presented API key into a session payload.
+   * The key's roles and permissions are narrowed to those its owner still holds, so
+   * taking a role away from a user also takes it away from their keys.
+   * @param {string} key - The key from the request
+   * @returns {Promise<JWTPayload | null>} The session payload, or null if the key is
+   * malformed, unknown, revoked or expired, or its owner is deleted or deactivated
+   */
+  public async authenticate(key: string): Promise<JWTPayload | null> {
+    const match = API_KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { publicId: match[1], revokedAt: IsNull() },
+      relations: { owner: true },
+    });
+
+    // Keys of deleted or deactivated users stop working; the owner relation doesn't load
+    // soft-deleted users
+    if (!apiKey?.owner?.isActive || !matchesTokenHash(key, apiKey.keyHash)) {
+      return null;
+    }
+
+    const now = new Date();
+    if (apiKey.expiresAt && apiKey.expiresAt <= now) {
+      return null;
+    }
+
+    // Usage tracking is best-effort and throttled so busy keys don't write on every request
+    if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION) {
+      this.apiKeyRepository
+        .update(apiKey.id, { lastUsedAt: now })
+        .catch(error => logger.error('Failed to record API key usage:', error));
+    }
+
+    const ownerRoles = apiKey.owner.roles;
+    const ownerPermissions = await roleService.getPermissionsForRoles(ownerRoles);
+
+    return {
+      userId: apiKey.ownerId,
+      email: apiKey.owner.email,
+      roles: apiKey.roles.filter(role => ownerRoles.includes(role)),
+      permissions: apiKey.permissions.filter(permission =>
+        grantsPermission(ownerPermissions, permission)
+      ),
+      tenantId: apiKey.tenantId ?? undefined,
+      apiKeyId: apiKey.id,
+    };
+  }
+
+  /**
+   * Checks whether a credential looks like an API key rather than a JWT
+   * @param {string} credential - The credential from the request
+   * @returns {boolean} True if the credential has the API key prefix
+   */
+  public isApiKey(credential: string): boolean {
+    return credential.startsWith(API_KEY_PREFIX);
+  }
+}
+
+export default new ApiKeyService();
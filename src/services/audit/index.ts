@@ -0,0 +1,335 @@
+/**
+ * @fileoverview Audit service for recording and querying security-relevant actions
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * This service handles:
+ * - Recording who did what to which resource, from where, with the fields it changed
+ * - Making the audit log append-only at the database level
+ * - Listing and exporting entries for administrators
+ *
+ * The actor, tenant, client address and request ID are taken from the request and tenant
+ * contexts unless given. Recording never fails the action being audited: errors are logged.
+ */
+
+import { SelectQueryBuilder } from 'typeorm';
+import { HTTP_BAD_REQUEST } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+import { getRequestContext } from '@/core/common/request-context';
+import { getCurrentTenantId } from '@/core/db/tenant-context';
+import { AppDataSource } from '@/data-source';
+import { AuditChanges, AuditLog } from '@/entity/audit-log.entity';
+import { JWTPayload } from '@/types';
+
+/**
+ * Actions recorded in the audit log
+ * @constant {string[]}
+ */
+export const AUDIT_ACTIONS = [
+  'auth.login.succeeded',
+  'auth.login.failed',
+  'auth.password.changed',
+  'auth.password.reset',
+  'auth.email.changed',
+  'auth.mfa.reset',
+  'auth.account.unlocked',
+  'auth.sessions.revoked',
+  'user.created',
+  'user.updated',
+  'user.deleted',
+  'user.restored',
+  'user.erased',
+  'user.purged',
+  'user.imported',
+  'role.created',
+  'role.updated',
+  'role.deleted',
+  'role.assigned',
+  'role.unassigned',
+  'api_key.created',
+  'api_key.revoked',
+] as const;
+
+/**
+ * An action recorded in the audit log
+ */
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+/**
+ * Columns of audit log exports
+ * @constant {string[]}
+ */
+export const AUDIT_EXPORT_COLUMNS = [
+  'id',
+  'createdAt',
+  'action',
+  'actorId',
+  'apiKeyId',
+  'tenantId',
+  'targetType',
+  'targetId',
+  'changes',
+  'metadata',
+  'ip',
+  'userAgent',
+  'requestId',
+] as const;
+
+/**
+ * Fields whose values never go into the audit log; a change to them shows as `[REDACTED]`
+ */
+const REDACTED_FIELDS = new Set([
+  'password',
+  'passwordResetToken',
+  'mfaSecret',
+  'mfaRecoveryCodes',
+  'tokenHash',
+]);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * An action to record
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  /** Who acted; defaults to the session of the current request, null for nobody */
+  actor?: Pick<JWTPayload, 'userId' | 'apiKeyId'> | null;
+  targetType?: 'user' | 'role' | 'api_key';
+  targetId?: string;
+  /** The target before the action; compared with `after` to record the changed fields */
+  before?: object;
+  /** The target after the action */
+  after?: object;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Filters for listing and exporting audit log entries
+ */
+export interface AuditLogFilters {
+  actorId?: string;
+  tenantId?: string;
+  action?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Filters and pagination for listing audit log entries, newest first
+ */
+export interface ListAuditLogsOptions extends AuditLogFilters {
+  limit: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+/**
+ * A page of audit log entries
+ */
+export interface AuditLogPage {
+  entries: AuditLog[];
+  pagination: {
+    limit: number;
+    hasMore: boolean;
+    /** Cursor of the next page, null on the last page */
+    nextCursor: string | null;
+  };
+}
+
+/**
+ * Collects the fields that differ between two versions of a resource. Secrets are
+ * replaced with `[REDACTED]`, so the log shows that they changed but not their values.
+ * @param {object} [before] - The resource before the change
+ * @param {object} [after] - The resource after the change
+ * @returns {AuditChanges} The changed fields
+ */
+const diff = (before: object = {}, after: object = {}): AuditChanges => {
+  const changes: AuditChanges = { before: {}, after: {} };
+  const oldValues = before as Record<string, unknown>;
+  const newValues = after as Record<string, unknown>;
+
+  for (const field of new Set([...Object.keys(oldValues), ...Object.keys(newValues)])) {
+    if (JSON.stringify(oldValues[field]) === JSON.stringify(newValues[field])) {
+      continue;
+    }
+    const redact = (value: unknown) =>
+      REDACTED_FIELDS.has(field) && value !== undefined && value !== null ? '[REDACTED]' : value;
+
+    if (field in oldValues) {
+      changes.before[field] = redact(oldValues[field]);
+    }
+    if (field in newValues) {
+      changes.after[field] = redact(newValues[field]);
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Service class responsible for the audit log
+ */
+export class AuditService {
+  private auditRepository = AppDataSource.getRepository(AuditLog);
+
+  /**
+   * Installs the trigger that rejects updates and deletes of audit log entries.
+   * Safe to run on every startup.
+   * @returns {Promise<void>}
+   */
+  public async installAppendOnlyGuard(): Promise<void> {
+    await AppDataSource.query(`
+      CREATE OR REPLACE FUNCTION audit_logs_append_only() RETURNS trigger AS $$
+      BEGIN
+        RAISE EXCEPTION 'audit_logs is append-only';
+      END;
+      $$ LANGUAGE plpgsql
+    `);
+    await AppDataSource.query('DROP TRIGGER IF EXISTS audit_logs_append_only ON "audit_logs"');
+    await AppDataSource.query(
+      'CREATE TRIGGER audit_logs_append_only BEFORE UPDATE OR DELETE ON "audit_logs" ' +
+        'FOR EACH ROW EXECUTE FUNCTION audit_logs_append_only()'
+    );
+  }
+
+  /**
+   * Records an action. Failures are logged, never thrown.
+   * @param {AuditEntry} entry - The action
+   * @returns {Promise<void>}
+   */
+  public async record(entry: AuditEntry): Promise<void> {
+    const context = getRequestContext();
+    const actor = entry.actor !== undefined ? entry.actor : context?.actor;
+
+    try {
+      await this.auditRepository.insert({
+        action: entry.action,
+        actorId: actor?.userId ?? null,
+        apiKeyId: actor?.apiKeyId ?? null,
+        tenantId: getCurrentTenantId() ?? null,
+        targetType: entry.targetType ?? null,
+        targetId: entry.targetId ?? null,
+        changes: entry.before || entry.after ? diff(entry.before, entry.after) : null,
+        metadata: entry.metadata ?? null,
+        ip: context?.ip ?? null,
+        userAgent: context?.userAgent ?? null,
+        requestId: context?.requestId ?? null,
+      });
+    } catch (error) {
+      logger.error(`Failed to record audit entry ${entry.action}:`, error);
+    }
+  }
+
+  /**
+   * Lists audit log entries matching the filters, newest first, one page at a time
+   * @param {ListAuditLogsOptions} options - Filters and pagination
+   * @returns {Promise<AuditLogPage>} The page of entries
+   * @throws {Error} If the cursor is invalid
+   */
+  public async listEntries(options: ListAuditLogsOptions): Promise<AuditLogPage> {
+    const query = this.auditRepository.createQueryBuilder('entry');
+    this.applyFilters(query, options);
+
+    if (options.cursor !== undefined) {
+      const id = Buffer.from(options.cursor, 'base64url').toString();
+      if (!UUID_PATTERN.test(id)) {
+        throwError('Invalid pagination cursor', HTTP_BAD_REQUEST);
+      }
+      this.whereBefore(query, id);
+    }
+
+    // One extra row tells whether there is a next page
+    const rows = await query
+      .orderBy('entry.createdAt', 'DESC')
+      .addOrderBy('entry.id', 'DESC')
+      .limit(options.limit + 1)
+      .getMany();
+    const hasMore = rows.length > options.limit;
+    const entries = rows.slice(0, options.limit);
+
+    return {
+      entries,
+      pagination: {
+        limit: options.limit,
+        hasMore,
+        nextCursor: hasMore
+          ? Buffer.from(entries[entries.length - 1].id).toString('base64url')
+          : null,
+      },
+    };
+  }
+
+  /**
+   * Reads every entry matching the filters, newest first, fetching them from the database
+   * in batches so exports don't hold the whole log in memory
+   * @param {AuditLogFilters} filters - The filters
+   * @param {number} [batchSize] - Number of entries fetched per query
+   * @returns {AsyncGenerator<AuditLog>} The entries
+   */
+  public async *streamEntries(
+    filters: AuditLogFilters,
+    batchSize: number = 500
+  ): AsyncGenerator<AuditLog> {
+    let lastId: string | undefined;
+
+    do {
+      const query = this.auditRepository.createQueryBuilder('entry');
+      this.applyFilters(query, filters);
+      if (lastId) {
+        this.whereBefore(query, lastId);
+      }
+
+      const batch = await query
+        .orderBy('entry.createdAt', 'DESC')
+        .addOrderBy('entry.id', 'DESC')
+        .limit(batchSize)
+        .getMany();
+
+      yield* batch;
+      lastId = batch.length === batchSize ? batch[batch.length - 1].id : undefined;
+    } while (lastId);
+  }
+
+  /**
+   * Adds the filters to an audit log query
+   * @private
+   * @param {SelectQueryBuilder<AuditLog>} query - The query
+   * @param {AuditLogFilters} filters - The filters
+   */
+  private applyFilters(query: SelectQueryBuilder<AuditLog>, filters: AuditLogFilters): void {
+    for (const field of ['actorId', 'tenantId', 'action', 'targetType', 'targetId'] as const) {
+      if (filters[field] !== undefined) {
+        query.andWhere(`entry.${field} = :${field}`, { [field]: filters[field] });
+      }
+    }
+    if (filters.from) {
+      query.andWhere('entry.createdAt >= :from', { from: filters.from });
+    }
+    if (filters.to) {
+      query.andWhere('entry.createdAt <= :to', { to: filters.to });
+    }
+  }
+
+  /**
+   * Restricts an audit log query, sorted newest first, to the entries older than the
+   * given one (keyset pagination)
+   * @private
+   * @param {SelectQueryBuilder<AuditLog>} query - The query
+   * @param {string} id - ID of the last entry already read
+   */
+  private whereBefore(query: SelectQueryBuilder<AuditLog>, id: string): void {
+    // Row comparison against the entry's own values keeps full timestamp precision
+    query.andWhere(
+      '(entry.createdAt, entry.id) < ' +
+        '(SELECT "before"."createdAt", "before"."id" FROM "audit_logs" "before" WHERE "before"."id" = :beforeId)',
+      { beforeId: id }
+    );
+  }
+}
+
+export default new AuditService();
@@ -5,83 +5,405 @@
  * @see {@link https://github.com/fasunle}
  */
 
+import { randomUUID } from 'crypto';
+import { LessThan } from 'typeorm';
+import { AppDataSource } from '@/data-source';
+import { RefreshSession } from '@/entity/refresh-session.entity';
 import { User } from '@/entity/user.entity';
-import { UserService } from '../user';
-import { HTTP_BAD_REQUEST, HTTP_NOT_FOUND, HTTP_UNAUTHENTICATED } from '@/core/common/constants';
-import { throwError } from '@/core/common/error-handler';
-import { hashPassword } from '@/core/common/bcrypt';
+import userService, { UserService } from '../user';
+import emailService, { EmailService } from '../email';
+import lockoutService, { LockoutService, LoginAttempt } from '../lockout';
+import mfaService, { MfaService } from '../mfa';
+import auditService, { AuditService } from '../audit';
+import {
+  EMAIL_NOT_VERIFIED_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_FORBIDDEN,
+  HTTP_NOT_FOUND,
+  HTTP_UNAUTHENTICATED,
+} from '@/core/common/constants';
+import { AppError, throwError } from '@/core/common/error-handler';
+import { DUMMY_PASSWORD_HASH, hashPassword } from '@/core/common/bcrypt';
+import {
+  ACCESS_TOKEN_TTL,
+  generateEmailVerificationToken,
+  generateMfaToken,
+  generateRefreshToken,
+  generateToken,
+  MFA_TOKEN_TTL,
+  REFRESH_TOKEN_TTL,
+  verifyEmailVerificationToken,
+  verifyMfaToken,
+  verifyRefreshToken,
+} from '@/core/common/jwt';
+import { logger } from '@/core/common/logger';
+import { generateOpaqueToken, hashToken, matchesTokenHash } from '@/core/common/token';
+import {
+  consumeToken,
+  isTokenRevoked,
+  revokeAllUserTokens,
+  revokeToken,
+} from '@/core/common/token-revocation';
+import { AuthTokens, JWTPayload, MfaChallenge } from '@/types';
+import { RegisterDto } from '@/dtos/auth.dto';
+
+/**
+ * Base URL of the client application, used to build links sent by email
+ * @constant {string}
+ */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Password reset token lifetime in milliseconds (24 hours, as stated in the email)
+ * @constant {number}
+ */
+const PASSWORD_RESET_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether users are emailed when their account gets locked after failed logins
+ * @constant {boolean}
+ */
+const NOTIFY_ACCOUNT_LOCKED = process.env.LOCKOUT_NOTIFY_EMAIL === 'true';
 
 /**
  * Service class responsible for handling all authentication-related operations
  * including login, signup, password management and verification
  */
 export class AuthService {
-  constructor(private userService: UserService) {
+  private refreshSessionRepository = AppDataSource.getRepository(RefreshSession);
+
+  constructor(
+    private userService: UserService,
+    private emailService: EmailService,
+    private lockoutService: LockoutService,
+    private mfaService: MfaService,
+    private auditService: AuditService
+  ) {
     this.userService = userService;
+    this.emailService = emailService;
+    this.lockoutService = lockoutService;
+    this.mfaService = mfaService;
+    this.auditService = auditService;
   }
 
   /**
-   * Authenticates a user with their email and password
+   * Authenticates a user with their email and password.
+   * Failed attempts are throttled per account and per IP by the LockoutService, and
+   * accounts whose email has not been verified are refused with an EmailNotVerifiedError.
+   * Failures are audited; successes are recorded once the session starts.
    * @param {string} email - The user's email address
    * @param {string} password - The user's password
+   * @param {string} [ip] - The client IP address, used for per-IP throttling
    * @returns {Promise<User | null>} The authenticated user object or null
-   * @throws {Error} If authentication fails or user not found
+   * @throws {Error} If the credentials are wrong, the account is locked or the email is unverified
    */
-  async login(email: string, password: string): Promise<User | null> {
+  async login(email: string, password: string, ip?: string): Promise<User | null> {
+    let attempt: LoginAttempt;
     try {
-      // Database logic moved to DatabaseService
-      // This will verify credentials and return user data
-      const user = await this.userService.findUserByEmail(email);
+      attempt = await this.lockoutService.beginAttempt(email, ip);
+    } catch (error) {
+      await this.auditLoginFailure(email, 'account_locked');
+      throw error;
+    }
 
-      if (!user) {
-        throwError('User not found', HTTP_NOT_FOUND);
+    let user: User;
+    try {
+      user = await this.verifyCredentials(email, password);
+    } catch (error) {
+      // Only wrong credentials delay or lock the account, not e.g. an unreachable database
+      if (!(error instanceof AppError)) {
+        throw error;
+      }
+      await this.auditLoginFailure(email, 'invalid_credentials');
+      if (await this.lockoutService.recordFailure(attempt)) {
+        await this.notifyAccountLocked(email);
       }
+      throw error;
+    }
 
-      // Password verification should be done using bcrypt
-      const isValidPassword = await this.userService.verifyPassword(password, user.password);
+    await this.lockoutService.reset(email);
 
-      if (!isValidPassword) {
-        throwError('Invalid password', HTTP_UNAUTHENTICATED);
-      }
+    if (!user.isActive) {
+      await this.auditLoginFailure(email, 'email_not_verified', user.id);
+      throwError('Email address has not been verified', HTTP_FORBIDDEN, EMAIL_NOT_VERIFIED_ERROR);
+    }
 
-      return user;
-    } catch (error) {
-      throwError(`Login failed: ${error.message}`, HTTP_UNAUTHENTICATED);
+    return user;
+  }
+
+  /**
+   * Looks up a user and checks their password
+   * @param {string} email - The user's email address
+   * @param {string} password - The user's password
+   * @returns {Promise<User>} The user whose credentials matched
+   * @throws {Error} If the email or password is wrong
+   */
+  private async verifyCredentials(email: string, password: string): Promise<User> {
+    // Database logic moved to DatabaseService
+    // This will verify credentials and return user data
+    const user = await this.userService.findUserByEmail(email);
+
+    // Unknown users are compared against a dummy hash and get the same answer as a wrong
+    // password, so neither the response nor its timing tells whether an account exists
+    const isValidPassword = await this.userService.verifyPassword(
+      password,
+      user?.password ?? DUMMY_PASSWORD_HASH
+    );
+
+    if (!user || !isValidPassword) {
+      throwError('Invalid email or password', HTTP_UNAUTHENTICATED);
     }
+
+    return user;
+  }
+
+  /**
+   * Records a failed login. The attempted address is kept only as a hash, since it may
+   * not belong to any account.
+   * @private
+   * @param {string} email - The email address the login was attempted with
+   * @param {string} reason - Why the login failed
+   * @param {string} [userId] - ID of the account, when known
+   * @returns {Promise<void>}
+   */
+  private async auditLoginFailure(email: string, reason: string, userId?: string): Promise<void> {
+    const targetId = userId ?? (await this.userService.findUserByEmail(email))?.id;
+
+    await this.auditService.record({
+      action: 'auth.login.failed',
+      actor: null,
+      ...(targetId && { targetType: 'user', targetId }),
+      metadata: { reason, emailHash: hashToken(email) },
+    });
+  }
+
+  /**
+   * Emails the owner of an account that was just locked, if notifications are enabled
+   * @param {string} email - The locked account's email address
+   * @returns {Promise<void>}
+   */
+  private async notifyAccountLocked(email: string): Promise<void> {
+    if (!NOTIFY_ACCOUNT_LOCKED) {
+      return;
+    }
+
+    const user = await this.userService.findUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    await this.emailService
+      .sendEmail({
+        to: user.email,
+        subject: 'Your account has been temporarily locked',
+        templateName: 'account-locked',
+        data: {
+          customerName: user.firstName || user.email,
+          resetUrl: `${APP_URL}/forgot-password`,
+        },
+      })
+      .catch(error => logger.error('Failed to send account locked email:', error));
+  }
+
+  /**
+   * Clears failed login counters and any lock on a user's account
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<void>}
+   * @throws {Error} If user not found
+   */
+  async unlockAccount(userId: string): Promise<void> {
+    const user = await this.userService.getUserById(userId);
+
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+
+    await this.lockoutService.reset(user.email);
+    await this.auditService.record({
+      action: 'auth.account.unlocked',
+      targetType: 'user',
+      targetId: user.id,
+    });
   }
 
   /**
-   * Creates a new user account
-   * @param {Object} userData - The user registration data
-   * @param {string} userData.email - User's email address
-   * @param {string} userData.password - User's password
-   * @param {string} userData.name - User's name
+   * Creates a new user account and sends the email verification link
+   * @param {RegisterDto} userData - The registration data, validated by the register endpoint
    * @returns {Promise<User>} The newly created user object
    * @throws {Error} If user already exists or signup fails
    */
-  async signup(userData: {
-    email: string;
-    password: string;
-    name: string;
-    // Add other required fields
-  }): Promise<User> {
-    try {
-      // Check if user already exists
-      const existingUser = await this.userService.findUserByEmail(userData.email);
+  async signup(userData: RegisterDto): Promise<User> {
+    // Check if user already exists
+    const existingUser = await this.userService.findUserByEmail(userData.email, true);
 
-      if (existingUser) {
-        throwError('User already exists', HTTP_BAD_REQUEST);
-      }
+    if (existingUser) {
+      throwError('User already exists', HTTP_BAD_REQUEST);
+    }
 
-      // Create new user in database
-      const newUser = await this.userService.createUser(userData.email, userData.password);
+    // Create new user in database, splitting the display name into first and last names
+    const [firstName = '', ...lastName] = userData.name.trim().split(/\s+/);
+    const newUser = await this.userService.createUser(userData.email, userData.password, {
+      firstName,
+      lastName: lastName.join(' '),
+    });
 
-      return newUser;
-    } catch (error) {
-      throwError(`Signup failed: ${error.message}`, HTTP_BAD_REQUEST);
+    // The account exists either way; a failed email can be retried through the resend endpoint
+    await this.sendVerificationEmail(newUser).catch(error =>
+      logger.error('Failed to send verification email:', error)
+    );
+
+    return newUser;
+  }
+
+  /**
+   * Emails a signed, expiring verification link to the user
+   * @param {User} user - The user whose email is verified
+   * @returns {Promise<void>}
+   */
+  async sendVerificationEmail(user: User): Promise<void> {
+    const token = generateEmailVerificationToken({ userId: user.id, email: user.email });
+
+    await this.emailService.sendEmail({
+      to: user.email,
+      subject: 'Verify your email address',
+      templateName: 'verify-email',
+      data: {
+        customerName: user.firstName || user.email,
+        verificationUrl: `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`,
+      },
+    });
+  }
+
+  /**
+   * Sends a new verification link if the account exists and is not yet verified.
+   * Does nothing otherwise so callers can't tell whether an account exists.
+   * @param {string} email - The user's email address
+   * @returns {Promise<void>}
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await this.userService.findUserByEmail(email);
+
+    if (user && !user.isActive) {
+      await this.sendVerificationEmail(user);
     }
   }
 
+  /**
+   * Activates the account an email verification token was issued for, or completes a
+   * pending email change when the token was issued for the new address
+   * @param {string} token - The verification token from the emailed link
+   * @returns {Promise<User>} The activated user
+   * @throws {Error} If the token is invalid, expired or issued for a previous email address
+   */
+  async verifyEmail(token: string): Promise<User> {
+    const payload = verifyEmailVerificationToken(token);
+    const user = payload && (await this.userService.getUserById(payload.userId));
+
+    if (user && user.pendingEmail && user.pendingEmail === payload.email) {
+      return await this.confirmEmailChange(user);
+    }
+
+    if (!user || user.email !== payload.email) {
+      throwError('Invalid or expired verification token', HTTP_BAD_REQUEST);
+    }
+
+    if (user.isActive) {
+      return user;
+    }
+
+    return await this.userService.updateUser(user.id, { isActive: true });
+  }
+
+  /**
+   * Starts an email change. The new address is kept as pending and only replaces the
+   * current one once the link emailed to it is followed.
+   * @param {string} userId - The ID of the user
+   * @param {string} newEmail - The new email address
+   * @param {string} password - The user's current password
+   * @returns {Promise<User>} The user with the pending email address
+   * @throws {Error} If the password is incorrect or the email address is taken
+   */
+  async requestEmailChange(userId: string, newEmail: string, password: string): Promise<User> {
+    const user = await this.userService.getUserById(userId);
+
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+
+    if (!(await this.userService.verifyPassword(password, user.password))) {
+      throwError('Password is incorrect', HTTP_UNAUTHENTICATED);
+    }
+
+    if (newEmail === user.email) {
+      throwError('New email address must differ from the current one', HTTP_BAD_REQUEST);
+    }
+
+    await this.userService.assertEmailAvailable(newEmail);
+
+    const updated = await this.userService.updateUser(user.id, { pendingEmail: newEmail });
+    const token = generateEmailVerificationToken({ userId: user.id, email: newEmail });
+
+    await this.emailService.sendEmail({
+      to: newEmail,
+      subject: 'Confirm your new email address',
+      templateName: 'confirm-email-change',
+      data: {
+        customerName: user.firstName || user.email,
+        newEmail,
+        verificationUrl: `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`,
+      },
+    });
+
+    return updated;
+  }
+
+  /**
+   * Replaces a user's email address with their verified pending one and ends every
+   * session, since tokens carry the old address
+   * @private
+   * @param {User} user - The user with a pending email address
+   * @returns {Promise<User>} The updated user
+   * @throws {Error} If the address was taken since the change was requested
+   */
+  private async confirmEmailChange(user: User): Promise<User> {
+    const email = user.pendingEmail as string;
+
+    await this.userService.assertEmailAvailable(email, user.id);
+
+    // Following the link proves ownership of the new address, so the account counts as verified
+    const updated = await this.userService.updateUser(user.id, {
+      email,
+      pendingEmail: null,
+      isActive: true,
+    });
+    await this.revokeAllSessions(user.id);
+    await this.auditService.record({
+      action: 'auth.email.changed',
+      actor: { userId: user.id },
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Deletes a user's own account after confirming their password
+   * @param {User} user - The user deleting their account
+   * @param {string} password - The user's password
+   * @returns {Promise<void>}
+   * @throws {Error} If the password is incorrect
+   */
+  async deleteAccount(user: User, password: string): Promise<void> {
+    if (!(await this.confirmPassword(user.email, password))) {
+      throwError('Password is incorrect', HTTP_UNAUTHENTICATED);
+    }
+
+    await this.userService.deleteUser(user.id);
+    // Access tokens outlive the account otherwise
+    await revokeAllUserTokens(user.id);
+  }
+
   /**
    * Changes a user's password after verifying their current password
    * @param {string} userId - The ID of the user
@@ -95,29 +417,95 @@ export class AuthService {
     currentPassword: string,
     newPassword: string
   ): Promise<boolean> {
-    try {
-      // Verify current password
-      const user = await this.userService.getUserById(userId);
+    // Verify current password
+    const user = await this.userService.getUserById(userId);
 
-      if (!user) {
-        throwError('User not found', HTTP_NOT_FOUND);
-      }
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
 
-      const isValidPassword = await this.userService.verifyPassword(currentPassword, user.password);
+    const isValidPassword = await this.userService.verifyPassword(currentPassword, user.password);
 
-      if (!isValidPassword) {
-        throwError('Current password is incorrect', HTTP_UNAUTHENTICATED);
-      }
+    if (!isValidPassword) {
+      throwError('Current password is incorrect', HTTP_UNAUTHENTICATED);
+    }
 
-      const password = await hashPassword(newPassword);
+    const password = await hashPassword(newPassword);
 
-      // Update password in database
-      await this.userService.updateUser(userId, { password });
+    // Update password in database and end every existing session
+    await this.userService.updateUser(userId, { password });
+    await this.revokeAllSessions(userId);
+    await this.auditService.record({
+      action: 'auth.password.changed',
+      targetType: 'user',
+      targetId: userId,
+    });
 
-      return true;
-    } catch (error) {
-      throwError(`Password change failed: ${error.message}`, HTTP_BAD_REQUEST);
+    return true;
+  }
+
+  /**
+   * Starts a password reset by emailing a single-use reset link.
+   * Does nothing for unknown emails so callers can't tell whether an account exists.
+   * @param {string} email - The user's email address
+   * @returns {Promise<void>}
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userService.findUserByEmail(email);
+
+    if (!user) {
+      return;
     }
+
+    // Only the hash is stored; issuing a new token replaces any pending one
+    const token = generateOpaqueToken();
+    await this.userService.updateUser(user.id, {
+      passwordResetToken: hashToken(token),
+      passwordResetExpiresAt: new Date(Date.now() + PASSWORD_RESET_TTL),
+    });
+
+    await this.emailService.sendEmail({
+      to: user.email,
+      subject: 'Reset your password',
+      templateName: 'password-reset',
+      data: {
+        customerName: user.firstName || user.email,
+        resetUrl: `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`,
+      },
+    });
+  }
+
+  /**
+   * Completes a password reset and revokes every existing session of the user
+   * @param {string} token - The reset token from the emailed link
+   * @param {string} newPassword - The new password to set
+   * @returns {Promise<boolean>} True if the password was reset
+   * @throws {Error} If the token is unknown, already used or expired
+   */
+  async resetPassword(token: string, newPassword: string): Promise<boolean> {
+    const user = await this.userService.findUserByPasswordResetToken(hashToken(token));
+
+    if (!user || !user.passwordResetExpiresAt || user.passwordResetExpiresAt < new Date()) {
+      throwError('Invalid or expired password reset token', HTTP_BAD_REQUEST);
+    }
+
+    const password = await hashPassword(newPassword);
+
+    // Clearing the token makes it single-use
+    await this.userService.updateUser(user.id, {
+      password,
+      passwordResetToken: null,
+      passwordResetExpiresAt: null,
+    });
+    await this.revokeAllSessions(user.id);
+    await this.auditService.record({
+      action: 'auth.password.reset',
+      actor: { userId: user.id },
+      targetType: 'user',
+      targetId: user.id,
+    });
+
+    return true;
   }
 
   /**
@@ -128,19 +516,225 @@ export class AuthService {
    * @throws {Error} If user not found or verification fails
    */
   async confirmPassword(email: string, password: string): Promise<boolean> {
-    try {
-      const user = await this.userService.findUserByEmail(email);
+    const user = await this.userService.findUserByEmail(email);
+
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+
+    // Verify password
+    const isValidPassword = await this.userService.verifyPassword(password, user.password);
+
+    return isValidPassword;
+  }
+
+  /**
+   * Starts a session for a user who passed the password step.
+   * Users with two-factor authentication get an "mfa pending" challenge instead of tokens,
+   * to be exchanged through `completeMfaLogin`.
+   * @param {User} user - The authenticated user
+   * @returns {Promise<AuthTokens | MfaChallenge>} The token pair or the MFA challenge
+   */
+  async beginSession(user: User): Promise<AuthTokens | MfaChallenge> {
+    if (user.mfaEnabled) {
+      return {
+        mfaRequired: true,
+        mfaToken: generateMfaToken({ userId: user.id }),
+        expiresIn: MFA_TOKEN_TTL,
+      };
+    }
+
+    await this.recordLoginSuccess(user, { mfa: false });
+
+    return this.issueTokens(user);
+  }
+
+  /**
+   * Completes a two-step login by checking the second factor.
+   * Failed codes count towards the account lockout like failed passwords, and the token is
+   * consumed by the first successful check.
+   * @param {string} mfaToken - The "mfa pending" token returned by `beginSession`
+   * @param {Object} factor - The submitted second factor
+   * @param {string} [factor.code] - A code from the authenticator app
+   * @param {string} [factor.recoveryCode] - One of the user's recovery codes
+   * @param {string} [ip] - The client IP address, used for per-IP throttling
+   * @returns {Promise<{user: User, tokens: AuthTokens}>} The user and their token pair
+   * @throws {Error} If the token is invalid or expired, or the second factor is wrong
+   */
+  async completeMfaLogin(
+    mfaToken: string,
+    factor: { code?: string; recoveryCode?: string },
+    ip?: string
+  ): Promise<{ user: User; tokens: AuthTokens }> {
+    const payload = verifyMfaToken(mfaToken);
+    const user =
+      payload &&
+      !(await isTokenRevoked(payload)) &&
+      (await this.userService.getUserById(payload.userId));
+
+    if (!user) {
+      throwError('Invalid or expired MFA token', HTTP_UNAUTHENTICATED);
+    }
+
+    const attempt = await this.lockoutService.beginAttempt(user.email, ip);
 
-      if (!user) {
-        throwError('User not found', HTTP_NOT_FOUND);
+    if (!(await this.mfaService.verifySecondFactor(user, factor))) {
+      await this.auditLoginFailure(user.email, 'invalid_second_factor', user.id);
+      if (await this.lockoutService.recordFailure(attempt)) {
+        await this.notifyAccountLocked(user.email);
       }
+      throwError('Invalid authentication code', HTTP_UNAUTHENTICATED);
+    }
 
-      // Verify password
-      const isValidPassword = await this.userService.verifyPassword(password, user.password);
+    // The token completes one login only, even if it is submitted again concurrently
+    if (!(await consumeToken(payload))) {
+      throwError('Invalid or expired MFA token', HTTP_UNAUTHENTICATED);
+    }
 
-      return isValidPassword;
-    } catch (error) {
-      throwError(`Password confirmation failed: ${error.message}`, HTTP_BAD_REQUEST);
+    await this.lockoutService.reset(user.email);
+    await this.recordLoginSuccess(user, { mfa: true });
+
+    return { user, tokens: await this.issueTokens(user) };
+  }
+
+  /**
+   * Records a successful login as the user's last login and in the audit log
+   * @private
+   * @param {User} user - The user who logged in
+   * @param {Record<string, unknown>} metadata - Details of the login
+   * @returns {Promise<void>}
+   */
+  private async recordLoginSuccess(user: User, metadata: Record<string, unknown>): Promise<void> {
+    await this.userService.updateUser(user.id, { lastLoginAt: new Date() });
+    await this.auditService.record({
+      action: 'auth.login.succeeded',
+      actor: { userId: user.id },
+      targetType: 'user',
+      targetId: user.id,
+      metadata,
+    });
+  }
+
+  /**
+   * Issues a new access and refresh token pair for a user.
+   * The refresh token is stored hashed in its session; only the most recent token of a
+   * session is valid.
+   * @param {User} user - The authenticated user
+   * @param {string} [familyId] - Session to continue; a new session is started when omitted
+   * @returns {Promise<AuthTokens>} The issued token pair
+   */
+  async issueTokens(user: User, familyId?: string): Promise<AuthTokens> {
+    const sessionId = familyId ?? randomUUID();
+    const accessToken = generateToken({
+      userId: user.id,
+      email: user.email,
+      roles: user.roles,
+      sessionId,
+    });
+    const refreshToken = generateRefreshToken({ userId: user.id, familyId: sessionId });
+
+    await this.refreshSessionRepository.save(
+      this.refreshSessionRepository.create({
+        id: sessionId,
+        userId: user.id,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL * 1000),
+        lastUsedAt: familyId ? new Date() : null,
+      })
+    );
+
+    return { accessToken, refreshToken, tokenType: 'Bearer', expiresIn: ACCESS_TOKEN_TTL };
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair, rotating the refresh token.
+   * Presenting a token that was already rotated ends its session, since that means a
+   * copy of the token is in someone else's hands.
+   * @param {string} refreshToken - The refresh token presented by the client
+   * @returns {Promise<AuthTokens>} The rotated token pair
+   * @throws {Error} If the token is invalid, expired, revoked or reused
+   */
+  async refreshTokens(refreshToken: string): Promise<AuthTokens> {
+    const payload = verifyRefreshToken(refreshToken);
+
+    if (!payload) {
+      throwError('Invalid or expired refresh token', HTTP_UNAUTHENTICATED);
+    }
+
+    const refreshSession = await this.refreshSessionRepository.findOne({
+      where: { id: payload.familyId, userId: payload.userId },
+    });
+    const user = refreshSession && (await this.userService.getUserById(payload.userId));
+
+    if (!refreshSession || !user) {
+      throwError('Refresh token has been revoked', HTTP_UNAUTHENTICATED);
     }
+
+    if (!matchesTokenHash(refreshToken, refreshSession.tokenHash)) {
+      logger.warn(`Refresh token reuse detected for user ${user.id}; revoking token family`);
+      await this.refreshSessionRepository.delete(refreshSession.id);
+      throwError('Refresh token reuse detected', HTTP_UNAUTHENTICATED);
+    }
+
+    return this.issueTokens(user, refreshSession.id);
+  }
+
+  /**
+   * Ends the session behind an access token: the token itself is revoked and the
+   * refresh tokens of its session can no longer be used. Other sessions of the user,
+   * e.g. on other devices, stay signed in.
+   * @param {JWTPayload} session - The decoded access token of the session
+   * @returns {Promise<void>}
+   */
+  async logout(session: JWTPayload): Promise<void> {
+    await revokeToken(session);
+
+    if (session.sessionId) {
+      await this.refreshSessionRepository.delete({
+        id: session.sessionId,
+        userId: session.userId,
+      });
+    } else {
+      // Tokens issued before sessions were tracked don't say which session they belong to
+      await this.revokeRefreshTokens(session.userId);
+    }
+  }
+
+  /**
+   * Revokes every access and refresh token issued to a user so far
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<void>}
+   */
+  async revokeAllSessions(userId: string): Promise<void> {
+    await revokeAllUserTokens(userId);
+    await this.revokeRefreshTokens(userId);
+    await this.auditService.record({
+      action: 'auth.sessions.revoked',
+      targetType: 'user',
+      targetId: userId,
+    });
+  }
+
+  /**
+   * Ends every refresh session of the user so no further refreshes succeed
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<void>}
+   */
+  async revokeRefreshTokens(userId: string): Promise<void> {
+    await this.refreshSessionRepository.delete({ userId });
+  }
+
+  /**
+   * Deletes the sessions whose refresh token has expired
+   * @returns {Promise<number>} The number of deleted sessions
+   */
+  async expireSessions(): Promise<number> {
+    const { affected } = await this.refreshSessionRepository.delete({
+      expiresAt: LessThan(new Date()),
+    });
+
+    return affected ?? 0;
   }
 }
+
+export default new AuthService(userService, emailService, lockoutService, mfaService, auditService);
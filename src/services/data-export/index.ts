@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Data export service for GDPR data-subject access requests
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * This service handles:
+ * - Accepting a user's request for a copy of their data
+ * - Building a ZIP archive of JSON files in the background
+ * - Emailing a download link that only works until the archive expires
+ * - Deleting expired archives
+ *
+ * Archives are kept in `DATA_EXPORT_DIR`, outside the publicly served upload directory,
+ * in one folder per user so a user's archives can be removed together.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import { instanceToPlain } from 'class-transformer';
+import { In, LessThan } from 'typeorm';
+import { CONFLICT_ERROR, HTTP_CONFLICT, HTTP_NOT_FOUND } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+import { generateOpaqueToken, hashToken, matchesTokenHash } from '@/core/common/token';
+import { AppDataSource } from '@/data-source';
+import { ApiKey } from '@/entity/api-key.entity';
+import { AuditLog } from '@/entity/audit-log.entity';
+import { DataExport } from '@/entity/data-export.entity';
+import { EmailLog } from '@/entity/email-log.entity';
+import { LinkedIdentity } from '@/entity/linked-identity.entity';
+import { RefreshSession } from '@/entity/refresh-session.entity';
+import { TenantInvitation } from '@/entity/tenant-invitation.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { User } from '@/entity/user.entity';
+import emailService, { EmailService } from '../email';
+
+/**
+ * Directory export archives are stored in
+ * @constant {string}
+ */
+export const DATA_EXPORT_DIR = path.resolve(process.env.DATA_EXPORT_DIR || 'exports');
+
+/**
+ * How long an archive can be downloaded, in milliseconds (48 hours)
+ * @constant {number}
+ */
+const DATA_EXPORT_TTL = 48 * 60 * 60 * 1000;
+
+/**
+ * How long an export may stay pending before it counts as failed, in milliseconds (1 hour)
+ * @constant {number}
+ */
+const PENDING_TIMEOUT = 60 * 60 * 1000;
+
+/**
+ * Base URL of the API, used to build the emailed download link
+ * @constant {string}
+ */
+const API_URL = process.env.API_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+/**
+ * Removes every export archive of a user, e.g. when the user is erased or purged
+ * @param {string} userId - The ID of the user
+ * @returns {Promise<void>}
+ */
+export const removeUserExports = async (userId: string): Promise<void> => {
+  await fs.promises.rm(path.join(DATA_EXPORT_DIR, userId), { recursive: true, force: true });
+};
+
+/**
+ * Service class responsible for building and serving users' data exports
+ */
+export class DataExportService {
+  private exportRepository = AppDataSource.getRepository(DataExport);
+
+  constructor(private emailService: EmailService) {
+    this.emailService = emailService;
+  }
+
+  /**
+   * Requests an export of the user's data. The archive is built in the background and
+   * a download link is emailed to the user when it is ready.
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<DataExport>} The pending export
+   * @throws {Error} If an export of the user is already being built
+   */
+  public async requestExport(userId: string): Promise<DataExport> {
+    if (await this.exportRepository.exists({ where: { userId, status: 'pending' } })) {
+      throwError('An export of your data is already being prepared', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    const dataExport = await this.exportRepository.save(this.exportRepository.create({ userId }));
+
+    // The request returns right away; the archive can take a while for long-lived accounts
+    setImmediate(() => {
+      this.buildExport(dataExport.id).catch(error =>
+        logger.error(`Failed to build data export ${dataExport.id}:`, error)
+      );
+    });
+
+    return dataExport;
+  }
+
+  /**
+   * Lists the user's exports, newest first
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<DataExport[]>} The exports
+   */
+  public async listExports(userId: string): Promise<DataExport[]> {
+    return await this.exportRepository.find({ where: { userId }, order: { createdAt: 'DESC' } });
+  }
+
+  /**
+   * Resolves an emailed download link to the archive it grants access to
+   * @param {string} exportId - The ID of the export
+   * @param {string} token - The download token from the link
+   * @returns {Promise<string>} Path of the archive
+   * @throws {Error} If the link is unknown, wrong or expired
+   */
+  public async getArchivePath(exportId: string, token: string): Promise<string> {
+    const dataExport = await this.exportRepository.findOne({
+      where: { id: exportId, status: 'ready' },
+    });
+
+    if (
+      !dataExport?.filePath ||
+      !dataExport.expiresAt ||
+      dataExport.expiresAt <= new Date() ||
+      !matchesTokenHash(token, dataExport.tokenHash)
+    ) {
+      throwError('Download link is invalid or has expired', HTTP_NOT_FOUND);
+    }
+
+    return dataExport.filePath as string;
+  }
+
+  /**
+   * Deletes the archives of expired exports and fails exports stuck in pending,
+   * e.g. because the server restarted while building them
+   * @returns {Promise<number>} The number of expired exports
+   */
+  public async expireExports(): Promise<number> {
+    const expired = await this.exportRepository.find({
+      where: { status: 'ready', expiresAt: LessThan(new Date()) },
+    });
+
+    for (const dataExport of expired) {
+      if (dataExport.filePath) {
+        await fs.promises.rm(dataExport.filePath, { force: true });
+      }
+    }
+
+    if (expired.length) {
+      await this.exportRepository.update(
+        { id: In(expired.map(dataExport => dataExport.id)) },
+        { status: 'expired', tokenHash: null, filePath: null }
+      );
+    }
+
+    await this.exportRepository.update(
+      { status: 'pending', createdAt: LessThan(new Date(Date.now() - PENDING_TIMEOUT)) },
+      { status: 'failed' }
+    );
+
+    return expired.length;
+  }
+
+  /**
+   * Builds the archive of an export and emails the download link
+   * @private
+   * @param {string} exportId - The ID of the export
+   * @returns {Promise<void>}
+   */
+  private async buildExport(exportId: string): Promise<void> {
+    const dataExport = await this.exportRepository.findOneOrFail({
+      where: { id: exportId },
+      relations: { user: true },
+    });
+    const { user } = dataExport;
+    const filePath = path.join(DATA_EXPORT_DIR, user.id, `${exportId}.zip`);
+
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await this.writeArchive(filePath, await this.collectData(user));
+
+      const token = generateOpaqueToken();
+      const expiresAt = new Date(Date.now() + DATA_EXPORT_TTL);
+      await this.exportRepository.update(exportId, {
+        status: 'ready',
+        tokenHash: hashToken(token),
+        filePath,
+        expiresAt,
+        completedAt: new Date(),
+      });
+
+      await this.emailService.sendEmail({
+        to: user.email,
+        subject: 'Your data export is ready',
+        templateName: 'data-export-ready',
+        data: {
+          customerName: user.firstName || user.email,
+          downloadUrl: `${API_URL}/api/v1/me/data-exports/${exportId}/download?token=${encodeURIComponent(token)}`,
+          expiresAt: expiresAt.toUTCString(),
+        },
+      });
+    } catch (error) {
+      // Only this export's archive; the user's earlier exports may still be downloadable
+      await fs.promises.rm(filePath, { force: true }).catch(() => undefined);
+      await this.exportRepository.update(exportId, {
+        status: 'failed',
+        tokenHash: null,
+        filePath: null,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Gathers everything held about a user, one entry per file of the archive.
+   * Secrets such as password and token hashes are left out by the entities' `@Exclude()` rules.
+   * @private
+   * @param {User} user - The user
+   * @returns {Promise<Record<string, unknown>>} The data, keyed by file name
+   */
+  private async collectData(user: User): Promise<Record<string, unknown>> {
+    const addresses = [user.email, ...(user.pendingEmail ? [user.pendingEmail] : [])];
+
+    const [identities, sessions, apiKeys, memberships, invitations, emails, auditEntries] =
+      await Promise.all([
+        AppDataSource.getRepository(LinkedIdentity).find({ where: { userId: user.id } }),
+        AppDataSource.getRepository(RefreshSession).find({
+          where: { userId: user.id },
+          order: { createdAt: 'ASC' },
+        }),
+        AppDataSource.getRepository(ApiKey).find({ where: { ownerId: user.id } }),
+        AppDataSource.getRepository(TenantMembership).find({
+          where: { userId: user.id },
+          relations: { tenant: true },
+        }),
+        AppDataSource.getRepository(TenantInvitation).find({ where: { email: In(addresses) } }),
+        AppDataSource.getRepository(EmailLog).find({
+          where: { recipient: In(addresses) },
+          order: { createdAt: 'ASC' },
+        }),
+        AppDataSource.getRepository(AuditLog).find({
+          where: [{ actorId: user.id }, { targetType: 'user', targetId: user.id }],
+          order: { createdAt: 'ASC' },
+        }),
+      ]);
+
+    return {
+      'profile.json': instanceToPlain(user),
+      'sessions.json': {
+        lastLoginAt: user.lastLoginAt,
+        sessions: instanceToPlain(sessions),
+        apiKeys: instanceToPlain(apiKeys),
+      },
+      'linked-identities.json': instanceToPlain(identities),
+      'tenants.json': {
+        memberships: memberships.map(({ tenant, role, createdAt }) => ({
+          tenant: { id: tenant.id, name: tenant.name, slug: tenant.slug },
+          role,
+          joinedAt: createdAt,
+        })),
+        invitations: instanceToPlain(invitations),
+      },
+      'email-history.json': instanceToPlain(emails),
+      // Where and how others acted on the user is their data, not the user's
+      'audit-log.json': auditEntries.map(({ ip, userAgent, requestId, ...entry }) =>
+        entry.actorId === user.id ? { ...entry, ip, userAgent, requestId } : entry
+      ),
+    };
+  }
+
+  /**
+   * Writes the data to a ZIP archive of pretty-printed JSON files
+   * @private
+   * @param {string} filePath - Path of the archive
+   * @param {Record<string, unknown>} files - The data, keyed by file name
+   * @returns {Promise<void>}
+   */
+  private async writeArchive(filePath: string, files: Record<string, unknown>): Promise<void> {
+    const output = fs.createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const written = new Promise<void>((resolve, reject) => {
+      output.on('close', resolve);
+      output.on('error', reject);
+      archive.on('error', reject);
+    });
+
+    archive.pipe(output);
+    archive.append(
+      JSON.stringify({ generatedAt: new Date(), files: Object.keys(files) }, null, 2),
+      { name: 'manifest.json' }
+    );
+    for (const [name, content] of Object.entries(files)) {
+      archive.append(JSON.stringify(content, null, 2), { name });
+    }
+    await archive.finalize();
+    await written;
+  }
+}
+
+export default new DataExportService(emailService);
@@ -14,12 +14,19 @@ const emailConfig = {
   },
 };
 
+import { SpanKind } from '@opentelemetry/api';
+import { ATTR_SERVER_ADDRESS } from '@opentelemetry/semantic-conventions';
 import nodemailer from 'nodemailer';
 import ejs from 'ejs';
 import path from 'path';
 import fs from 'fs/promises';
+import { AppDataSource } from '@/data-source';
+import { EmailLog } from '@/entity/email-log.entity';
+import { logger } from '@/core/common/logger';
+import { emailsQueued, emailsTotal } from '@/core/common/metrics';
+import { withSpan } from '@/core/common/tracing';
 
-class EmailService {
+export class EmailService {
   private transporter: nodemailer.Transporter;
   private templatesDir: string;
 
@@ -51,22 +58,58 @@ class EmailService {
     data: Record<string, any>;
     attachments?: nodemailer.Attachment[];
   }): Promise<void> {
-    try {
-      const html = await this.renderTemplate(templateName, data);
+    const recipients = Array.isArray(to) ? to : [to];
+    const attributes = { 'email.template': templateName, 'email.recipients': recipients.length };
 
-      const mailOptions = {
-        from: `${emailConfig.from.name} <${emailConfig.from.email}>`,
-        to: Array.isArray(to) ? to.join(',') : to,
-        subject,
-        html,
-        attachments,
-      };
+    await withSpan('EmailService.sendEmail', attributes, async () => {
+      emailsQueued.inc();
+      try {
+        const html = await this.renderTemplate(templateName, data);
 
-      await this.transporter.sendMail(mailOptions);
-    } catch (error) {
-      console.error('Failed to send email:', error);
-      throw new Error('Email sending failed');
+        const mailOptions = {
+          from: `${emailConfig.from.name} <${emailConfig.from.email}>`,
+          to: recipients.join(','),
+          subject,
+          html,
+          attachments,
+        };
+
+        await withSpan(
+          'SMTP send',
+          { [ATTR_SERVER_ADDRESS]: emailConfig.smtp.host },
+          () => this.transporter.sendMail(mailOptions),
+          SpanKind.CLIENT
+        );
+        emailsTotal.inc({ template: templateName, status: 'sent' });
+        await this.recordDelivery(recipients, subject, templateName, 'sent');
+      } catch (error) {
+        logger.error('Failed to send email:', error);
+        emailsTotal.inc({ template: templateName, status: 'failed' });
+        await this.recordDelivery(recipients, subject, templateName, 'failed');
+        throw new Error('Email sending failed');
+      } finally {
+        emailsQueued.dec();
+      }
+    });
+  }
+
+  /**
+   * Records an email in the email history of each recipient. Recording is best-effort
+   * and skipped when the database is not connected.
+   */
+  private async recordDelivery(
+    recipients: string[],
+    subject: string,
+    templateName: string,
+    status: EmailLog['status']
+  ): Promise<void> {
+    if (!AppDataSource.isInitialized) {
+      return;
     }
+
+    await AppDataSource.getRepository(EmailLog)
+      .insert(recipients.map(recipient => ({ recipient, subject, templateName, status })))
+      .catch(error => logger.error('Failed to record email:', error));
   }
 
   async verifyConnection(): Promise<boolean> {
@@ -74,7 +117,7 @@ class EmailService {
       await this.transporter.verify();
       return true;
     } catch (error) {
-      console.error('Email service connection failed:', error);
+      logger.error('Email service connection failed:', error);
       return false;
     }
   }
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Lockout service for throttling failed login attempts
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Failed logins are counted per account (email) and per client IP in Redis.
+ * Once a scope exceeds its free attempts, each further failure blocks it for an
+ * exponentially growing delay; reaching the maximum locks it for LOCK_DURATION.
+ *
+ * An account's counter is incremented when an attempt begins, before the password is
+ * checked, and cleared when it succeeds. Whether an attempt may go ahead is decided from
+ * the value the increment returns, so a burst of parallel attempts can't get more guesses
+ * than the maximum. The IP counter only counts failures, since successful logins from a
+ * shared address shouldn't throttle it.
+ */
+
+import {
+  ACCOUNT_LOCKED_ERROR,
+  HTTP_TOO_MANY_REQUESTS,
+  TOO_MANY_ATTEMPTS_ERROR,
+} from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { getRedisService, RedisService } from '@/core/db/redis';
+
+/**
+ * Throttling rules for one scope of failed-attempt counters
+ */
+interface ThrottlePolicy {
+  scope: 'account' | 'ip';
+  /** Failures allowed before delays start */
+  freeAttempts: number;
+  /** Failures that trigger a temporary lock */
+  maxAttempts: number;
+}
+
+/**
+ * A login attempt admitted by `beginAttempt`
+ */
+export interface LoginAttempt {
+  email: string;
+  ip?: string;
+  /** Position of the attempt among the account's failed attempts in the current window */
+  failures: number;
+}
+
+/**
+ * Block stored for a scope while attempts are delayed or locked
+ */
+interface AttemptBlock {
+  until: number;
+  locked: boolean;
+}
+
+/** Window in seconds over which failures are counted */
+const FAILURE_WINDOW = 15 * 60;
+
+/** Lock duration in seconds once the maximum number of failures is reached */
+const LOCK_DURATION = Number(process.env.LOCKOUT_DURATION_SECONDS) || 15 * 60;
+
+/** Upper bound in seconds for the progressive delay */
+const MAX_BACKOFF = 5 * 60;
+
+const ACCOUNT_POLICY: ThrottlePolicy = {
+  scope: 'account',
+  freeAttempts: 2,
+  maxAttempts: Number(process.env.LOCKOUT_MAX_ATTEMPTS) || 5,
+};
+
+const IP_POLICY: ThrottlePolicy = {
+  scope: 'ip',
+  freeAttempts: 10,
+  maxAttempts: 50,
+};
+
+/**
+ * Service class responsible for counting failed logins and enforcing
+ * progressive delays and temporary locks per account and per IP
+ */
+export class LockoutService {
+  private get redis(): RedisService<AttemptBlock> {
+    return getRedisService<AttemptBlock>();
+  }
+
+  /**
+   * Admits a login attempt, counting it as failed until `reset` records its success.
+   * The attempt is rejected if the account or the IP is currently delayed or locked, or if
+   * concurrent attempts have already used up the account's allowed failures.
+   * @param {string} email - The email address being logged into
+   * @param {string} [ip] - The client IP address
+   * @returns {Promise<LoginAttempt>} The admitted attempt
+   * @throws {Error} AccountLockedError or TooManyAttemptsError with `retryAfter` seconds
+   */
+  public async beginAttempt(email: string, ip?: string): Promise<LoginAttempt> {
+    await this.assertNotBlocked(email, ip);
+
+    const failures = await this.redis.increment(
+      this.failuresKey(ACCOUNT_POLICY, email),
+      FAILURE_WINDOW
+    );
+
+    if (failures > ACCOUNT_POLICY.maxAttempts) {
+      await this.block(ACCOUNT_POLICY, email, LOCK_DURATION, true);
+      throwError(
+        'Too many failed login attempts. The account is temporarily locked.',
+        HTTP_TOO_MANY_REQUESTS,
+        ACCOUNT_LOCKED_ERROR,
+        { retryAfter: LOCK_DURATION }
+      );
+    }
+
+    return { email, ip, failures };
+  }
+
+  /**
+   * Records that an admitted attempt failed, delaying or locking the account and the IP
+   * @param {LoginAttempt} attempt - The attempt returned by `beginAttempt`
+   * @returns {Promise<boolean>} True if this failure locked the account
+   */
+  public async recordFailure(attempt: LoginAttempt): Promise<boolean> {
+    const accountLocked = await this.registerFailure(
+      ACCOUNT_POLICY,
+      attempt.email,
+      attempt.failures
+    );
+    if (attempt.ip) {
+      const ipFailures = await this.redis.increment(
+        this.failuresKey(IP_POLICY, attempt.ip),
+        FAILURE_WINDOW
+      );
+      await this.registerFailure(IP_POLICY, attempt.ip, ipFailures);
+    }
+    return accountLocked;
+  }
+
+  /**
+   * Clears the failure counter and any block of an account,
+   * after a successful login or an admin unlock
+   * @param {string} email - The account's email address
+   * @returns {Promise<void>}
+   */
+  public async reset(email: string): Promise<void> {
+    await Promise.all([
+      this.redis.delete(this.failuresKey(ACCOUNT_POLICY, email)),
+      this.redis.delete(this.blockKey(ACCOUNT_POLICY, email)),
+    ]);
+  }
+
+  /**
+   * Rejects the attempt if the account or the IP is currently delayed or locked
+   * @private
+   * @param {string} email - The email address being logged into
+   * @param {string} [ip] - The client IP address
+   * @returns {Promise<void>}
+   */
+  private async assertNotBlocked(email: string, ip?: string): Promise<void> {
+    const blocks = await Promise.all([
+      this.redis.get(this.blockKey(ACCOUNT_POLICY, email)),
+      ip ? this.redis.get(this.blockKey(IP_POLICY, ip)) : null,
+    ]);
+
+    const now = Date.now();
+    for (const block of blocks) {
+      if (block && block.until > now) {
+        const retryAfter = Math.ceil((block.until - now) / 1000);
+        if (block.locked) {
+          throwError(
+            'Too many failed login attempts. The account is temporarily locked.',
+            HTTP_TOO_MANY_REQUESTS,
+            ACCOUNT_LOCKED_ERROR,
+            { retryAfter }
+          );
+        }
+        throwError(
+          'Too many failed login attempts. Please wait before trying again.',
+          HTTP_TOO_MANY_REQUESTS,
+          TOO_MANY_ATTEMPTS_ERROR,
+          { retryAfter }
+        );
+      }
+    }
+  }
+
+  /**
+   * Blocks a scope once it is past the free attempts
+   * @private
+   * @param {ThrottlePolicy} policy - The scope's throttling rules
+   * @param {string} id - Email address or IP address
+   * @param {number} failures - The scope's failure count, including this failure
+   * @returns {Promise<boolean>} True if this failure locked the scope
+   */
+  private async registerFailure(
+    policy: ThrottlePolicy,
+    id: string,
+    failures: number
+  ): Promise<boolean> {
+    if (failures <= policy.freeAttempts) {
+      return false;
+    }
+
+    const locked = failures >= policy.maxAttempts;
+    const delay = locked
+      ? LOCK_DURATION
+      : Math.min(2 ** (failures - policy.freeAttempts - 1), MAX_BACKOFF);
+
+    await this.block(policy, id, delay, locked);
+
+    // Only the failure that reaches the limit reports a new lock
+    return locked && failures === policy.maxAttempts;
+  }
+
+  /**
+   * Stores a block for a scope
+   * @private
+   * @param {ThrottlePolicy} policy - The scope's throttling rules
+   * @param {string} id - Email address or IP address
+   * @param {number} seconds - How long the block lasts
+   * @param {boolean} locked - Whether the block is a lock rather than a delay
+   * @returns {Promise<void>}
+   */
+  private async block(
+    policy: ThrottlePolicy,
+    id: string,
+    seconds: number,
+    locked: boolean
+  ): Promise<void> {
+    await this.redis.set(
+      this.blockKey(policy, id),
+      { until: Date.now() + seconds * 1000, locked },
+      seconds
+    );
+  }
+
+  private failuresKey(policy: ThrottlePolicy, id: string): string {
+    return `auth:login-failures:${policy.scope}:${id.toLowerCase()}`;
+  }
+
+  private blockKey(policy: ThrottlePolicy, id: string): string {
+    return `auth:login-blocked:${policy.scope}:${id.toLowerCase()}`;
+  }
+}
+
+export default new LockoutService();
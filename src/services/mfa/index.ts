@@ -0,0 +1,195 @@
+/**
+ * @fileoverview MFA service for TOTP two-factor authentication and recovery codes
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Enrollment is a two-step process: `startEnrollment` stores a new encrypted secret and
+ * returns it with an `otpauth://` URI, and `confirmEnrollment` enables MFA once the user
+ * proves their authenticator app produces valid codes. Recovery codes are returned once
+ * at confirmation and only their hashes are stored.
+ */
+
+import { randomBytes } from 'crypto';
+import { User } from '@/entity/user.entity';
+import auditService from '../audit';
+import userService, { UserService } from '../user';
+import {
+  CONFLICT_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_NOT_FOUND,
+} from '@/core/common/constants';
+import { decryptSecret, encryptSecret } from '@/core/common/encryption';
+import { throwError } from '@/core/common/error-handler';
+import { hashToken } from '@/core/common/token';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from '@/core/common/totp';
+
+/**
+ * Name shown for this service in authenticator apps
+ * @constant {string}
+ */
+const MFA_ISSUER = process.env.MFA_ISSUER || 'Coco';
+
+/**
+ * Number of recovery codes generated on enrollment
+ * @constant {number}
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Normalizes a recovery code so formatting differences don't matter
+ * @param {string} code - The code as typed by the user
+ * @returns {string} Lowercase code without separators or whitespace
+ */
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, '');
+
+/**
+ * Service class responsible for TOTP enrollment, second-factor verification
+ * and recovery code management
+ */
+export class MfaService {
+  constructor(private userService: UserService) {
+    this.userService = userService;
+  }
+
+  /**
+   * Starts enrollment by generating a new secret for the user
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<{secret: string, otpauthUrl: string}>} The secret and its otpauth URI
+   * @throws {Error} If user not found or MFA is already enabled
+   */
+  async startEnrollment(userId: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const user = await this.getUser(userId);
+
+    if (user.mfaEnabled) {
+      throwError('Two-factor authentication is already enabled', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    const secret = generateTotpSecret();
+    await this.userService.updateUser(user.id, {
+      mfaSecret: encryptSecret(secret),
+      mfaLastUsedStep: null,
+    });
+
+    return { secret, otpauthUrl: buildOtpauthUrl(secret, user.email, MFA_ISSUER) };
+  }
+
+  /**
+   * Enables MFA once the user submits a valid code for the pending secret
+   * @param {string} userId - The ID of the user
+   * @param {string} code - A code from the authenticator app
+   * @returns {Promise<string[]>} The recovery codes, shown to the user only this once
+   * @throws {Error} If there is no pending enrollment or the code is invalid
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.getUser(userId);
+
+    if (user.mfaEnabled) {
+      throwError('Two-factor authentication is already enabled', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    if (!user.mfaSecret) {
+      throwError('Two-factor enrollment has not been started', HTTP_BAD_REQUEST);
+    }
+
+    const step = verifyTotp(decryptSecret(user.mfaSecret), code);
+    if (step === null) {
+      throwError('Invalid authentication code', HTTP_BAD_REQUEST);
+    }
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const value = randomBytes(5).toString('hex');
+      return `${value.slice(0, 5)}-${value.slice(5)}`;
+    });
+
+    await this.userService.updateUser(user.id, {
+      mfaEnabled: true,
+      mfaLastUsedStep: step,
+      mfaRecoveryCodes: recoveryCodes.map(recoveryCode =>
+        hashToken(normalizeRecoveryCode(recoveryCode))
+      ),
+    });
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Verifies a second factor for a user, either a TOTP code or a recovery code.
+   * Accepted TOTP codes can't be replayed and recovery codes are consumed.
+   * @param {User} user - The user logging in
+   * @param {Object} factor - The submitted second factor
+   * @param {string} [factor.code] - A code from the authenticator app
+   * @param {string} [factor.recoveryCode] - One of the user's recovery codes
+   * @returns {Promise<boolean>} True if the second factor is valid
+   */
+  async verifySecondFactor(
+    user: User,
+    factor: { code?: string; recoveryCode?: string }
+  ): Promise<boolean> {
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+
+    if (factor.code) {
+      const step = verifyTotp(decryptSecret(user.mfaSecret), factor.code);
+      if (step === null || (user.mfaLastUsedStep !== null && step <= user.mfaLastUsedStep)) {
+        return false;
+      }
+
+      await this.userService.updateUser(user.id, { mfaLastUsedStep: step });
+      return true;
+    }
+
+    if (factor.recoveryCode) {
+      const hash = hashToken(normalizeRecoveryCode(factor.recoveryCode));
+      const remaining = user.mfaRecoveryCodes ?? [];
+      if (!remaining.includes(hash)) {
+        return false;
+      }
+
+      await this.userService.updateUser(user.id, {
+        mfaRecoveryCodes: remaining.filter(storedHash => storedHash !== hash),
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Disables MFA and discards the secret and recovery codes, e.g. when a user lost their device
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<void>}
+   * @throws {Error} If user not found
+   */
+  async reset(userId: string): Promise<void> {
+    const user = await this.getUser(userId);
+
+    await this.userService.updateUser(user.id, {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaRecoveryCodes: null,
+      mfaLastUsedStep: null,
+    });
+    await auditService.record({ action: 'auth.mfa.reset', targetType: 'user', targetId: user.id });
+  }
+
+  /**
+   * Loads a user or fails with a not found error
+   * @private
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<User>} The user
+   */
+  private async getUser(userId: string): Promise<User> {
+    const user = await this.userService.getUserById(userId);
+
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+
+    return user;
+  }
+}
+
+export default new MfaService(userService);
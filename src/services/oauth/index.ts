@@ -0,0 +1,437 @@
+/**
+ * @fileoverview OAuth service for social and enterprise sign-in through OAuth2/OIDC providers
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Sign-in uses the authorization-code flow with PKCE. The state, nonce and code verifier
+ * of each attempt are kept in Redis for a few minutes and can only be used once.
+ *
+ * Account linking rules, applied when an external identity signs in for the first time:
+ * - an identity already linked signs in as its user
+ * - an email that matches an existing account is linked only when both the provider and
+ *   the account have verified it; otherwise the sign-in is refused, so nobody can take over
+ *   an account by registering the same email at a provider (or locally) first
+ * - any other identity creates a new account, active if the provider verified the email
+ *
+ * A tenant can configure its own OIDC provider, offered as `tenant-<tenantId>`. Since the
+ * tenant controls what that provider asserts, it only signs in members of the tenant: it
+ * links existing accounts only if they are members, and the accounts it creates join the
+ * tenant as users.
+ */
+
+import { randomUUID } from 'crypto';
+import { AppDataSource } from '@/data-source';
+import { LinkedIdentity } from '@/entity/linked-identity.entity';
+import { TenantIdentityProvider } from '@/entity/tenant-identity-provider.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { User } from '@/entity/user.entity';
+import userService, { UserService } from '../user';
+import {
+  CONFLICT_ERROR,
+  EMAIL_NOT_VERIFIED_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_FORBIDDEN,
+  HTTP_NOT_FOUND,
+  HTTP_UNAUTHENTICATED,
+} from '@/core/common/constants';
+import { decryptSecret, encryptSecret } from '@/core/common/encryption';
+import { throwError } from '@/core/common/error-handler';
+import { createCodeChallenge, generateOpaqueToken } from '@/core/common/token';
+import { getRedisService, RedisService } from '@/core/db/redis';
+import { getTenantRepository } from '@/core/db/tenant-context';
+import { UserRole } from '@/types';
+import { ExternalProfile, GitHubProvider, OAuthProvider, OidcProvider } from './providers';
+
+/**
+ * Public base URL of this API, used to build provider callback URLs
+ * @constant {string}
+ */
+const API_URL = process.env.API_URL || `http://localhost:${process.env.PORT || 5000}`;
+
+/**
+ * Lifetime of a pending sign-in attempt in seconds (10 minutes)
+ * @constant {number}
+ */
+const OAUTH_STATE_TTL = 10 * 60;
+
+const OAUTH_STATE_PREFIX = 'oauth:state:';
+
+/**
+ * Prefix of the names of tenant providers, followed by the tenant ID
+ * @constant {string}
+ */
+export const TENANT_PROVIDER_PREFIX = 'tenant-';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Secrets of a pending sign-in attempt, keyed by its state
+ */
+interface OAuthAttempt {
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+/**
+ * Settings of a tenant's OIDC provider
+ */
+export interface TenantProviderConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * A tenant provider built from its settings, kept while the settings don't change
+ */
+interface CachedTenantProvider {
+  updatedAt: number;
+  provider: OidcProvider;
+}
+
+/**
+ * Service class responsible for provider registration, the authorization-code flow
+ * and linking external identities to users
+ */
+export class OAuthService {
+  private providers = new Map<string, OAuthProvider>();
+  private tenantProviders = new Map<string, CachedTenantProvider>();
+  private identityRepository = AppDataSource.getRepository(LinkedIdentity);
+  private tenantProviderRepository = AppDataSource.getRepository(TenantIdentityProvider);
+  private membershipRepository = AppDataSource.getRepository(TenantMembership);
+
+  constructor(private userService: UserService) {
+    this.userService = userService;
+  }
+
+  private get redis(): RedisService<OAuthAttempt> {
+    return getRedisService<OAuthAttempt>();
+  }
+
+  /**
+   * Registers an identity provider, replacing any provider with the same name
+   * @param {OAuthProvider} provider - The provider to register
+   */
+  public registerProvider(provider: OAuthProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Lists the names of the registered providers. Tenant providers are not listed.
+   * @returns {string[]} Provider names
+   */
+  public getProviderNames(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Starts a sign-in attempt and returns the provider URL to redirect the user to
+   * @param {string} providerName - Name of the provider
+   * @returns {Promise<string>} The authorization URL
+   * @throws {Error} If the provider is unknown
+   */
+  public async createAuthorizationUrl(providerName: string): Promise<string> {
+    const provider = await this.getProvider(providerName);
+    const state = generateOpaqueToken();
+    const attempt: OAuthAttempt = {
+      provider: provider.name,
+      nonce: generateOpaqueToken(),
+      codeVerifier: generateOpaqueToken(48),
+      redirectUri: `${API_URL}/api/v1/auth/oauth/${provider.name}/callback`,
+    };
+
+    await this.redis.set(`${OAUTH_STATE_PREFIX}${state}`, attempt, OAUTH_STATE_TTL);
+
+    return provider.getAuthorizationUrl({
+      state,
+      nonce: attempt.nonce,
+      codeChallenge: createCodeChallenge(attempt.codeVerifier),
+      redirectUri: attempt.redirectUri,
+    });
+  }
+
+  /**
+   * Completes a sign-in attempt and returns the user the external identity signs in as
+   * @param {string} providerName - Name of the provider from the callback URL
+   * @param {string} code - The authorization code
+   * @param {string} state - The state returned by the provider
+   * @returns {Promise<User>} The signed-in user
+   * @throws {Error} If the state is unknown, expired or for another provider, the code
+   * exchange fails, linking is refused or the account's email is not verified
+   */
+  public async handleCallback(providerName: string, code: string, state: string): Promise<User> {
+    const provider = await this.getProvider(providerName);
+    const key = `${OAUTH_STATE_PREFIX}${state}`;
+    const attempt = await this.redis.get(key);
+
+    if (!attempt || attempt.provider !== provider.name) {
+      throwError('Invalid or expired sign-in state', HTTP_UNAUTHENTICATED);
+    }
+
+    // Each state is single-use
+    await this.redis.delete(key);
+
+    const profile = await provider.exchangeCode({
+      code,
+      codeVerifier: attempt.codeVerifier,
+      redirectUri: attempt.redirectUri,
+      nonce: attempt.nonce,
+    });
+
+    const user = await this.findOrLinkUser(provider.name, profile);
+
+    if (!user.isActive) {
+      throwError('Email address has not been verified', HTTP_FORBIDDEN, EMAIL_NOT_VERIFIED_ERROR);
+    }
+
+    return user;
+  }
+
+  /**
+   * Gets the OIDC provider settings of the current tenant
+   * @returns {Promise<TenantIdentityProvider | null>} The settings, or null if none are set
+   */
+  public async getTenantProvider(): Promise<TenantIdentityProvider | null> {
+    return await getTenantRepository(TenantIdentityProvider).findOne({});
+  }
+
+  /**
+   * Sets the OIDC provider of the current tenant, replacing any previous settings.
+   * Identities linked through the previous issuer are unlinked, since another issuer's
+   * subjects could collide with them.
+   * @param {TenantProviderConfig} config - Issuer, client ID and client secret
+   * @returns {Promise<TenantIdentityProvider>} The saved settings
+   */
+  public async setTenantProvider(config: TenantProviderConfig): Promise<TenantIdentityProvider> {
+    const providers = getTenantRepository(TenantIdentityProvider);
+    const existing = await providers.findOne({});
+    const settings = existing ?? providers.create({});
+
+    if (existing && existing.issuer !== config.issuer) {
+      await this.identityRepository.delete({
+        provider: this.tenantProviderName(settings.tenantId),
+      });
+    }
+
+    settings.issuer = config.issuer;
+    settings.clientId = config.clientId;
+    settings.clientSecret = encryptSecret(config.clientSecret);
+
+    return await providers.save(settings);
+  }
+
+  /**
+   * Removes the OIDC provider of the current tenant and unlinks the identities it linked
+   * @returns {Promise<void>}
+   * @throws {Error} If the tenant has no provider
+   */
+  public async removeTenantProvider(): Promise<void> {
+    const settings = await this.getTenantProvider();
+
+    if (!settings) {
+      throwError('Identity provider not found', HTTP_NOT_FOUND);
+    }
+
+    await getTenantRepository(TenantIdentityProvider).delete({ id: settings.id });
+    await this.identityRepository.delete({ provider: this.tenantProviderName(settings.tenantId) });
+    this.tenantProviders.delete(settings.tenantId);
+  }
+
+  /**
+   * Resolves the user for an external identity following the linking rules above
+   * @private
+   * @param {string} providerName - Name of the provider
+   * @param {ExternalProfile} profile - The verified external profile
+   * @returns {Promise<User>} The linked user
+   */
+  private async findOrLinkUser(providerName: string, profile: ExternalProfile): Promise<User> {
+    const tenantId = this.tenantIdOf(providerName);
+    const identity = await this.identityRepository.findOne({
+      where: { provider: providerName, subject: profile.subject },
+      relations: { user: true },
+    });
+
+    if (identity && !identity.user) {
+      throwError('The account linked to this identity has been deleted', HTTP_FORBIDDEN);
+    }
+
+    if (identity) {
+      if (tenantId && !(await this.isMember(tenantId, identity.userId))) {
+        throwError('The linked account is no longer a member of this tenant', HTTP_FORBIDDEN);
+      }
+      identity.lastUsedAt = new Date();
+      await this.identityRepository.save(identity);
+      return identity.user;
+    }
+
+    if (!profile.email) {
+      throwError('Identity provider did not share an email address', HTTP_BAD_REQUEST);
+    }
+
+    let user = await this.userService.findUserByEmail(profile.email, true);
+
+    if (
+      user &&
+      (user.deletedAt ||
+        !(profile.emailVerified && user.isActive) ||
+        (tenantId && !(await this.isMember(tenantId, user.id))))
+    ) {
+      throwError(
+        'An account with this email already exists. Sign in with your password to continue.',
+        HTTP_CONFLICT,
+        CONFLICT_ERROR
+      );
+    }
+
+    if (!user) {
+      // The random password is never shared; the user can set one through a password reset
+      user = await this.userService.createUser(profile.email, randomUUID(), {
+        firstName: profile.firstName,
+        lastName: profile.lastName,
+      });
+      if (profile.emailVerified) {
+        user = await this.userService.updateUser(user.id, { isActive: true });
+      }
+      if (tenantId) {
+        await this.membershipRepository.save(
+          this.membershipRepository.create({ tenantId, userId: user.id, role: UserRole.USER })
+        );
+      }
+    }
+
+    await this.identityRepository.save(
+      this.identityRepository.create({
+        provider: providerName,
+        subject: profile.subject,
+        email: profile.email,
+        userId: user.id,
+        lastUsedAt: new Date(),
+      })
+    );
+
+    return user;
+  }
+
+  /**
+   * Looks up a registered or tenant provider or fails with a not found error
+   * @private
+   * @param {string} name - Name of the provider
+   * @returns {Promise<OAuthProvider>} The provider
+   */
+  private async getProvider(name: string): Promise<OAuthProvider> {
+    const tenantId = this.tenantIdOf(name);
+    const provider = tenantId ? await this.loadTenantProvider(tenantId) : this.providers.get(name);
+
+    if (!provider) {
+      throwError(`Unknown identity provider: ${name}`, HTTP_NOT_FOUND);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Builds the provider of a tenant from its settings, reusing the previous instance (and
+   * its cached discovery document and JWKS) while the settings don't change
+   * @private
+   * @param {string} tenantId - The ID of the tenant
+   * @returns {Promise<OidcProvider | undefined>} The provider, or undefined if none is set
+   */
+  private async loadTenantProvider(tenantId: string): Promise<OidcProvider | undefined> {
+    const settings = await this.tenantProviderRepository.findOne({ where: { tenantId } });
+
+    if (!settings) {
+      this.tenantProviders.delete(tenantId);
+      return undefined;
+    }
+
+    const cached = this.tenantProviders.get(tenantId);
+    if (cached?.updatedAt === settings.updatedAt.getTime()) {
+      return cached.provider;
+    }
+
+    const provider = new OidcProvider({
+      name: this.tenantProviderName(tenantId),
+      issuer: settings.issuer,
+      clientId: settings.clientId,
+      clientSecret: decryptSecret(settings.clientSecret),
+    });
+    this.tenantProviders.set(tenantId, { updatedAt: settings.updatedAt.getTime(), provider });
+
+    return provider;
+  }
+
+  /**
+   * Checks whether a user is a member of a tenant
+   * @private
+   * @param {string} tenantId - The ID of the tenant
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<boolean>} True if the user is a member
+   */
+  private async isMember(tenantId: string, userId: string): Promise<boolean> {
+    return await this.membershipRepository.exists({ where: { tenantId, userId } });
+  }
+
+  /**
+   * Gets the name a tenant's provider is offered under
+   * @private
+   * @param {string} tenantId - The ID of the tenant
+   * @returns {string} The provider name
+   */
+  private tenantProviderName(tenantId: string): string {
+    return `${TENANT_PROVIDER_PREFIX}${tenantId}`;
+  }
+
+  /**
+   * Gets the tenant of a tenant provider name
+   * @private
+   * @param {string} providerName - Name of the provider
+   * @returns {string | undefined} The tenant ID, or undefined for other providers
+   */
+  private tenantIdOf(providerName: string): string | undefined {
+    const tenantId = providerName.slice(TENANT_PROVIDER_PREFIX.length);
+
+    return providerName.startsWith(TENANT_PROVIDER_PREFIX) && UUID_PATTERN.test(tenantId)
+      ? tenantId
+      : undefined;
+  }
+}
+
+const oauthService = new OAuthService(userService);
+
+// Register the providers configured through the environment
+if (process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET) {
+  oauthService.registerProvider(
+    new OidcProvider({
+      name: 'google',
+      issuer: 'https://accounts.google.com',
+      clientId: process.env.GOOGLE_CLIENT_ID,
+      clientSecret: process.env.GOOGLE_CLIENT_SECRET,
+    })
+  );
+}
+
+if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
+  oauthService.registerProvider(
+    new GitHubProvider({
+      clientId: process.env.GITHUB_CLIENT_ID,
+      clientSecret: process.env.GITHUB_CLIENT_SECRET,
+    })
+  );
+}
+
+if (process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID && process.env.OIDC_CLIENT_SECRET) {
+  oauthService.registerProvider(
+    new OidcProvider({
+      name: process.env.OIDC_PROVIDER_NAME || 'oidc',
+      issuer: process.env.OIDC_ISSUER,
+      clientId: process.env.OIDC_CLIENT_ID,
+      clientSecret: process.env.OIDC_CLIENT_SECRET,
+    })
+  );
+}
+
+export default oauthService;
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview OAuth2/OIDC identity provider implementations
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Providers build the authorization URL for the authorization-code + PKCE flow and turn
+ * the returned code into a verified external profile. OIDC providers verify the ID token
+ * against the issuer's JWKS; GitHub, which is plain OAuth2, reads its REST API instead.
+ */
+
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+
+/**
+ * Profile of the signed-in user as reported by an identity provider
+ */
+export interface ExternalProfile {
+  /** Stable user identifier at the provider */
+  subject: string;
+  email: string | null;
+  /** Whether the provider vouches for the email address */
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+/**
+ * Parameters of an authorization request
+ */
+export interface AuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+/**
+ * Parameters of an authorization code exchange
+ */
+export interface CodeExchange {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  nonce: string;
+}
+
+/**
+ * Contract every identity provider implements
+ */
+export interface OAuthProvider {
+  /** Name used in routes and stored on linked identities */
+  readonly name: string;
+
+  /**
+   * Builds the URL the user is redirected to for signing in
+   * @param {AuthorizationRequest} request - State, nonce and PKCE challenge of this attempt
+   * @returns {Promise<string>} The authorization URL
+   */
+  getAuthorizationUrl(request: AuthorizationRequest): Promise<string>;
+
+  /**
+   * Exchanges an authorization code for the user's verified profile
+   * @param {CodeExchange} exchange - The code and the secrets of this attempt
+   * @returns {Promise<ExternalProfile>} The user's profile
+   * @throws {Error} If the exchange or verification fails
+   */
+  exchangeCode(exchange: CodeExchange): Promise<ExternalProfile>;
+}
+
+/**
+ * Configuration of an OIDC provider
+ */
+export interface OidcProviderConfig {
+  name: string;
+  /** Issuer URL; the discovery document is read from `<issuer>/.well-known/openid-configuration` */
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+}
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+/** How long discovery documents and JWKS are cached, in milliseconds */
+const METADATA_CACHE_TTL = 60 * 60 * 1000;
+
+/** Signature algorithms accepted for ID tokens */
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'ES256', 'ES384'];
+
+/**
+ * Performs an HTTP request and parses the JSON response
+ * @param {string} url - The URL to request
+ * @param {RequestInit} [init] - Fetch options
+ * @returns {Promise<T>} The parsed response body
+ * @throws {Error} If the provider responds with an error status
+ */
+const requestJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', ...init?.headers },
+  });
+
+  if (!response.ok) {
+    throwError(
+      `Identity provider request failed with status ${response.status}`,
+      HTTP_UNAUTHENTICATED
+    );
+  }
+
+  return (await response.json()) as T;
+};
+
+/**
+ * Generic OpenID Connect provider, used for Google and for tenants' own identity providers
+ */
+export class OidcProvider implements OAuthProvider {
+  public readonly name: string;
+  private discovery?: { value: OidcDiscovery; fetchedAt: number };
+  private keys?: { value: Map<string, KeyObject>; fetchedAt: number };
+
+  constructor(private config: OidcProviderConfig) {
+    this.name = config.name;
+  }
+
+  public async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const discovery = await this.getDiscovery();
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: request.redirectUri,
+      scope: (this.config.scopes ?? ['openid', 'email', 'profile']).join(' '),
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return `${discovery.authorization_endpoint}?${params.toString()}`;
+  }
+
+  public async exchangeCode(exchange: CodeExchange): Promise<ExternalProfile> {
+    const discovery = await this.getDiscovery();
+    const { id_token: idToken } = await requestJson<{ id_token?: string }>(
+      discovery.token_endpoint,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code: exchange.code,
+          redirect_uri: exchange.redirectUri,
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          code_verifier: exchange.codeVerifier,
+        }).toString(),
+      }
+    );
+
+    if (!idToken) {
+      throwError('Identity provider did not return an ID token', HTTP_UNAUTHENTICATED);
+    }
+
+    const claims = await this.verifyIdToken(idToken, exchange.nonce);
+
+    return {
+      subject: String(claims.sub),
+      email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      firstName: claims.given_name,
+      lastName: claims.family_name,
+    };
+  }
+
+  /**
+   * Verifies an ID token's signature against the issuer's JWKS, its issuer,
+   * audience and expiry, and that it carries the nonce of this attempt
+   * @private
+   * @param {string} idToken - The ID token
+   * @param {string} nonce - The nonce sent in the authorization request
+   * @returns {Promise<JwtPayload>} The verified claims
+   */
+  private async verifyIdToken(idToken: string, nonce: string): Promise<JwtPayload> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    const key = decoded?.header.kid ? await this.getSigningKey(decoded.header.kid) : undefined;
+
+    if (!key) {
+      throwError('ID token is signed with an unknown key', HTTP_UNAUTHENTICATED);
+    }
+
+    const discovery = await this.getDiscovery();
+    let claims: JwtPayload;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        audience: this.config.clientId,
+        issuer: discovery.issuer,
+      }) as JwtPayload;
+    } catch (error) {
+      throwError(`Invalid ID token: ${error.message}`, HTTP_UNAUTHENTICATED);
+    }
+
+    if (claims.nonce !== nonce) {
+      throwError('ID token nonce does not match', HTTP_UNAUTHENTICATED);
+    }
+
+    return claims;
+  }
+
+  /**
+   * Finds a signing key by id, refetching the JWKS once when the key is unknown
+   * so rotated keys are picked up
+   * @private
+   * @param {string} kid - The key id from the token header
+   * @returns {Promise<KeyObject | undefined>} The public key if found
+   */
+  private async getSigningKey(kid: string): Promise<KeyObject | undefined> {
+    const cached = this.keys && Date.now() - this.keys.fetchedAt < METADATA_CACHE_TTL;
+    if (cached && this.keys.value.has(kid)) {
+      return this.keys.value.get(kid);
+    }
+
+    const discovery = await this.getDiscovery();
+    const { keys } = await requestJson<{ keys: (JsonWebKey & { kid?: string })[] }>(
+      discovery.jwks_uri
+    );
+
+    const value = new Map<string, KeyObject>();
+    for (const jwk of keys) {
+      if (jwk.kid && (!jwk.use || jwk.use === 'sig')) {
+        value.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+    this.keys = { value, fetchedAt: Date.now() };
+
+    return value.get(kid);
+  }
+
+  /**
+   * Loads the provider's discovery document
+   * @private
+   * @returns {Promise<OidcDiscovery>} The discovery document
+   */
+  private async getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.discovery || Date.now() - this.discovery.fetchedAt >= METADATA_CACHE_TTL) {
+      const issuer = this.config.issuer.replace(/\/$/, '');
+      const value = await requestJson<OidcDiscovery>(`${issuer}/.well-known/openid-configuration`);
+      this.discovery = { value, fetchedAt: Date.now() };
+    }
+
+    return this.discovery.value;
+  }
+}
+
+/**
+ * Configuration of the GitHub provider
+ */
+export interface GitHubProviderConfig {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * GitHub OAuth2 provider. GitHub has no ID token, so the profile and verified
+ * email are read from its REST API with the access token.
+ */
+export class GitHubProvider implements OAuthProvider {
+  public readonly name = 'github';
+
+  constructor(private config: GitHubProviderConfig) {}
+
+  public async getAuthorizationUrl(request: AuthorizationRequest): Promise<string> {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      redirect_uri: request.redirectUri,
+      scope: 'read:user user:email',
+      state: request.state,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+    });
+
+    return `https://github.com/login/oauth/authorize?${params.toString()}`;
+  }
+
+  public async exchangeCode(exchange: CodeExchange): Promise<ExternalProfile> {
+    const { access_token: accessToken } = await requestJson<{ access_token?: string }>(
+      'https://github.com/login/oauth/access_token',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          client_id: this.config.clientId,
+          client_secret: this.config.clientSecret,
+          code: exchange.code,
+          redirect_uri: exchange.redirectUri,
+          code_verifier: exchange.codeVerifier,
+        }).toString(),
+      }
+    );
+
+    if (!accessToken) {
+      throwError('GitHub did not return an access token', HTTP_UNAUTHENTICATED);
+    }
+
+    const headers = { Authorization: `Bearer ${accessToken}` };
+    const [user, emails] = await Promise.all([
+      requestJson<{ id: number; name?: string | null }>('https://api.github.com/user', { headers }),
+      requestJson<{ email: string; primary: boolean; verified: boolean }[]>(
+        'https://api.github.com/user/emails',
+        { headers }
+      ),
+    ]);
+
+    const primary = emails.find(email => email.primary) ?? emails[0];
+    const [firstName, ...lastName] = (user.name ?? '').trim().split(/\s+/);
+
+    return {
+      subject: String(user.id),
+      email: primary?.email.toLowerCase() ?? null,
+      emailVerified: primary?.verified === true,
+      firstName: firstName || undefined,
+      lastName: lastName.join(' ') || undefined,
+    };
+  }
+}
@@ -0,0 +1,475 @@
+/**
+ * @fileoverview Role service for managing roles and resolving permissions
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * This service handles:
+ * - Creating, editing and deleting roles at runtime
+ * - Assigning roles to users
+ * - Resolving the permissions of a session, with each role's permissions cached in Redis
+ *
+ * The cache entry of a role is dropped whenever the role changes, so edits take
+ * effect on the next request. Nobody can grant permissions they don't hold themselves,
+ * nor act on a user whose roles grant permissions they don't hold.
+ * Every change to a role or to a user's roles is audited.
+ */
+
+import { In } from 'typeorm';
+import { AppDataSource } from '@/data-source';
+import { Role } from '@/entity/role.entity';
+import { User } from '@/entity/user.entity';
+import auditService, { AuditService } from '../audit';
+import userService, { UserService } from '../user';
+import {
+  CONFLICT_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_FORBIDDEN,
+  HTTP_NOT_FOUND,
+} from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+import { DEFAULT_ROLES, grantsPermission, isValidPermission } from '@/core/common/permissions';
+import { revokeAllUserTokens } from '@/core/common/token-revocation';
+import { DatabaseService } from '@/core/db';
+import { getRedisService, RedisService } from '@/core/db/redis';
+import { JWTPayload } from '@/types';
+
+/**
+ * How long a role's permissions are cached, in seconds (1 hour)
+ * @constant {number}
+ */
+const PERMISSION_CACHE_TTL = 60 * 60;
+
+const PERMISSION_CACHE_PREFIX = 'rbac:role-permissions:';
+
+const ROLE_NAME_PATTERN = /^[a-z][a-z0-9_-]{1,49}$/;
+
+/**
+ * Service class responsible for role management and permission resolution
+ */
+export class RoleService {
+  private roleRepository = AppDataSource.getRepository(Role);
+
+  constructor(
+    private userService: UserService,
+    private auditService: AuditService
+  ) {
+    this.userService = userService;
+    this.auditService = auditService;
+  }
+
+  private get cache(): RedisService<string[]> {
+    return getRedisService<string[]>();
+  }
+
+  /**
+   * Creates the built-in roles that don't exist yet. Existing roles are left as edited.
+   * @returns {Promise<void>}
+   */
+  public async seedDefaultRoles(): Promise<void> {
+    for (const role of DEFAULT_ROLES) {
+      if (!(await this.roleRepository.exists({ where: { name: role.name } }))) {
+        await this.roleRepository.save(this.roleRepository.create({ ...role, isSystem: true }));
+      }
+    }
+  }
+
+  /**
+   * Lists all roles
+   * @returns {Promise<Role[]>} The roles, ordered by name
+   */
+  public async listRoles(): Promise<Role[]> {
+    return await this.roleRepository.find({ order: { name: 'ASC' } });
+  }
+
+  /**
+   * Retrieves a role by its name
+   * @param {string} name - The name of the role
+   * @returns {Promise<Role>} The role
+   * @throws {Error} If the role is not found
+   */
+  public async getRole(name: string): Promise<Role> {
+    const role = await this.roleRepository.findOne({ where: { name } });
+
+    if (!role) {
+      throwError('Role not found', HTTP_NOT_FOUND);
+    }
+
+    return role;
+  }
+
+  /**
+   * Creates a role
+   * @param {{name: string, description?: string, permissions: string[]}} data - The role
+   * @param {JWTPayload} requester - The session of the user creating the role
+   * @returns {Promise<Role>} The created role
+   * @throws {Error} If the name is invalid or taken, or a permission is unknown or not held
+   * by the requester
+   */
+  public async createRole(
+    data: { name: string; description?: string; permissions: string[] },
+    requester: JWTPayload
+  ): Promise<Role> {
+    if (!ROLE_NAME_PATTERN.test(data.name)) {
+      throwError(
+        'Role name must be 2-50 lowercase letters, digits, dashes or underscores',
+        HTTP_BAD_REQUEST
+      );
+    }
+
+    if (await this.roleRepository.exists({ where: { name: data.name } })) {
+      throwError('A role with this name already exists', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    await this.assertCanGrant(data.permissions, requester);
+
+    const role = await this.roleRepository.save(
+      this.roleRepository.create({
+        name: data.name,
+        description: data.description ?? '',
+        permissions: [...new Set(data.permissions)],
+      })
+    );
+    await this.auditService.record({
+      action: 'role.created',
+      actor: requester,
+      targetType: 'role',
+      targetId: role.name,
+      after: { description: role.description, permissions: role.permissions },
+    });
+
+    return role;
+  }
+
+  /**
+   * Updates a role's description or permissions
+   * @param {string} name - The name of the role
+   * @param {{description?: string, permissions?: string[]}} data - The fields to update
+   * @param {JWTPayload} requester - The session of the user editing the role
+   * @returns {Promise<Role>} The updated role
+   * @throws {Error} If the role is not found, or a permission is unknown or not held
+   * by the requester
+   */
+  public async updateRole(
+    name: string,
+    data: { description?: string; permissions?: string[] },
+    requester: JWTPayload
+  ): Promise<Role> {
+    const role = await this.getRole(name);
+    const before = { description: role.description, permissions: role.permissions };
+
+    if (data.permissions !== undefined) {
+      // The requester must hold everything the role grants, so nobody can edit a role
+      // more powerful than their own
+      await this.assertCanGrant([...role.permissions, ...data.permissions], requester);
+      role.permissions = [...new Set(data.permissions)];
+    }
+    if (data.description !== undefined) {
+      role.description = data.description;
+    }
+
+    const saved = await this.roleRepository.save(role);
+    await this.invalidate(name);
+    await this.auditService.record({
+      action: 'role.updated',
+      actor: requester,
+      targetType: 'role',
+      targetId: name,
+      before,
+      after: { description: saved.description, permissions: saved.permissions },
+    });
+
+    return saved;
+  }
+
+  /**
+   * Deletes a role and removes it from every user who had it
+   * @param {string} name - The name of the role
+   * @param {JWTPayload} requester - The session of the user deleting the role
+   * @returns {Promise<void>}
+   * @throws {Error} If the role is not found, is built in, or grants permissions
+   * the requester doesn't hold
+   */
+  public async deleteRole(name: string, requester: JWTPayload): Promise<void> {
+    const role = await this.getRole(name);
+
+    if (role.isSystem) {
+      throwError('Built-in roles cannot be deleted', HTTP_FORBIDDEN);
+    }
+
+    await this.assertCanGrant(role.permissions, requester);
+
+    await DatabaseService.getInstance().transaction(async queryRunner => {
+      await queryRunner.query(
+        'UPDATE "users" SET "roles" = array_remove("roles", $1) WHERE $1 = ANY("roles")',
+        [name]
+      );
+      await queryRunner.manager.remove(role);
+    });
+    await this.invalidate(name);
+    await this.auditService.record({
+      action: 'role.deleted',
+      actor: requester,
+      targetType: 'role',
+      targetId: name,
+      before: { description: role.description, permissions: role.permissions },
+    });
+  }
+
+  /**
+   * Grants a role to a user
+   * @param {string} name - The name of the role
+   * @param {string} userId - The ID of the user
+   * @param {JWTPayload} requester - The session of the user assigning the role
+   * @returns {Promise<string[]>} The user's roles
+   * @throws {Error} If the role or user is not found, or the role grants permissions
+   * the requester doesn't hold
+   */
+  public async assignRole(name: string, userId: string, requester: JWTPayload): Promise<string[]> {
+    const role = await this.getRole(name);
+    await this.assertCanGrant(role.permissions, requester);
+
+    const user = await this.userService.getUserById(userId);
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+    if (user.roles.includes(name)) {
+      return user.roles;
+    }
+
+    const updated = await this.userService.updateUser(userId, { roles: [...user.roles, name] });
+    await revokeAllUserTokens(userId);
+    await this.auditService.record({
+      action: 'role.assigned',
+      actor: requester,
+      targetType: 'user',
+      targetId: userId,
+      before: { roles: user.roles },
+      after: { roles: updated.roles },
+      metadata: { role: name },
+    });
+
+    return updated.roles;
+  }
+
+  /**
+   * Takes a role away from a user
+   * @param {string} name - The name of the role
+   * @param {string} userId - The ID of the user
+   * @param {JWTPayload} requester - The session of the user removing the role
+   * @returns {Promise<string[]>} The user's roles
+   * @throws {Error} If the role or user is not found, or the role grants permissions
+   * the requester doesn't hold
+   */
+  public async unassignRole(
+    name: string,
+    userId: string,
+    requester: JWTPayload
+  ): Promise<string[]> {
+    const role = await this.getRole(name);
+    await this.assertCanGrant(role.permissions, requester);
+
+    const user = await this.userService.getUserById(userId);
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+    if (!user.roles.includes(name)) {
+      return user.roles;
+    }
+
+    const updated = await this.userService.updateUser(userId, {
+      roles: user.roles.filter(role => role !== name),
+    });
+    // Access tokens carry role names, so make the user pick up the new roles now
+    await revokeAllUserTokens(userId);
+    await this.auditService.record({
+      action: 'role.unassigned',
+      actor: requester,
+      targetType: 'user',
+      targetId: userId,
+      before: { roles: user.roles },
+      after: { roles: updated.roles },
+      metadata: { role: name },
+    });
+
+    return updated.roles;
+  }
+
+  /**
+   * Fails unless every role exists and the requester holds all the permissions they grant
+   * @param {string[]} roleNames - Names of the roles to assign
+   * @param {JWTPayload} requester - The session of the assigning user
+   * @returns {Promise<void>}
+   * @throws {Error} If a role is unknown or grants permissions the requester doesn't hold
+   */
+  public async assertCanAssign(roleNames: string[], requester: JWTPayload): Promise<void> {
+    const roles = await this.roleRepository.find({ where: { name: In(roleNames) } });
+    const unknown = roleNames.filter(name => !roles.some(role => role.name === name));
+
+    if (unknown.length) {
+      throwError(`Unknown roles: ${unknown.join(', ')}`, HTTP_BAD_REQUEST);
+    }
+
+    await this.assertCanGrant(
+      roles.flatMap(role => role.permissions),
+      requester
+    );
+  }
+
+  /**
+   * Resolves the permissions granted by a set of roles
+   * @param {string[]} roleNames - Names of the roles
+   * @returns {Promise<string[]>} The combined permissions
+   */
+  public async getPermissionsForRoles(roleNames: string[]): Promise<string[]> {
+    const permissions = new Set<string>();
+    const uncached: string[] = [];
+
+    for (const name of new Set(roleNames)) {
+      const cached = await this.readCache(name);
+      if (cached) {
+        cached.forEach(permission => permissions.add(permission));
+      } else {
+        uncached.push(name);
+      }
+    }
+
+    if (uncached.length) {
+      const roles = await this.roleRepository.find({ where: { name: In(uncached) } });
+      for (const name of uncached) {
+        const rolePermissions = roles.find(role => role.name === name)?.permissions ?? [];
+        rolePermissions.forEach(permission => permissions.add(permission));
+        await this.writeCache(name, rolePermissions);
+      }
+    }
+
+    return [...permissions];
+  }
+
+  /**
+   * Resolves the permissions of a session: those of its roles plus any granted
+   * directly, e.g. to an API key
+   * @param {JWTPayload} session - The session
+   * @returns {Promise<string[]>} The permissions
+   */
+  public async getSessionPermissions(session: JWTPayload): Promise<string[]> {
+    const fromRoles = await this.getPermissionsForRoles(session.roles ?? []);
+    return [...new Set([...fromRoles, ...(session.permissions ?? [])])];
+  }
+
+  /**
+   * Checks whether a session holds every given permission
+   * @param {JWTPayload} session - The session
+   * @param {string[]} required - The permissions needed
+   * @returns {Promise<boolean>} True if all permissions are granted
+   */
+  public async hasPermissions(session: JWTPayload, required: string[]): Promise<boolean> {
+    const granted = await this.getSessionPermissions(session);
+    return required.every(permission => grantsPermission(granted, permission));
+  }
+
+  /**
+   * Fails unless every permission is valid and held by the requester
+   * @param {string[]} permissions - The permissions to grant
+   * @param {JWTPayload} requester - The session of the granting user
+   * @returns {Promise<void>}
+   */
+  public async assertCanGrant(permissions: string[], requester: JWTPayload): Promise<void> {
+    const invalid = permissions.filter(permission => !isValidPermission(permission));
+    if (invalid.length) {
+      throwError(`Unknown permissions: ${invalid.join(', ')}`, HTTP_BAD_REQUEST);
+    }
+
+    const missing = await this.findMissingPermissions(permissions, requester);
+    if (missing.length) {
+      throwError(`Cannot grant permissions you don't have: ${missing.join(', ')}`, HTTP_FORBIDDEN);
+    }
+  }
+
+  /**
+   * Fails unless the requester holds every permission the user's roles grant, so nobody
+   * can edit, delete, unlock or otherwise act on an account more powerful than their own
+   * @param {string} userId - The ID of the user acted on, who may be soft-deleted
+   * @param {JWTPayload} requester - The session of the acting user
+   * @returns {Promise<User>} The user
+   * @throws {Error} If the user is not found or has permissions the requester doesn't hold
+   */
+  public async assertCanManage(userId: string, requester: JWTPayload): Promise<User> {
+    const user = await this.userService.getUserById(userId, true);
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+
+    const missing = await this.findMissingPermissions(
+      await this.getPermissionsForRoles(user.roles),
+      requester
+    );
+    if (missing.length) {
+      throwError(
+        `Cannot manage a user with permissions you don't have: ${missing.join(', ')}`,
+        HTTP_FORBIDDEN
+      );
+    }
+
+    return user;
+  }
+
+  /**
+   * Lists the permissions the requester doesn't hold
+   * @private
+   * @param {string[]} permissions - The permissions to check
+   * @param {JWTPayload} requester - The session of the requester
+   * @returns {Promise<string[]>} The permissions not granted to the requester
+   */
+  private async findMissingPermissions(
+    permissions: string[],
+    requester: JWTPayload
+  ): Promise<string[]> {
+    const granted = await this.getSessionPermissions(requester);
+    return permissions.filter(permission => !grantsPermission(granted, permission));
+  }
+
+  /**
+   * Drops the cached permissions of a role
+   * @private
+   * @param {string} name - The name of the role
+   * @returns {Promise<void>}
+   */
+  private async invalidate(name: string): Promise<void> {
+    await this.cache.delete(`${PERMISSION_CACHE_PREFIX}${name}`);
+  }
+
+  /**
+   * Reads a role's permissions from the cache, treating cache errors as misses
+   * @private
+   * @param {string} name - The name of the role
+   * @returns {Promise<string[] | null>} The cached permissions, or null
+   */
+  private async readCache(name: string): Promise<string[] | null> {
+    try {
+      return await this.cache.get(`${PERMISSION_CACHE_PREFIX}${name}`);
+    } catch (error) {
+      logger.error('Failed to read cached role permissions:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Caches a role's permissions; failures only cost a database lookup later
+   * @private
+   * @param {string} name - The name of the role
+   * @param {string[]} permissions - The role's permissions
+   * @returns {Promise<void>}
+   */
+  private async writeCache(name: string, permissions: string[]): Promise<void> {
+    try {
+      await this.cache.set(`${PERMISSION_CACHE_PREFIX}${name}`, permissions, PERMISSION_CACHE_TTL);
+    } catch (error) {
+      logger.error('Failed to cache role permissions:', error);
+    }
+  }
+}
+
+export default new RoleService(userService, auditService);
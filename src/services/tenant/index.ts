@@ -0,0 +1,427 @@
+/**
+ * @fileoverview Tenant service for managing tenants, memberships and invitations
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * This service handles:
+ * - Creating, updating and deleting tenants
+ * - Membership of users in tenants, with a role per tenant
+ * - Inviting users to a tenant by email
+ *
+ * Member and invitation operations run against tenant-scoped repositories, so they
+ * only ever see rows of the tenant in the current tenant context.
+ */
+
+import { IsNull, QueryRunner } from 'typeorm';
+import { AppDataSource } from '@/data-source';
+import { Tenant } from '@/entity/tenant.entity';
+import { TenantInvitation } from '@/entity/tenant-invitation.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import emailService, { EmailService } from '../email';
+import {
+  CONFLICT_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_FORBIDDEN,
+  HTTP_NOT_FOUND,
+} from '@/core/common/constants';
+import { throwError } from '@/core/common/error-handler';
+import { generateOpaqueToken, hashToken } from '@/core/common/token';
+import { DatabaseService } from '@/core/db';
+import { getTenantRepository } from '@/core/db/tenant-context';
+import { JWTPayload, UserRole } from '@/types';
+
+/**
+ * Base URL of the client application, used to build invitation links
+ * @constant {string}
+ */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+/**
+ * Invitation lifetime in milliseconds (7 days)
+ * @constant {number}
+ */
+const INVITATION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Roles a user can have within a tenant
+ * @constant {string[]}
+ */
+export const TENANT_ROLES: string[] = Object.values(UserRole);
+
+/**
+ * Turns a tenant name into a URL-friendly slug
+ * @param {string} value - The tenant name
+ * @returns {string} The slug
+ */
+const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+
+/**
+ * A tenant together with the current user's role in it
+ */
+export interface TenantWithRole extends Tenant {
+  role: string;
+}
+
+/**
+ * Service class responsible for tenants, tenant memberships and invitations
+ */
+export class TenantService {
+  private tenantRepository = AppDataSource.getRepository(Tenant);
+  private membershipRepository = AppDataSource.getRepository(TenantMembership);
+  private invitationRepository = AppDataSource.getRepository(TenantInvitation);
+
+  constructor(private emailService: EmailService) {
+    this.emailService = emailService;
+  }
+
+  /**
+   * Creates a tenant with the creating user as its admin
+   * @param {string} ownerId - The ID of the user creating the tenant
+   * @param {{name: string, slug?: string}} data - Name and optional slug of the tenant
+   * @returns {Promise<Tenant>} The created tenant
+   * @throws {Error} If the slug is invalid or already taken
+   */
+  public async createTenant(
+    ownerId: string,
+    data: { name: string; slug?: string }
+  ): Promise<Tenant> {
+    const slug = await this.assertSlugAvailable(data.slug ?? data.name);
+
+    return await DatabaseService.getInstance().transaction(async (queryRunner: QueryRunner) => {
+      const tenant = await queryRunner.manager.save(
+        this.tenantRepository.create({ name: data.name, slug })
+      );
+      await queryRunner.manager.save(
+        this.membershipRepository.create({
+          tenantId: tenant.id,
+          userId: ownerId,
+          role: UserRole.ADMIN,
+        })
+      );
+      return tenant;
+    });
+  }
+
+  /**
+   * Lists the tenants a user is a member of, with the user's role in each
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<TenantWithRole[]>} The tenants
+   */
+  public async listTenantsForUser(userId: string): Promise<TenantWithRole[]> {
+    const memberships = await this.membershipRepository.find({
+      where: { userId },
+      relations: { tenant: true },
+      order: { createdAt: 'ASC' },
+    });
+
+    return memberships.map(membership => ({ ...membership.tenant, role: membership.role }));
+  }
+
+  /**
+   * Lists all tenants, for platform administrators
+   * @returns {Promise<Tenant[]>} The tenants
+   */
+  public async listTenants(): Promise<Tenant[]> {
+    return await this.tenantRepository.find({ order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * Retrieves a tenant by its ID
+   * @param {string} id - The ID of the tenant
+   * @returns {Promise<Tenant>} The tenant
+   * @throws {Error} If the tenant is not found
+   */
+  public async getTenant(id: string): Promise<Tenant> {
+    const tenant = await this.tenantRepository.findOne({ where: { id } });
+
+    if (!tenant) {
+      throwError('Tenant not found', HTTP_NOT_FOUND);
+    }
+
+    return tenant;
+  }
+
+  /**
+   * Updates a tenant's name or slug
+   * @param {string} id - The ID of the tenant
+   * @param {{name?: string, slug?: string}} data - The fields to update
+   * @returns {Promise<Tenant>} The updated tenant
+   * @throws {Error} If the tenant is not found or the slug is taken
+   */
+  public async updateTenant(id: string, data: { name?: string; slug?: string }): Promise<Tenant> {
+    const tenant = await this.getTenant(id);
+
+    if (data.slug !== undefined && data.slug !== tenant.slug) {
+      tenant.slug = await this.assertSlugAvailable(data.slug);
+    }
+    if (data.name !== undefined) {
+      tenant.name = data.name;
+    }
+
+    return await this.tenantRepository.save(tenant);
+  }
+
+  /**
+   * Deletes a tenant together with its memberships and invitations
+   * @param {string} id - The ID of the tenant
+   * @returns {Promise<void>}
+   * @throws {Error} If the tenant is not found
+   */
+  public async deleteTenant(id: string): Promise<void> {
+    const tenant = await this.getTenant(id);
+    await this.tenantRepository.remove(tenant);
+  }
+
+  /**
+   * Looks up a user's membership of a tenant.
+   * Used to establish the tenant context, so it is not tenant-scoped itself.
+   * @param {string} tenantId - The ID of the tenant
+   * @param {string} userId - The ID of the user
+   * @returns {Promise<TenantMembership | null>} The membership, or null if the user is not a member
+   */
+  public async getMembership(tenantId: string, userId: string): Promise<TenantMembership | null> {
+    return await this.membershipRepository.findOne({ where: { tenantId, userId } });
+  }
+
+  /**
+   * Lists the members of the current tenant
+   * @returns {Promise<TenantMembership[]>} The memberships, with their users
+   */
+  public async listMembers(): Promise<TenantMembership[]> {
+    const memberships = await getTenantRepository(TenantMembership).find({
+      relations: { user: true },
+      order: { createdAt: 'ASC' },
+    });
+
+    // Soft-deleted users aren't loaded, leaving their memberships without a user
+    return memberships.filter(membership => membership.user);
+  }
+
+  /**
+   * Changes a member's role in the current tenant
+   * @param {string} userId - The ID of the member
+   * @param {string} role - The new role
+   * @returns {Promise<TenantMembership>} The updated membership
+   * @throws {Error} If the role is invalid, the user is not a member or this would
+   * leave the tenant without an admin
+   */
+  public async updateMemberRole(userId: string, role: string): Promise<TenantMembership> {
+    this.assertValidRole(role);
+
+    const memberships = getTenantRepository(TenantMembership);
+    const membership = await this.getMember(userId);
+
+    if (membership.role === UserRole.ADMIN && role !== UserRole.ADMIN) {
+      await this.assertNotLastAdmin();
+    }
+
+    membership.role = role;
+    return await memberships.save(membership);
+  }
+
+  /**
+   * Removes a member from the current tenant
+   * @param {string} userId - The ID of the member
+   * @returns {Promise<void>}
+   * @throws {Error} If the user is not a member or is the tenant's last admin
+   */
+  public async removeMember(userId: string): Promise<void> {
+    const membership = await this.getMember(userId);
+
+    if (membership.role === UserRole.ADMIN) {
+      await this.assertNotLastAdmin();
+    }
+
+    await getTenantRepository(TenantMembership).delete({ id: membership.id });
+  }
+
+  /**
+   * Invites a user to the current tenant and emails them a single-use link
+   * @param {string} email - Email address of the invitee
+   * @param {string} role - Role the invitee gets on accepting
+   * @param {JWTPayload} inviter - The session of the inviting user
+   * @param {string} inviterRole - The inviting user's role in the tenant
+   * @returns {Promise<TenantInvitation>} The invitation
+   * @throws {Error} If the role is invalid or higher than the inviter may grant
+   */
+  public async inviteMember(
+    email: string,
+    role: string,
+    inviter: JWTPayload,
+    inviterRole: string
+  ): Promise<TenantInvitation> {
+    this.assertValidRole(role);
+
+    if (role === UserRole.ADMIN && inviterRole !== UserRole.ADMIN) {
+      throwError('Only tenant admins can invite admins', HTTP_FORBIDDEN);
+    }
+
+    const invitations = getTenantRepository(TenantInvitation);
+    const token = generateOpaqueToken();
+    const invitation = await invitations.save(
+      invitations.create({
+        email: email.toLowerCase(),
+        role,
+        tokenHash: hashToken(token),
+        invitedById: inviter.userId,
+        expiresAt: new Date(Date.now() + INVITATION_TTL),
+        acceptedAt: null,
+      })
+    );
+
+    const tenant = await this.getTenant(invitation.tenantId);
+    await this.emailService.sendEmail({
+      to: invitation.email,
+      subject: `You're invited to join ${tenant.name}`,
+      templateName: 'tenant-invitation',
+      data: {
+        tenantName: tenant.name,
+        inviterEmail: inviter.email,
+        role,
+        acceptUrl: `${APP_URL}/invitations/accept?token=${encodeURIComponent(token)}`,
+      },
+    });
+
+    return invitation;
+  }
+
+  /**
+   * Lists the pending invitations of the current tenant
+   * @returns {Promise<TenantInvitation[]>} Invitations that were not accepted yet
+   */
+  public async listInvitations(): Promise<TenantInvitation[]> {
+    return await getTenantRepository(TenantInvitation).find({
+      where: { acceptedAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * Revokes a pending invitation of the current tenant
+   * @param {string} id - The ID of the invitation
+   * @returns {Promise<void>}
+   * @throws {Error} If the invitation is not found
+   */
+  public async revokeInvitation(id: string): Promise<void> {
+    const removed = await getTenantRepository(TenantInvitation).delete({
+      id,
+      acceptedAt: IsNull(),
+    });
+
+    if (!removed) {
+      throwError('Invitation not found', HTTP_NOT_FOUND);
+    }
+  }
+
+  /**
+   * Accepts an invitation on behalf of the signed-in user.
+   * The invitation must have been sent to the user's own email address.
+   * @param {string} token - The invitation token from the email
+   * @param {JWTPayload} session - The session of the accepting user
+   * @returns {Promise<TenantMembership>} The new membership
+   * @throws {Error} If the invitation is invalid, expired, used, for another
+   * email address, or the user is already a member
+   */
+  public async acceptInvitation(token: string, session: JWTPayload): Promise<TenantMembership> {
+    const invitation = await this.invitationRepository.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+
+    if (
+      !invitation ||
+      invitation.acceptedAt ||
+      invitation.expiresAt <= new Date() ||
+      invitation.email !== session.email.toLowerCase()
+    ) {
+      throwError('Invalid or expired invitation', HTTP_BAD_REQUEST);
+    }
+
+    if (await this.getMembership(invitation.tenantId, session.userId)) {
+      throwError('You are already a member of this tenant', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    return await DatabaseService.getInstance().transaction(async (queryRunner: QueryRunner) => {
+      invitation.acceptedAt = new Date();
+      await queryRunner.manager.save(invitation);
+      return await queryRunner.manager.save(
+        this.membershipRepository.create({
+          tenantId: invitation.tenantId,
+          userId: session.userId,
+          role: invitation.role,
+        })
+      );
+    });
+  }
+
+  /**
+   * Finds a member of the current tenant or fails with a not found error
+   * @param {string} userId - The ID of the member
+   * @returns {Promise<TenantMembership>} The membership
+   * @throws {Error} If the user is not a member of the current tenant
+   */
+  public async getMember(userId: string): Promise<TenantMembership> {
+    const membership = await getTenantRepository(TenantMembership).findOne({ where: { userId } });
+
+    if (!membership) {
+      throwError('Member not found', HTTP_NOT_FOUND);
+    }
+
+    return membership;
+  }
+
+  /**
+   * Fails if the current tenant has only one admin left
+   * @private
+   * @returns {Promise<void>}
+   */
+  private async assertNotLastAdmin(): Promise<void> {
+    const admins = await getTenantRepository(TenantMembership).count({
+      where: { role: UserRole.ADMIN },
+    });
+
+    if (admins <= 1) {
+      throwError('A tenant must keep at least one admin', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+  }
+
+  /**
+   * Fails if a role is not a valid tenant role
+   * @private
+   * @param {string} role - The role
+   */
+  private assertValidRole(role: string): void {
+    if (!TENANT_ROLES.includes(role)) {
+      throwError(`Role must be one of: ${TENANT_ROLES.join(', ')}`, HTTP_BAD_REQUEST);
+    }
+  }
+
+  /**
+   * Normalizes a slug and fails if it is empty or already taken
+   * @private
+   * @param {string} value - The requested slug or tenant name
+   * @returns {Promise<string>} The normalized slug
+   */
+  private async assertSlugAvailable(value: string): Promise<string> {
+    const slug = slugify(value);
+
+    if (!slug) {
+      throwError('Slug must contain letters or digits', HTTP_BAD_REQUEST);
+    }
+
+    if (await this.tenantRepository.exists({ where: { slug } })) {
+      throwError('A tenant with this slug already exists', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    return slug;
+  }
+}
+
+export default new TenantService(emailService);
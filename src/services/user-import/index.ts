@@ -0,0 +1,585 @@
+/**
+ * @fileoverview User import service for onboarding users in bulk from spreadsheets
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * This service handles:
+ * - Parsing CSV and XLSX files into rows
+ * - Validating every row and reporting errors per row
+ * - Creating, updating or skipping users in a single transaction
+ * - Notifying the imported users
+ *
+ * An import is all-or-nothing: if any row is invalid nothing is written, and the
+ * report says what to fix. A dry run produces the same report without writing.
+ */
+
+import { Readable } from 'stream';
+import path from 'path';
+import csv from 'csv-parser';
+import { In, QueryRunner } from 'typeorm';
+import * as XLSX from 'xlsx';
+import { DatabaseService } from '@/core/db';
+import { hashPassword } from '@/core/common/bcrypt';
+import { HTTP_BAD_REQUEST, HTTP_FORBIDDEN } from '@/core/common/constants';
+import { throwError, throwValidationError } from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+import { generateOpaqueToken } from '@/core/common/token';
+import { AppDataSource } from '@/data-source';
+import { User } from '@/entity/user.entity';
+import { JWTPayload } from '@/types';
+import auditService, { AuditService } from '../audit';
+import authService, { AuthService } from '../auth';
+import emailService, { EmailService } from '../email';
+import roleService, { RoleService } from '../role';
+
+/**
+ * Maximum number of rows in one import
+ * @constant {number}
+ */
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Base URL of the client application, used to build links sent by email
+ * @constant {string}
+ */
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_BYTES = 72;
+
+/**
+ * Column names as they may appear in a file header, normalized to lower case
+ * without spaces, dashes or underscores, mapped to user fields
+ */
+const COLUMNS = new Map<string, keyof ImportRow>([
+  ['email', 'email'],
+  ['password', 'password'],
+  ['firstname', 'firstName'],
+  ['lastname', 'lastName'],
+  ['roles', 'roles'],
+  ['isactive', 'isActive'],
+]);
+
+/**
+ * What to do with rows whose email address already belongs to a user
+ */
+export type DuplicateStrategy = 'skip' | 'update';
+
+/**
+ * Options of an import
+ */
+export interface ImportOptions {
+  /** Validate and report without writing */
+  dryRun: boolean;
+  /** Whether existing users are skipped or updated */
+  onDuplicate: DuplicateStrategy;
+  /** Email the created users a welcome message */
+  sendWelcomeEmail: boolean;
+  /** The user running the import; they can only assign roles whose permissions they hold */
+  requester: JWTPayload;
+}
+
+/**
+ * Cells of one row, keyed by user field. Missing columns and empty cells are undefined.
+ */
+interface ImportRow {
+  email?: string;
+  password?: string;
+  firstName?: string;
+  lastName?: string;
+  roles?: string;
+  isActive?: string;
+}
+
+/**
+ * Outcome of one row
+ */
+export interface ImportRowResult {
+  /** Line of the row in the file, counting the header as line 1 */
+  row: number;
+  email: string;
+  status: 'created' | 'updated' | 'skipped' | 'invalid';
+  errors?: { field: string; message: string }[];
+}
+
+/**
+ * Report of an import
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  summary: Record<ImportRowResult['status'] | 'total', number>;
+  rows: ImportRowResult[];
+}
+
+/**
+ * A validated row and the user it creates or updates
+ */
+interface PlannedRow {
+  result: ImportRowResult;
+  user: User;
+  /** Whether the row had a password; users created without one are sent a reset link */
+  hasPassword: boolean;
+  /** Whether the row changes the roles of an existing user */
+  changesRoles: boolean;
+  /** Whether the update ends the user's sessions (roles changed or account deactivated) */
+  revokesSessions: boolean;
+  /** Roles and activation state of an existing user before the update */
+  before?: Pick<User, 'roles' | 'isActive'>;
+}
+
+/**
+ * Service class responsible for importing users from CSV and XLSX files
+ */
+export class UserImportService {
+  private userRepository = AppDataSource.getRepository(User);
+
+  constructor(
+    private authService: AuthService,
+    private emailService: EmailService,
+    private roleService: RoleService,
+    private auditService: AuditService
+  ) {
+    this.authService = authService;
+    this.emailService = emailService;
+    this.roleService = roleService;
+    this.auditService = auditService;
+  }
+
+  /**
+   * Imports users from an uploaded file
+   * @param {Express.Multer.File} file - The uploaded CSV or XLSX file
+   * @param {ImportOptions} options - Import options
+   * @returns {Promise<ImportReport>} The outcome of every row
+   * @throws {Error} Validation error carrying the report if any row is invalid, or if the
+   * file can't be read; forbidden error if a row assigns roles the requester can't grant
+   */
+  public async importUsers(
+    file: Express.Multer.File,
+    options: ImportOptions
+  ): Promise<ImportReport> {
+    const rows = await this.parseFile(file);
+
+    if (!rows.length) {
+      throwValidationError('Import file has no rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throwValidationError(`Import file can have at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const planned = await this.planRows(rows, options);
+    const report = this.buildReport(planned, options.dryRun);
+
+    if (report.summary.invalid && !options.dryRun) {
+      throwValidationError('Import file has invalid rows; nothing was imported', report);
+    }
+
+    const assignedRoles = planned
+      .filter(({ result, changesRoles }) => result.status === 'created' || changesRoles)
+      .flatMap(({ user }) => user.roles ?? []);
+    if (assignedRoles.length) {
+      await this.roleService.assertCanAssign([...new Set(assignedRoles)], options.requester);
+    }
+    // Replacing roles can also take privileges away, which is reserved for role managers
+    if (
+      planned.some(({ changesRoles }) => changesRoles) &&
+      !(await this.roleService.hasPermissions(options.requester, ['roles:write']))
+    ) {
+      throwError('Changing the roles of existing users requires roles:write', HTTP_FORBIDDEN);
+    }
+    // As with unassigning a role, the requester must hold everything a removed role grants
+    const removedRoles = planned
+      .filter(({ changesRoles }) => changesRoles)
+      .flatMap(({ user, before }) =>
+        (before?.roles ?? []).filter(role => !user.roles.includes(role))
+      );
+    if (removedRoles.length) {
+      await this.roleService.assertCanGrant(
+        await this.roleService.getPermissionsForRoles([...new Set(removedRoles)]),
+        options.requester
+      );
+    }
+
+    if (options.dryRun) {
+      return report;
+    }
+
+    const writes = planned.filter(
+      ({ result }) => result.status === 'created' || result.status === 'updated'
+    );
+    for (const { result, user } of writes) {
+      if (result.status === 'created') {
+        user.password = await hashPassword(user.password);
+      }
+    }
+
+    await DatabaseService.getInstance().transaction(async (queryRunner: QueryRunner) => {
+      await queryRunner.manager.save(
+        writes.map(({ user }) => user),
+        { chunk: 100 }
+      );
+    });
+
+    for (const { result, user, before } of writes) {
+      await this.auditService.record({
+        action: result.status === 'created' ? 'user.created' : 'user.updated',
+        actor: options.requester,
+        targetType: 'user',
+        targetId: user.id,
+        ...(before && { before }),
+        after: { roles: user.roles, isActive: user.isActive },
+        metadata: { source: 'import' },
+      });
+    }
+
+    for (const { user } of writes.filter(({ revokesSessions }) => revokesSessions)) {
+      await this.authService.revokeAllSessions(user.id);
+    }
+
+    this.notify(
+      writes.filter(({ result }) => result.status === 'created'),
+      options.sendWelcomeEmail
+    ).catch(error => logger.error('Failed to send import emails:', error));
+
+    logger.info('Users imported', { requesterId: options.requester.userId, ...report.summary });
+    await this.auditService.record({
+      action: 'user.imported',
+      actor: options.requester,
+      metadata: {
+        ...report.summary,
+        onDuplicate: options.onDuplicate,
+        userIds: writes.map(({ user }) => user.id),
+      },
+    });
+
+    return report;
+  }
+
+  /**
+   * Reads the rows of a CSV or XLSX file
+   * @private
+   * @param {Express.Multer.File} file - The uploaded file
+   * @returns {Promise<Array<{ line: number; cells: ImportRow }>>} The rows with their line numbers
+   * @throws {Error} If the file can't be parsed or has no email column
+   */
+  private async parseFile(
+    file: Express.Multer.File
+  ): Promise<{ line: number; cells: ImportRow }[]> {
+    let records: Record<string, unknown>[];
+
+    try {
+      records =
+        path.extname(file.originalname).toLowerCase() === '.xlsx'
+          ? this.parseXlsx(file.buffer)
+          : await this.parseCsv(file.buffer);
+    } catch (error) {
+      throwError(`Import file could not be read: ${error.message}`, HTTP_BAD_REQUEST);
+    }
+
+    if (records.length && !Object.keys(records[0]).some(key => COLUMNS.get(key) === 'email')) {
+      throwValidationError('Import file must have an email column');
+    }
+
+    return (
+      records
+        .map((record, index) => {
+          const cells: ImportRow = {};
+
+          for (const [key, value] of Object.entries(record)) {
+            const field = COLUMNS.get(key);
+            const text = value === undefined || value === null ? '' : String(value).trim();
+            if (field && text) {
+              cells[field] = text;
+            }
+          }
+
+          return { line: index + 2, cells };
+        })
+        // Spreadsheets often keep formatted but empty rows below the data
+        .filter(({ cells }) => Object.keys(cells).length > 0)
+    );
+  }
+
+  /**
+   * Parses a CSV file; headers are normalized for matching against `COLUMNS`
+   * @private
+   * @param {Buffer} buffer - The file content
+   * @returns {Promise<Record<string, string>[]>} One record per row
+   */
+  private parseCsv(buffer: Buffer): Promise<Record<string, string>[]> {
+    return new Promise((resolve, reject) => {
+      const records: Record<string, string>[] = [];
+
+      Readable.from(buffer)
+        .pipe(csv({ mapHeaders: ({ header }) => normalizeHeader(header), strict: true }))
+        .on('data', record => records.push(record))
+        .on('error', reject)
+        .on('end', () => resolve(records));
+    });
+  }
+
+  /**
+   * Parses the first sheet of an XLSX file; headers are normalized for matching against `COLUMNS`
+   * @private
+   * @param {Buffer} buffer - The file content
+   * @returns {Record<string, unknown>[]} One record per row
+   */
+  private parseXlsx(buffer: Buffer): Record<string, unknown>[] {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+    if (!sheet) {
+      return [];
+    }
+
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: false,
+      defval: '',
+      blankrows: false,
+    });
+    const [header = [], ...body] = rows;
+    const keys = header.map(cell => normalizeHeader(String(cell)));
+
+    return body.map(cells => Object.fromEntries(keys.map((key, index) => [key, cells[index]])));
+  }
+
+  /**
+   * Validates each row and decides whether it creates, updates or skips a user
+   * @private
+   * @param {Array<{ line: number; cells: ImportRow }>} rows - The parsed rows
+   * @param {ImportOptions} options - Import options
+   * @returns {Promise<PlannedRow[]>} The planned outcome of each row
+   */
+  private async planRows(
+    rows: { line: number; cells: ImportRow }[],
+    options: ImportOptions
+  ): Promise<PlannedRow[]> {
+    const emails = rows
+      .map(({ cells }) => cells.email?.toLowerCase())
+      .filter((email): email is string => !!email);
+    const existing = emails.length
+      ? await this.userRepository.find({
+          where: { email: In([...new Set(emails)]) },
+          withDeleted: true,
+        })
+      : [];
+    const knownRoles = new Set((await this.roleService.listRoles()).map(role => role.name));
+    const seen = new Map<string, number>();
+
+    return rows.map(({ line, cells }) => {
+      const email = cells.email?.toLowerCase() ?? '';
+      const errors = this.validateRow(cells, knownRoles);
+      const result: ImportRowResult = { row: line, email, status: 'invalid' };
+
+      if (seen.has(email)) {
+        errors.push({ field: 'email', message: `email is a duplicate of row ${seen.get(email)}` });
+      } else if (email) {
+        seen.set(email, line);
+      }
+
+      const roles = cells.roles ? parseRoles(cells.roles) : undefined;
+      const isActive = cells.isActive === undefined ? undefined : parseBoolean(cells.isActive);
+      const current = existing.find(user => user.email === email);
+      if (current?.deletedAt) {
+        errors.push({
+          field: 'email',
+          message: 'email belongs to a deleted user; restore or erase it first',
+        });
+      }
+
+      if (errors.length) {
+        return {
+          result: { ...result, errors },
+          user: current as User,
+          hasPassword: false,
+          changesRoles: false,
+          revokesSessions: false,
+        };
+      }
+
+      if (current) {
+        if (options.onDuplicate === 'skip') {
+          return {
+            result: { ...result, status: 'skipped' },
+            user: current,
+            hasPassword: false,
+            changesRoles: false,
+            revokesSessions: false,
+          };
+        }
+
+        // Passwords of existing users are never overwritten by an import
+        const changesRoles =
+          roles !== undefined && [...roles].sort().join() !== [...current.roles].sort().join();
+        const revokesSessions = changesRoles || (isActive === false && current.isActive);
+        const before = { roles: current.roles, isActive: current.isActive };
+        Object.assign(current, {
+          ...(cells.firstName !== undefined && { firstName: cells.firstName }),
+          ...(cells.lastName !== undefined && { lastName: cells.lastName }),
+          ...(roles !== undefined && { roles }),
+          ...(isActive !== undefined && { isActive }),
+        });
+
+        return {
+          result: { ...result, status: 'updated' },
+          user: current,
+          hasPassword: false,
+          changesRoles,
+          revokesSessions,
+          before,
+        };
+      }
+
+      const user = this.userRepository.create({
+        email,
+        // Users imported without a password can't sign in until they set one
+        password: cells.password ?? generateOpaqueToken(),
+        firstName: cells.firstName ?? '',
+        lastName: cells.lastName ?? '',
+        ...(roles && { roles }),
+        ...(isActive !== undefined && { isActive }),
+      });
+
+      return {
+        result: { ...result, status: 'created' },
+        user,
+        hasPassword: cells.password !== undefined,
+        changesRoles: false,
+        revokesSessions: false,
+      };
+    });
+  }
+
+  /**
+   * Validates the cells of one row
+   * @private
+   * @param {ImportRow} cells - The row
+   * @param {Set<string>} knownRoles - Names of the existing roles
+   * @returns {Array<{ field: string; message: string }>} The errors, empty if the row is valid
+   */
+  private validateRow(
+    cells: ImportRow,
+    knownRoles: Set<string>
+  ): { field: string; message: string }[] {
+    const errors: { field: string; message: string }[] = [];
+
+    if (!cells.email || !EMAIL_PATTERN.test(cells.email) || cells.email.length > 100) {
+      errors.push({ field: 'email', message: 'email must be a valid email address' });
+    }
+    if (cells.password !== undefined && cells.password.length < MIN_PASSWORD_LENGTH) {
+      errors.push({
+        field: 'password',
+        message: `password must be at least ${MIN_PASSWORD_LENGTH} characters long`,
+      });
+    }
+    if (cells.password !== undefined && Buffer.byteLength(cells.password) > MAX_PASSWORD_BYTES) {
+      errors.push({
+        field: 'password',
+        message: `password must be at most ${MAX_PASSWORD_BYTES} bytes long`,
+      });
+    }
+    for (const field of ['firstName', 'lastName'] as const) {
+      if ((cells[field]?.length ?? 0) > 50) {
+        errors.push({ field, message: `${field} must be at most 50 characters` });
+      }
+    }
+    if (cells.roles !== undefined) {
+      const unknown = parseRoles(cells.roles).filter(role => !knownRoles.has(role));
+      if (unknown.length) {
+        errors.push({ field: 'roles', message: `Unknown roles: ${unknown.join(', ')}` });
+      }
+    }
+    if (cells.isActive !== undefined && parseBoolean(cells.isActive) === undefined) {
+      errors.push({ field: 'isActive', message: 'isActive must be true or false' });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Summarizes the planned rows
+   * @private
+   * @param {PlannedRow[]} planned - The planned rows
+   * @param {boolean} dryRun - Whether the import is a dry run
+   * @returns {ImportReport} The report
+   */
+  private buildReport(planned: PlannedRow[], dryRun: boolean): ImportReport {
+    const summary = { total: planned.length, created: 0, updated: 0, skipped: 0, invalid: 0 };
+
+    for (const { result } of planned) {
+      summary[result.status] += 1;
+    }
+
+    return { dryRun, summary, rows: planned.map(({ result }) => result) };
+  }
+
+  /**
+   * Emails the created users. Inactive users are always asked to verify their email,
+   * as with users created one by one; with `sendWelcomeEmail` every user is welcomed,
+   * and users imported without a password are sent a link to set one.
+   * @private
+   * @param {PlannedRow[]} created - The rows that created users
+   * @param {boolean} sendWelcomeEmail - Whether to send welcome emails
+   * @returns {Promise<void>}
+   */
+  private async notify(created: PlannedRow[], sendWelcomeEmail: boolean): Promise<void> {
+    for (const { user, hasPassword } of created) {
+      if (!user.isActive) {
+        await this.authService.sendVerificationEmail(user);
+      }
+      if (!sendWelcomeEmail) {
+        continue;
+      }
+
+      await this.emailService.sendEmail({
+        to: user.email,
+        subject: 'Welcome aboard',
+        templateName: 'welcome',
+        data: {
+          companyName: process.env.FROM_NAME || 'Your Company',
+          customerName: user.firstName || user.email,
+          dashboardUrl: APP_URL,
+          supportEmail: process.env.FROM_EMAIL || 'noreply@yourcompany.com',
+        },
+      });
+      if (!hasPassword) {
+        await this.authService.requestPasswordReset(user.email);
+      }
+    }
+  }
+}
+
+/**
+ * Normalizes a header cell, e.g. `First Name` and `first_name` both become `firstname`
+ * @param {string} header - The header cell
+ * @returns {string} The normalized header
+ */
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Splits a roles cell such as `manager; user` into role names
+ * @param {string} value - The cell
+ * @returns {string[]} The role names
+ */
+const parseRoles = (value: string): string[] =>
+  [...new Set(value.split(/[;,|]/).map(role => role.trim().toLowerCase()))].filter(Boolean);
+
+/**
+ * Parses a boolean cell
+ * @param {string} value - The cell, e.g. `true`, `yes` or `1`
+ * @returns {boolean | undefined} The value, or undefined if the cell isn't a boolean
+ */
+const parseBoolean = (value: string): boolean | undefined => {
+  const normalized = value.toLowerCase();
+  if (['true', 'yes', '1'].includes(normalized)) {
+    return true;
+  }
+  if (['false', 'no', '0'].includes(normalized)) {
+    return false;
+  }
+  return undefined;
+};
+
+export default new UserImportService(authService, emailService, roleService, auditService);
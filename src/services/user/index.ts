@@ -19,11 +19,133 @@
  */
 
 import bcrypt from 'bcrypt';
-import { HTTP_NOT_FOUND, HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { In, LessThan, QueryRunner, SelectQueryBuilder } from 'typeorm';
+import {
+  CONFLICT_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_NOT_FOUND,
+  HTTP_UNAUTHENTICATED,
+} from '@/core/common/constants';
+import { DUMMY_PASSWORD_HASH, hashPassword } from '@/core/common/bcrypt';
 import { throwError } from '@/core/common/error-handler';
 import { generateToken } from '@/core/common/jwt';
+import { generateOpaqueToken, hashToken } from '@/core/common/token';
+import { removeUploadedFile } from '@/core/common/upload';
+import { DatabaseService } from '@/core/db';
+import { getCurrentTenantId } from '@/core/db/tenant-context';
 import { AppDataSource } from '@/data-source';
+import { ApiKey } from '@/entity/api-key.entity';
+import { DataExport } from '@/entity/data-export.entity';
+import { EmailLog } from '@/entity/email-log.entity';
+import { LinkedIdentity } from '@/entity/linked-identity.entity';
+import { RefreshSession } from '@/entity/refresh-session.entity';
+import { TenantInvitation } from '@/entity/tenant-invitation.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
 import { User } from '@/entity/user.entity';
+import { UserErasure } from '@/entity/user-erasure.entity';
+import auditService from '../audit';
+import { removeUserExports } from '../data-export';
+import lockoutService from '../lockout';
+
+/**
+ * Columns users can be sorted by. All are non-null, which keyset pagination relies on.
+ * @constant {string[]}
+ */
+export const USER_SORT_FIELDS = [
+  'createdAt',
+  'updatedAt',
+  'email',
+  'firstName',
+  'lastName',
+] as const;
+
+/**
+ * A column users can be sorted by
+ */
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+/**
+ * Filters, sorting and pagination for listing users.
+ * Pass either `offset` (page through by position) or `cursor` (continue after the
+ * last user of the previous page, stable under concurrent inserts), not both.
+ */
+export interface ListUsersOptions {
+  /** List soft-deleted users instead of current ones */
+  deleted?: boolean;
+  role?: string;
+  isActive?: boolean;
+  createdFrom?: Date;
+  createdTo?: Date;
+  /** Case-insensitive substring of the email address */
+  search?: string;
+  sortBy: UserSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  offset?: number;
+  cursor?: string;
+}
+
+/**
+ * Filters and sorting for exporting users; exports include every matching user
+ */
+export type ExportUsersOptions = Omit<ListUsersOptions, 'limit' | 'offset' | 'cursor'>;
+
+/**
+ * Columns of user exports. Credentials, tokens and MFA secrets are never exported.
+ * @constant {string[]}
+ */
+export const USER_EXPORT_COLUMNS = [
+  'id',
+  'email',
+  'firstName',
+  'lastName',
+  'roles',
+  'isActive',
+  'mfaEnabled',
+  'avatarUrl',
+  'lastLoginAt',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+/**
+ * A page of users
+ */
+export interface UserPage {
+  users: User[];
+  pagination: {
+    limit: number;
+    /** Set for offset pagination */
+    offset?: number;
+    /** Number of users matching the filters, set for offset pagination */
+    total?: number;
+    hasMore: boolean;
+    /** Cursor of the next page, null on the last page */
+    nextCursor: string | null;
+  };
+}
+
+/**
+ * Days soft-deleted users are kept, and can be restored, before they are purged
+ * @constant {number}
+ */
+export const DELETED_USER_RETENTION_DAYS = Number(process.env.DELETED_USER_RETENTION_DAYS) || 30;
+
+/**
+ * Number of users removed per query when purging
+ * @constant {number}
+ */
+const PURGE_BATCH_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Escapes the wildcard characters of a LIKE pattern
+ * @param {string} value - The literal text
+ * @returns {string} The escaped text
+ */
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
 
 /**
  * Service class responsible for handling all user-related operations
@@ -31,72 +153,184 @@ import { User } from '@/entity/user.entity';
  */
 export class UserService {
   private userRepository = AppDataSource.getRepository(User);
+  private erasureRepository = AppDataSource.getRepository(UserErasure);
+  private emailLogRepository = AppDataSource.getRepository(EmailLog);
+  private refreshSessionRepository = AppDataSource.getRepository(RefreshSession);
 
   /**
    * Creates a new user in the database
    * @param {string} email - User's email address
-   * @param {string} password - User's password
+   * @param {string} password - User's plain text password, hashed before it is stored
+   * @param {Partial<Pick<User, 'firstName' | 'lastName' | 'roles' | 'isActive'>>} [profile] - Optional
+   * profile fields, roles and activation state
    * @returns {Promise<User>} Newly created user object
    */
-  public async createUser(email: string, password: string) {
+  public async createUser(
+    email: string,
+    password: string,
+    profile: Partial<Pick<User, 'firstName' | 'lastName' | 'roles' | 'isActive'>> = {}
+  ) {
     const user = this.userRepository.create({
       email,
-      password,
+      password: await hashPassword(password),
+      firstName: profile.firstName ?? '',
+      lastName: profile.lastName ?? '',
+      ...(profile.roles && { roles: profile.roles }),
+      ...(profile.isActive !== undefined && { isActive: profile.isActive }),
     });
 
-    return await this.userRepository.save(user);
+    const saved = await this.userRepository.save(user);
+    await auditService.record({
+      action: 'user.created',
+      targetType: 'user',
+      targetId: saved.id,
+      after: { roles: saved.roles, isActive: saved.isActive },
+    });
+
+    return saved;
   }
 
   /**
-   * Authenticates a user and generates a JWT token
+   * Authenticates a user and generates a JWT token.
+   * Failed attempts are throttled per account and per IP by the LockoutService.
    * @param {string} email - User's email address
    * @param {string} password - User's password
+   * @param {string} [ip] - Client IP address, used for per-IP throttling
    * @returns {Promise<{user: {id: string, email: string}, token: string}>} User data and authentication token
-   * @throws {Error} If user not found or password is invalid
+   * @throws {Error} If the email or password is wrong or the account is locked
    */
-  public async authenticateUser(email: string, password: string) {
+  public async authenticateUser(email: string, password: string, ip?: string) {
+    const attempt = await lockoutService.beginAttempt(email, ip);
+
     const user = await this.userRepository.findOne({ where: { email } });
 
-    if (!user) {
-      throwError('User not found', HTTP_NOT_FOUND);
+    // Unknown users get the same answer, after the same bcrypt work, as a wrong password
+    const isPasswordValid = user
+      ? await user.validatePassword(password)
+      : await this.verifyPassword(password, DUMMY_PASSWORD_HASH);
+    if (!user || !isPasswordValid) {
+      await lockoutService.recordFailure(attempt);
+      throwError('Invalid email or password', HTTP_UNAUTHENTICATED);
     }
 
-    const isPasswordValid = await user.validatePassword(password);
-    if (!isPasswordValid) {
-      throwError('Invalid password', HTTP_UNAUTHENTICATED);
-    }
+    await lockoutService.reset(email);
 
     const token = generateToken({ userId: user.id, email: user.email });
 
     return { user: { id: user.id, email: user.email }, token };
   }
 
+  /**
+   * Lists users matching the filters, one page at a time. Within a tenant context only the
+   * tenant's members are listed.
+   * @param {ListUsersOptions} options - Filters, sorting and pagination
+   * @returns {Promise<UserPage>} The page of users
+   * @throws {Error} If both offset and cursor are given or the cursor is invalid
+   */
+  public async listUsers(options: ListUsersOptions): Promise<UserPage> {
+    if (options.offset !== undefined && options.cursor !== undefined) {
+      throwError('Use either offset or cursor pagination, not both', HTTP_BAD_REQUEST);
+    }
+
+    const query = this.userRepository.createQueryBuilder('user');
+    this.applyFilters(query, options);
+
+    const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+    query.orderBy(`user.${options.sortBy}`, direction).addOrderBy('user.id', direction);
+
+    let total: number | undefined;
+    if (options.cursor !== undefined) {
+      this.whereAfter(query, options, await this.decodeCursor(options.cursor));
+    } else {
+      total = await query.getCount();
+      query.offset(options.offset ?? 0);
+    }
+
+    // One extra row tells whether there is a next page
+    const rows = await query.limit(options.limit + 1).getMany();
+    const hasMore = rows.length > options.limit;
+    const users = rows.slice(0, options.limit);
+
+    return {
+      users,
+      pagination: {
+        limit: options.limit,
+        ...(options.cursor === undefined && { offset: options.offset ?? 0, total }),
+        hasMore,
+        nextCursor: hasMore ? Buffer.from(users[users.length - 1].id).toString('base64url') : null,
+      },
+    };
+  }
+
+  /**
+   * Reads every user matching the filters, in order, fetching them from the database in
+   * batches so exports don't hold all users in memory
+   * @param {ExportUsersOptions} options - Filters and sorting
+   * @param {number} [batchSize] - Number of users fetched per query
+   * @returns {AsyncGenerator<User>} The users
+   */
+  public async *streamUsers(
+    options: ExportUsersOptions,
+    batchSize: number = 500
+  ): AsyncGenerator<User> {
+    const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+    let lastId: string | undefined;
+
+    do {
+      const query = this.userRepository.createQueryBuilder('user');
+      this.applyFilters(query, options);
+      if (lastId) {
+        this.whereAfter(query, options, lastId);
+      }
+
+      const batch = await query
+        .orderBy(`user.${options.sortBy}`, direction)
+        .addOrderBy('user.id', direction)
+        .limit(batchSize)
+        .getMany();
+
+      yield* batch;
+      lastId = batch.length === batchSize ? batch[batch.length - 1].id : undefined;
+    } while (lastId);
+  }
+
   /**
    * Retrieves a user by their ID
    * @param {string} id - User's unique identifier
+   * @param {boolean} [withDeleted] - Also find soft-deleted users
    * @returns {Promise<User|null>} User object if found, null otherwise
    */
-  public async getUserById(id: string) {
-    return await this.userRepository.findOne({ where: { id } });
+  public async getUserById(id: string, withDeleted: boolean = false) {
+    return await this.userRepository.findOne({ where: { id }, withDeleted });
   }
 
   /**
    * Finds a user by their email address
    * @param {string} email - User's email address
+   * @param {boolean} [withDeleted] - Also find soft-deleted users, which still hold their address
    * @returns {Promise<User|null>} User object if found, null otherwise
    */
-  public async findUserByEmail(email: string) {
-    return await this.userRepository.findOne({ where: { email } });
+  public async findUserByEmail(email: string, withDeleted: boolean = false) {
+    return await this.userRepository.findOne({ where: { email }, withDeleted });
+  }
+
+  /**
+   * Finds a user by the hash of a pending password reset token
+   * @param {string} tokenHash - SHA-256 hash of the reset token
+   * @returns {Promise<User|null>} User object if found, null otherwise
+   */
+  public async findUserByPasswordResetToken(tokenHash: string) {
+    return await this.userRepository.findOne({ where: { passwordResetToken: tokenHash } });
   }
 
   /**
    * Updates user information in the database
    * @param {string} id - User's unique identifier
-   * @param {Partial<{email: string, password: string}>} updateData - Data to update
+   * @param {Partial<User>} updateData - Data to update
    * @returns {Promise<User>} Updated user object
    * @throws {Error} If user not found
    */
-  public async updateUser(id: string, updateData: Partial<{ email: string; password: string }>) {
+  public async updateUser(id: string, updateData: Partial<User>) {
     const user = await this.userRepository.findOne({ where: { id } });
     if (!user) {
       throwError('User not found', HTTP_NOT_FOUND);
@@ -107,7 +341,8 @@ export class UserService {
   }
 
   /**
-   * Deletes a user from the database
+   * Soft-deletes a user. The user can be restored until the retention period ends and
+   * the purge job removes them for good.
    * @param {string} id - User's unique identifier
    * @returns {Promise<User>} Deleted user object
    * @throws {Error} If user not found
@@ -118,7 +353,291 @@ export class UserService {
       throwError('User not found', HTTP_NOT_FOUND);
     }
 
-    return await this.userRepository.remove(user);
+    // A restored account starts without sessions
+    await this.refreshSessionRepository.delete({ userId: id });
+
+    const deleted = await this.userRepository.softRemove(user);
+    await auditService.record({ action: 'user.deleted', targetType: 'user', targetId: id });
+
+    return deleted;
+  }
+
+  /**
+   * Restores a soft-deleted user
+   * @param {string} id - User's unique identifier
+   * @returns {Promise<User>} Restored user object
+   * @throws {Error} If no deleted user has the ID
+   */
+  public async restoreUser(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({ where: { id }, withDeleted: true });
+    if (!user?.deletedAt) {
+      throwError('Deleted user not found', HTTP_NOT_FOUND);
+    }
+    if (await this.erasureRepository.exists({ where: { userId: id } })) {
+      throwError('Erased users cannot be restored', HTTP_CONFLICT, CONFLICT_ERROR);
+    }
+
+    await this.userRepository.restore(id);
+    await auditService.record({ action: 'user.restored', targetType: 'user', targetId: id });
+
+    return (await this.getUserById(id)) as User;
+  }
+
+  /**
+   * Permanently removes users soft-deleted before the given date, together with their
+   * avatars, data exports, email history and, through cascading foreign keys, their related rows
+   * @param {Date} deletedBefore - Users deleted before this date are removed
+   * @returns {Promise<number>} The number of removed users
+   */
+  public async purgeDeletedUsers(deletedBefore: Date): Promise<number> {
+    let purged = 0;
+
+    for (;;) {
+      const users = await this.userRepository.find({
+        select: { id: true, email: true, avatarUrl: true },
+        where: { deletedAt: LessThan(deletedBefore) },
+        withDeleted: true,
+        take: PURGE_BATCH_SIZE,
+      });
+
+      if (!users.length) {
+        return purged;
+      }
+
+      await this.userRepository.delete(users.map(user => user.id));
+      await this.emailLogRepository.delete({ recipient: In(users.map(user => user.email)) });
+      for (const { id, avatarUrl } of users) {
+        await removeUserExports(id);
+        if (avatarUrl) {
+          await removeUploadedFile(avatarUrl);
+        }
+        await auditService.record({
+          action: 'user.purged',
+          actor: null,
+          targetType: 'user',
+          targetId: id,
+        });
+      }
+      purged += users.length;
+    }
+  }
+
+  /**
+   * Erases a user's personal data for a GDPR "right to erasure" request. The user row is
+   * anonymized and soft-deleted; linked identities, sessions, API keys, tenant memberships,
+   * data exports, email history and invitations sent to the user's address are removed; and
+   * the erasure is recorded. Audit log entries are kept; they refer to the user by ID only.
+   * @param {string} id - User's unique identifier
+   * @param {Object} request - Who requested the erasure and why
+   * @param {string} [request.requestedById] - ID of the user carrying out the erasure
+   * @param {string} [request.reason] - Reason or reference of the request
+   * @returns {Promise<UserErasure>} The erasure record
+   * @throws {Error} If user not found or already erased
+   */
+  public async eraseUser(
+    id: string,
+    request: { requestedById?: string; reason?: string } = {}
+  ): Promise<UserErasure> {
+    const erasure = await DatabaseService.getInstance().transaction(
+      async (queryRunner: QueryRunner) => {
+        const { manager } = queryRunner;
+        const user = await manager.findOne(User, { where: { id }, withDeleted: true });
+
+        if (!user) {
+          throwError('User not found', HTTP_NOT_FOUND);
+        }
+        if (await manager.exists(UserErasure, { where: { userId: id } })) {
+          throwError('User has already been erased', HTTP_CONFLICT, CONFLICT_ERROR);
+        }
+
+        const addresses = [user.email, ...(user.pendingEmail ? [user.pendingEmail] : [])];
+        const affectedRows: Record<string, number> = {
+          users: 1,
+          linked_identities: (await manager.delete(LinkedIdentity, { userId: id })).affected ?? 0,
+          refresh_sessions: (await manager.delete(RefreshSession, { userId: id })).affected ?? 0,
+          api_keys: (await manager.delete(ApiKey, { ownerId: id })).affected ?? 0,
+          tenant_memberships:
+            (await manager.delete(TenantMembership, { userId: id })).affected ?? 0,
+          tenant_invitations:
+            (await manager.delete(TenantInvitation, { email: In(addresses) })).affected ?? 0,
+          data_exports: (await manager.delete(DataExport, { userId: id })).affected ?? 0,
+          email_logs: (await manager.delete(EmailLog, { recipient: In(addresses) })).affected ?? 0,
+        };
+        const { email, avatarUrl } = user;
+
+        Object.assign(user, {
+          email: `erased-${id}@erased.invalid`,
+          firstName: '',
+          lastName: '',
+          // An unknown random password, so the account can never be signed in to again
+          password: await hashPassword(generateOpaqueToken()),
+          pendingEmail: null,
+          avatarUrl: null,
+          isActive: false,
+          roles: [],
+          passwordResetToken: null,
+          passwordResetExpiresAt: null,
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaRecoveryCodes: null,
+          mfaLastUsedStep: null,
+          lastLoginAt: null,
+        });
+        await manager.save(user);
+        if (!user.deletedAt) {
+          await manager.softDelete(User, id);
+        }
+
+        return {
+          record: await manager.save(
+            manager.create(UserErasure, {
+              userId: id,
+              emailHash: hashToken(email),
+              requestedById: request.requestedById ?? null,
+              reason: request.reason ?? null,
+              affectedRows,
+            })
+          ),
+          avatarUrl,
+        };
+      }
+    );
+
+    // Files aren't part of the transaction, so they go once the erasure is committed
+    await removeUserExports(id);
+    if (erasure.avatarUrl) {
+      await removeUploadedFile(erasure.avatarUrl);
+    }
+    await auditService.record({
+      action: 'user.erased',
+      targetType: 'user',
+      targetId: id,
+      metadata: { erasureId: erasure.record.id, affectedRows: erasure.record.affectedRows },
+    });
+
+    return erasure.record;
+  }
+
+  /**
+   * Replaces a user's avatar and deletes the previous image file
+   * @param {string} id - User's unique identifier
+   * @param {string | null} avatarUrl - URL of the new avatar, or null to remove it
+   * @returns {Promise<User>} Updated user object
+   * @throws {Error} If user not found
+   */
+  public async setAvatar(id: string, avatarUrl: string | null): Promise<User> {
+    const user = await this.getUserById(id);
+    if (!user) {
+      throwError('User not found', HTTP_NOT_FOUND);
+    }
+
+    const previous = user.avatarUrl;
+    const updated = await this.updateUser(id, { avatarUrl });
+
+    if (previous && previous !== avatarUrl) {
+      await removeUploadedFile(previous);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Fails if another user already has the email address
+   * @param {string} email - The email address
+   * @param {string} [exceptId] - ID of the user allowed to have it
+   * @returns {Promise<void>}
+   * @throws {Error} If the email address is taken
+   */
+  public async assertEmailAvailable(email: string, exceptId?: string): Promise<void> {
+    // Deleted users keep their address until purged, so they can be restored
+    const existing = await this.findUserByEmail(email, true);
+
+    if (existing && existing.id !== exceptId) {
+      throwError(
+        existing.deletedAt
+          ? 'A deleted user with this email exists; restore or erase it first'
+          : 'A user with this email already exists',
+        HTTP_CONFLICT,
+        CONFLICT_ERROR
+      );
+    }
+  }
+
+  /**
+   * Adds the list filters, and the current tenant if any, to a user query
+   * @private
+   * @param {SelectQueryBuilder<User>} query - The query
+   * @param {ListUsersOptions} options - The filters
+   */
+  private applyFilters(query: SelectQueryBuilder<User>, options: ExportUsersOptions): void {
+    // Within a tenant context only the tenant's members are listed
+    const tenantId = getCurrentTenantId();
+    if (tenantId) {
+      query.innerJoin(
+        TenantMembership,
+        'membership',
+        'membership.userId = user.id AND membership.tenantId = :tenantId',
+        { tenantId }
+      );
+    }
+    if (options.deleted) {
+      query.withDeleted().andWhere('user.deletedAt IS NOT NULL');
+    }
+    if (options.role) {
+      query.andWhere(':role = ANY(user.roles)', { role: options.role });
+    }
+    if (options.isActive !== undefined) {
+      query.andWhere('user.isActive = :isActive', { isActive: options.isActive });
+    }
+    if (options.createdFrom) {
+      query.andWhere('user.createdAt >= :createdFrom', { createdFrom: options.createdFrom });
+    }
+    if (options.createdTo) {
+      query.andWhere('user.createdAt <= :createdTo', { createdTo: options.createdTo });
+    }
+    if (options.search) {
+      query.andWhere('user.email ILIKE :search', { search: `%${escapeLike(options.search)}%` });
+    }
+  }
+
+  /**
+   * Restricts a sorted user query to the users after the given one (keyset pagination)
+   * @private
+   * @param {SelectQueryBuilder<User>} query - The query
+   * @param {ExportUsersOptions} options - The sorting
+   * @param {string} id - ID of the last user already read
+   */
+  private whereAfter(
+    query: SelectQueryBuilder<User>,
+    options: ExportUsersOptions,
+    id: string
+  ): void {
+    // Row comparison against the user's own values keeps full timestamp precision
+    query.andWhere(
+      `(user.${options.sortBy}, user.id) ${options.order === 'asc' ? '>' : '<'} ` +
+        `(SELECT "after"."${options.sortBy}", "after"."id" FROM "users" "after" WHERE "after"."id" = :afterId)`,
+      { afterId: id }
+    );
+  }
+
+  /**
+   * Decodes a pagination cursor into the ID of the last user of the previous page
+   * @private
+   * @param {string} cursor - The cursor from the previous page
+   * @returns {Promise<string>} The user ID
+   * @throws {Error} If the cursor is malformed or its user no longer exists
+   */
+  private async decodeCursor(cursor: string): Promise<string> {
+    const id = Buffer.from(cursor, 'base64url').toString();
+
+    if (
+      !UUID_PATTERN.test(id) ||
+      !(await this.userRepository.exists({ where: { id }, withDeleted: true }))
+    ) {
+      throwError('Invalid pagination cursor', HTTP_BAD_REQUEST);
+    }
+
+    return id;
   }
 
   /**
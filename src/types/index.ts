@@ -8,6 +8,8 @@
 
 //
 import { Request, Response, NextFunction } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { ParsedQs } from 'qs';
 
 declare global {
   namespace Express {
@@ -15,6 +17,8 @@ declare global {
       session: {
         user: AuthUser | JWTPayload | null;
       };
+      /** Tenant the request is scoped to, set by `belongsToTenant` */
+      tenant?: TenantAccess;
     }
   }
 }
@@ -28,6 +32,71 @@ export interface JWTPayload {
   email: string;
   roles?: string[];
   tenantId?: string;
+  /** Permissions granted to the request, set for API key sessions */
+  permissions?: string[];
+  /** ID of the API key the request was made with, unset for user tokens */
+  apiKeyId?: string;
+  /** ID of the refresh session the token was issued to, unset for API key sessions */
+  sessionId?: string;
+  /** Unique token id, set when the token is issued */
+  jti?: string;
+  /** Issued-at time in seconds, set when the token is issued */
+  iat?: number;
+  /** Issued-at time in milliseconds, set when the token is issued, for revocation cut-offs */
+  iatMs?: number;
+  /** Expiry time in seconds, set when the token is issued */
+  exp?: number;
+}
+
+/**
+ * Interface defining the structure of refresh token payload data.
+ * Tokens issued from the same login share a family so reuse can revoke them together.
+ */
+export interface RefreshTokenPayload {
+  userId: string;
+  familyId: string;
+}
+
+/**
+ * Interface defining the structure of email verification token data.
+ * The email is included so a link sent to a previous address stops working.
+ */
+export interface EmailVerificationPayload {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Interface defining the structure of the token issued between the password
+ * and second-factor steps of a login.
+ */
+export interface MfaPendingPayload {
+  userId: string;
+  /** Unique token id, set when the token is issued, so the token can be used only once */
+  jti?: string;
+  /** Issued-at time in seconds, set when the token is issued */
+  iat?: number;
+  /** Expiry time in seconds, set when the token is issued */
+  exp?: number;
+}
+
+/**
+ * Interface defining the response to a password login that still needs a second factor.
+ */
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Interface defining the token pair returned to clients after authentication.
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
 }
 
 /**
@@ -50,6 +119,25 @@ export interface AuthUser {
   tenantId?: string;
 }
 
+/**
+ * Interface defining the tenant a request is scoped to and the user's role in it.
+ */
+export interface TenantAccess {
+  id: string;
+  role: string;
+}
+
+/**
+ * Interface defining one invalid field of a request, as reported in validation errors.
+ */
+export interface FieldError {
+  /** Part of the request holding the field, when known */
+  location?: 'params' | 'query' | 'body';
+  /** Name of the field; nested fields are joined with dots, e.g. `items.0.name` */
+  field: string;
+  message: string;
+}
+
 /**
  * Type definition for Express middleware functions.
  * Handles request processing and can be async or synchronous.
@@ -98,26 +186,28 @@ export type ErrorMiddleware = (
 ) => void | Promise<void>;
 
 /**
- * Type definition for Express request handlers with optional generic type.
- * Handles specific route logic with typed request parameters.
+ * Type definition for Express request handlers with optional generic types.
+ * Handles specific route logic with a typed request body, query and route parameters,
+ * usually the DTOs checked by the `validate` middleware.
  *
- * @template T - Type for request parameters/body
- * @param {Request<T>} req - Express request object with generic type
+ * @template TBody - Type of the request body
+ * @template TQuery - Type of the request query
+ * @template TParams - Type of the route parameters
+ * @param {Request<TParams, unknown, TBody, TQuery>} req - Express request object with generic types
  * @param {Response} res - Express response object
  * @param {NextFunction} next - Express next function
  * @returns {void | Promise<void>} Nothing or a Promise that resolves to nothing
  *
  * @example
  *
- * interface CreateUserBody { name: string; email: string; }
- * const createUser: RequestHandler<CreateUserBody> = (req, res) => {
- *   const { name, email } = req.body;
+ * const createUser: RequestHandler<CreateUserDto> = (req, res) => {
+ *   const { email, password } = req.body;
  *   // Handle user creation
  * };
  *
  */
-export type RequestHandler<T = any> = (
-  req: Request<T>,
+export type RequestHandler<TBody = any, TQuery = ParsedQs, TParams = ParamsDictionary> = (
+  req: Request<TParams, unknown, TBody, TQuery>,
   res: Response,
   next: NextFunction
 ) => void | Promise<void>;
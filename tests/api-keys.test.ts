@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Tests of API key creation, authentication and revocation
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { HTTP_BAD_REQUEST, HTTP_FORBIDDEN } from '@/core/common/constants';
+import { User } from '@/entity/user.entity';
+import { ApiKeyService } from '@/services/api-key';
+import auditService from '@/services/audit';
+import roleService from '@/services/role';
+import userService from '@/services/user';
+import { JWTPayload, UserRole } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+describe('ApiKeyService', () => {
+  const apiKeyService = new ApiKeyService();
+  let owner: User;
+  let session: JWTPayload;
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    await roleService.seedDefaultRoles();
+    owner = await userService.createUser('ada@example.com', 'correct horse battery', {
+      roles: [UserRole.MANAGER],
+      isActive: true,
+    });
+    session = { userId: owner.id, email: owner.email, roles: owner.roles };
+  });
+
+  it('authenticates a key as its owner with the key scopes', async () => {
+    const { apiKey, key } = await apiKeyService.createKey(session, {
+      name: 'reporting',
+      permissions: ['users:read'],
+    });
+
+    expect(key).toMatch(/^coco_[a-f0-9]{12}_/);
+    expect(apiKey.keyHash).not.toContain(key);
+    await expect(apiKeyService.authenticate(key)).resolves.toEqual({
+      userId: owner.id,
+      email: owner.email,
+      roles: [UserRole.MANAGER],
+      permissions: ['users:read'],
+      tenantId: undefined,
+      apiKeyId: apiKey.id,
+    });
+  });
+
+  it('rejects malformed, unknown and tampered keys', async () => {
+    const { key } = await apiKeyService.createKey(session, { name: 'ci' });
+    const tampered = `${key.slice(0, -1)}${key.endsWith('A') ? 'B' : 'A'}`;
+
+    await expect(apiKeyService.authenticate('not-a-key')).resolves.toBeNull();
+    await expect(apiKeyService.authenticate(tampered)).resolves.toBeNull();
+  });
+
+  it('refuses scopes the owner does not hold', async () => {
+    await expect(
+      apiKeyService.createKey(session, { name: 'ci', roles: [UserRole.ADMIN] })
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+    await expect(
+      apiKeyService.createKey(session, { name: 'ci', permissions: ['users:write'] })
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+    await expect(
+      apiKeyService.createKey(session, { name: 'ci', expiresAt: new Date(Date.now() - 1000) })
+    ).rejects.toMatchObject({ statusCode: HTTP_BAD_REQUEST });
+  });
+
+  it('stops accepting a revoked key', async () => {
+    const { apiKey, key } = await apiKeyService.createKey(session, { name: 'ci' });
+
+    await apiKeyService.revokeKey(apiKey.id, session);
+
+    await expect(apiKeyService.authenticate(key)).resolves.toBeNull();
+  });
+
+  it('only lets the owner or a user administrator revoke a key', async () => {
+    const { apiKey } = await apiKeyService.createKey(session, { name: 'ci' });
+    const stranger = { userId: 'someone-else', email: 'eve@example.com', roles: [UserRole.USER] };
+
+    await expect(apiKeyService.revokeKey(apiKey.id, stranger)).rejects.toMatchObject({
+      statusCode: HTTP_FORBIDDEN,
+    });
+  });
+
+  it('stops accepting an expired key', async () => {
+    const { key } = await apiKeyService.createKey(session, {
+      name: 'ci',
+      expiresAt: new Date(Date.now() + 60 * 1000),
+    });
+    jest.useFakeTimers({ now: Date.now() + 2 * 60 * 1000 });
+
+    try {
+      await expect(apiKeyService.authenticate(key)).resolves.toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('narrows the key to the roles and permissions its owner still holds', async () => {
+    const { key } = await apiKeyService.createKey(session, {
+      name: 'reporting',
+      permissions: ['users:read'],
+    });
+
+    await userService.updateUser(owner.id, { roles: [UserRole.USER] });
+
+    await expect(apiKeyService.authenticate(key)).resolves.toMatchObject({
+      roles: [],
+      permissions: [],
+    });
+  });
+
+  it('records the creation and the revocation of a key in the audit log', async () => {
+    const record = jest.spyOn(auditService, 'record');
+
+    try {
+      const { apiKey } = await apiKeyService.createKey(session, { name: 'ci' });
+      await apiKeyService.revokeKey(apiKey.id, session);
+      await apiKeyService.revokeKey(apiKey.id, session);
+
+      expect(record.mock.calls.map(([entry]) => entry)).toEqual([
+        expect.objectContaining({
+          action: 'api_key.created',
+          actor: session,
+          targetType: 'api_key',
+          targetId: apiKey.id,
+        }),
+        expect.objectContaining({ action: 'api_key.revoked', targetId: apiKey.id }),
+      ]);
+    } finally {
+      record.mockRestore();
+    }
+  });
+
+  it('stops accepting keys of a deactivated owner', async () => {
+    const { key } = await apiKeyService.createKey(session, { name: 'ci' });
+
+    await userService.updateUser(owner.id, { isActive: false });
+
+    await expect(apiKeyService.authenticate(key)).resolves.toBeNull();
+  });
+
+  it('stops accepting keys of a deleted owner', async () => {
+    const { key } = await apiKeyService.createKey(session, { name: 'ci' });
+
+    await userService.deleteUser(owner.id);
+
+    await expect(apiKeyService.authenticate(key)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Tests of email verification at signup
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import {
+  EMAIL_NOT_VERIFIED_ERROR,
+  HTTP_BAD_REQUEST,
+  HTTP_FORBIDDEN,
+} from '@/core/common/constants';
+import { generateEmailVerificationToken } from '@/core/common/jwt';
+import auditService from '@/services/audit';
+import { AuthService } from '@/services/auth';
+import { EmailService } from '@/services/email';
+import lockoutService from '@/services/lockout';
+import mfaService from '@/services/mfa';
+import userService from '@/services/user';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+const EMAIL = 'ada@example.com';
+const PASSWORD = 'correct horse battery staple';
+
+describe('email verification', () => {
+  const emailService = { sendEmail: jest.fn() };
+  const authService = new AuthService(
+    userService,
+    emailService as unknown as EmailService,
+    lockoutService,
+    mfaService,
+    auditService
+  );
+
+  /**
+   * Returns the token of the last verification link sent
+   */
+  const lastToken = () => {
+    const { data } = emailService.sendEmail.mock.lastCall[0];
+    return new URL(data.verificationUrl).searchParams.get('token') as string;
+  };
+
+  const signup = () =>
+    authService.signup({ email: EMAIL, password: PASSWORD, name: 'Ada Lovelace' });
+
+  beforeEach(() => {
+    resetRedis();
+    resetDatabase();
+    emailService.sendEmail.mockReset().mockResolvedValue(undefined);
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z'), doNotFake: ['setImmediate'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('creates an inactive account that can log in once its email is verified', async () => {
+    const user = await signup();
+
+    expect(user).toMatchObject({ isActive: false, firstName: 'Ada', lastName: 'Lovelace' });
+    expect(emailService.sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: EMAIL, templateName: 'verify-email' })
+    );
+    await expect(authService.login(EMAIL, PASSWORD)).rejects.toMatchObject({
+      name: EMAIL_NOT_VERIFIED_ERROR,
+      statusCode: HTTP_FORBIDDEN,
+    });
+
+    await expect(authService.verifyEmail(lastToken())).resolves.toMatchObject({ isActive: true });
+    await expect(authService.login(EMAIL, PASSWORD)).resolves.toMatchObject({ id: user.id });
+  });
+
+  it('rejects an expired or tampered token', async () => {
+    await signup();
+    const token = lastToken();
+
+    await expect(authService.verifyEmail(`${token}x`)).rejects.toMatchObject({
+      message: 'Invalid or expired verification token',
+      statusCode: HTTP_BAD_REQUEST,
+    });
+
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000 + 1000);
+    await expect(authService.verifyEmail(token)).rejects.toMatchObject({
+      statusCode: HTTP_BAD_REQUEST,
+    });
+  });
+
+  it('rejects a token issued for another email address of the account', async () => {
+    const user = await signup();
+    const token = generateEmailVerificationToken({ userId: user.id, email: 'old@example.com' });
+
+    await expect(authService.verifyEmail(token)).rejects.toMatchObject({
+      statusCode: HTTP_BAD_REQUEST,
+    });
+  });
+
+  it('resends the link only to unverified accounts', async () => {
+    await signup();
+    emailService.sendEmail.mockClear();
+
+    await authService.resendVerificationEmail(EMAIL);
+    await authService.resendVerificationEmail('nobody@example.com');
+    expect(emailService.sendEmail).toHaveBeenCalledTimes(1);
+
+    await authService.verifyEmail(lastToken());
+    emailService.sendEmail.mockClear();
+    await authService.resendVerificationEmail(EMAIL);
+    expect(emailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('refuses a second account for the same email', async () => {
+    await signup();
+
+    await expect(signup()).rejects.toMatchObject({ statusCode: HTTP_BAD_REQUEST });
+  });
+});
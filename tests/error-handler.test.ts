@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Tests of how errors are translated into statuses and problem details
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import jwt, { JsonWebTokenError, TokenExpiredError } from 'jsonwebtoken';
+import { EntityNotFoundError, QueryFailedError } from 'typeorm';
+import {
+  ACCOUNT_LOCKED_ERROR,
+  ERROR_CODES,
+  HTTP_BAD_REQUEST,
+  HTTP_CONFLICT,
+  HTTP_FORBIDDEN,
+  HTTP_INTERNAL_SERVER_ERROR,
+  HTTP_NOT_FOUND,
+  HTTP_PAYLOAD_TOO_LARGE,
+  HTTP_TOO_MANY_REQUESTS,
+  HTTP_UNAUTHENTICATED,
+  HTTP_UNPROCESSABLE_ENTITY,
+} from '@/core/common/constants';
+import errorHandler, {
+  createError,
+  translateError,
+  validationError,
+} from '@/core/common/error-handler';
+import { logger } from '@/core/common/logger';
+
+/**
+ * Creates a database error carrying a PostgreSQL error code
+ */
+const queryFailed = (code: string) =>
+  new QueryFailedError('INSERT INTO users ...', [], Object.assign(new Error('failed'), { code }));
+
+/**
+ * Creates an error thrown by the body parsers
+ */
+const httpError = (status: number, type: string, message: string) =>
+  Object.assign(new Error(message), { status, type, expose: true });
+
+describe('translateError', () => {
+  it('keeps application errors as they are', () => {
+    const error = createError('Account locked', HTTP_TOO_MANY_REQUESTS, ACCOUNT_LOCKED_ERROR);
+
+    expect(translateError(error)).toBe(error);
+    expect(error).toMatchObject({ statusCode: HTTP_TOO_MANY_REQUESTS, code: 'ACCOUNT_LOCKED' });
+  });
+
+  it.each([
+    ['a unique violation', HTTP_CONFLICT, ERROR_CODES.ALREADY_EXISTS, queryFailed('23505')],
+    [
+      'a foreign key violation',
+      HTTP_CONFLICT,
+      ERROR_CODES.REFERENCE_CONFLICT,
+      queryFailed('23503'),
+    ],
+    ['a malformed value', HTTP_BAD_REQUEST, ERROR_CODES.INVALID_VALUE, queryFailed('22P02')],
+    [
+      'another query failure',
+      HTTP_INTERNAL_SERVER_ERROR,
+      ERROR_CODES.INTERNAL_ERROR,
+      queryFailed('40001'),
+    ],
+    [
+      'a missing entity',
+      HTTP_NOT_FOUND,
+      ERROR_CODES.NOT_FOUND,
+      new EntityNotFoundError('User', { id: 1 }),
+    ],
+  ])('maps %s to %i %s', (_, statusCode, code, error) => {
+    expect(translateError(error)).toMatchObject({ statusCode, code });
+  });
+
+  it('maps token errors to 401, telling expired tokens apart', () => {
+    const expired = jwt.sign({}, 'secret', { expiresIn: -1 });
+    const verify = (token: string) => {
+      try {
+        jwt.verify(token, 'secret');
+      } catch (error) {
+        return error as Error;
+      }
+      throw new Error('Token was accepted');
+    };
+
+    expect(verify(expired)).toBeInstanceOf(TokenExpiredError);
+    expect(translateError(verify(expired))).toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+      code: ERROR_CODES.TOKEN_EXPIRED,
+    });
+    expect(translateError(new JsonWebTokenError('invalid signature'))).toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+      code: ERROR_CODES.TOKEN_INVALID,
+      message: 'Invalid token',
+    });
+  });
+
+  it('maps body parser errors to their client status', () => {
+    expect(
+      translateError(httpError(HTTP_BAD_REQUEST, 'entity.parse.failed', 'Unexpected token'))
+    ).toMatchObject({
+      statusCode: HTTP_BAD_REQUEST,
+      code: ERROR_CODES.MALFORMED_BODY,
+      message: 'Request body is not valid JSON',
+    });
+    expect(
+      translateError(
+        httpError(HTTP_PAYLOAD_TOO_LARGE, 'entity.too.large', 'request entity too large')
+      )
+    ).toMatchObject({ statusCode: HTTP_PAYLOAD_TOO_LARGE, code: ERROR_CODES.PAYLOAD_TOO_LARGE });
+  });
+
+  it('turns anything else into an internal server error', () => {
+    expect(translateError(new TypeError('Cannot read properties of undefined'))).toMatchObject({
+      statusCode: HTTP_INTERNAL_SERVER_ERROR,
+      code: ERROR_CODES.INTERNAL_ERROR,
+    });
+  });
+});
+
+describe('createError', () => {
+  it('picks the error type by name, or else by status', () => {
+    expect(createError('Nope', HTTP_FORBIDDEN)).toMatchObject({
+      name: 'ForbiddenError',
+      code: ERROR_CODES.FORBIDDEN,
+    });
+    expect(createError('Teapot', 418)).toMatchObject({ name: 'AppError', statusCode: 418 });
+  });
+});
+
+describe('errorHandler', () => {
+  let loggerError: jest.SpyInstance;
+
+  /**
+   * Runs the handler for an error and returns the status and the problem details sent
+   */
+  const handle = (error: Error, originalUrl = '/api/v1/users?token=secret') => {
+    const res = {
+      headersSent: false,
+      status: jest.fn().mockReturnThis(),
+      type: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    const req = { method: 'GET', originalUrl } as Request;
+
+    errorHandler(error, req, res as unknown as Response, jest.fn() as NextFunction);
+
+    expect(res.type).toHaveBeenCalledWith('application/problem+json');
+    return { status: res.status.mock.calls[0][0], body: res.json.mock.calls[0][0] };
+  };
+
+  beforeEach(() => {
+    loggerError = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    loggerError.mockRestore();
+  });
+
+  it('answers client errors with problem details and without logging', () => {
+    const { status, body } = handle(createError('User not found', HTTP_NOT_FOUND));
+
+    expect(status).toBe(HTTP_NOT_FOUND);
+    expect(body).toMatchObject({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: HTTP_NOT_FOUND,
+      detail: 'User not found',
+      instance: '/api/v1/users',
+      code: ERROR_CODES.NOT_FOUND,
+      correlationId: expect.any(String),
+    });
+    expect(loggerError).not.toHaveBeenCalled();
+  });
+
+  it('lists the invalid fields of validation errors', () => {
+    const fields = [{ field: 'email', messages: ['email must be an email'] }];
+    const { status, body } = handle(validationError('Validation failed', fields));
+
+    expect(status).toBe(HTTP_UNPROCESSABLE_ENTITY);
+    expect(body).toMatchObject({ code: ERROR_CODES.VALIDATION_FAILED, errors: fields });
+    expect(body).not.toHaveProperty('data');
+  });
+
+  it('hides the cause of unexpected failures and logs it without the query string', () => {
+    const { status, body } = handle(new Error('connect ECONNREFUSED 10.0.0.5:5432'));
+
+    expect(status).toBe(HTTP_INTERNAL_SERVER_ERROR);
+    expect(body.detail).toBe('An unexpected error occurred');
+    expect(JSON.stringify(body)).not.toContain('ECONNREFUSED');
+    expect(loggerError).toHaveBeenCalledTimes(1);
+    expect(loggerError.mock.calls[0][0]).toBe(`GET /api/v1/users failed [${body.correlationId}]:`);
+    expect(JSON.stringify(loggerError.mock.calls)).not.toContain('secret');
+  });
+
+  it('passes errors on once the response has started', () => {
+    const next = jest.fn();
+    const res = { headersSent: true, status: jest.fn() };
+    const error = new Error('stream broke');
+
+    errorHandler(error, {} as Request, res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledWith(error);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * @fileoverview In-memory stand-in for the TypeORM data source, for tests
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Replaces `@/data-source` through `jest.mock`, so services run against plain arrays
+ * instead of PostgreSQL. Repositories read the entities' decorators for primary keys,
+ * column defaults, timestamps, soft deletes and relations, and support the subset of
+ * the repository API the services use: `where` objects on columns (or arrays of them,
+ * OR-ed) with `In`, `LessThan`, `MoreThan`, `IsNull` and `Not`, `order`, many-to-one
+ * `relations`, `withDeleted`, `skip` and `take`. Query builders and raw queries are not
+ * supported.
+ *
+ * @example
+ * ```typescript
+ * jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+ * ```
+ */
+
+import { randomUUID } from 'crypto';
+import { FindOperator, getMetadataArgsStorage, ObjectLiteral } from 'typeorm';
+
+type EntityClass<T = ObjectLiteral> = new () => T;
+
+type Where = Record<string, unknown>;
+
+interface FindOptions {
+  where?: Where | Where[];
+  order?: Record<string, 'ASC' | 'DESC' | 'asc' | 'desc'>;
+  relations?: Record<string, boolean> | string[];
+  withDeleted?: boolean;
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * Columns and relations of an entity, read from its decorators
+ */
+interface EntityShape {
+  primary: string;
+  generatedPrimary: boolean;
+  defaults: [string, unknown][];
+  createDate?: string;
+  updateDate?: string;
+  deleteDate?: string;
+  relations: Map<string, { target: () => EntityClass; joinColumn: string }>;
+}
+
+const repositories = new Map<EntityClass, MemoryRepository<ObjectLiteral>>();
+
+/**
+ * Reads the columns and relations of an entity from the TypeORM decorators
+ * @param {EntityClass} target - The entity class
+ * @returns {EntityShape} The shape of the entity
+ */
+const shapeOf = (target: EntityClass): EntityShape => {
+  const storage = getMetadataArgsStorage();
+  const columns = storage.columns.filter(column => column.target === target);
+  const primary = columns.find(column => column.options.primary)?.propertyName ?? 'id';
+  const byMode = (mode: string) => columns.find(column => column.mode === mode)?.propertyName;
+
+  return {
+    primary,
+    generatedPrimary: storage.generations.some(
+      generation => generation.target === target && generation.propertyName === primary
+    ),
+    defaults: columns
+      .filter(column => column.options.default !== undefined)
+      .map(column => [column.propertyName, column.options.default]),
+    createDate: byMode('createDate'),
+    updateDate: byMode('updateDate'),
+    deleteDate: byMode('deleteDate'),
+    relations: new Map(
+      storage.relations
+        .filter(relation => relation.target === target)
+        .map(relation => [
+          relation.propertyName,
+          {
+            target: relation.type as () => EntityClass,
+            joinColumn:
+              storage.joinColumns.find(
+                column => column.target === target && column.propertyName === relation.propertyName
+              )?.name ?? `${relation.propertyName}Id`,
+          },
+        ])
+    ),
+  };
+};
+
+/**
+ * Copies a row so callers can't change stored rows without saving them
+ * @param {EntityClass} target - The entity class
+ * @param {ObjectLiteral} row - The row
+ * @returns {ObjectLiteral} The copy, an instance of the entity class
+ */
+const copy = <T extends ObjectLiteral>(target: EntityClass<T>, row: T): T => {
+  const instance = new target();
+
+  for (const [key, value] of Object.entries(row)) {
+    (instance as ObjectLiteral)[key] = Array.isArray(value)
+      ? [...value]
+      : value instanceof Date
+        ? new Date(value)
+        : value;
+  }
+
+  return instance;
+};
+
+/**
+ * Checks a value against a `where` condition
+ * @param {unknown} actual - The stored value
+ * @param {unknown} expected - The condition: a value or a find operator
+ * @returns {boolean} True if the value matches
+ */
+const matchesValue = (actual: unknown, expected: unknown): boolean => {
+  if (!(expected instanceof FindOperator)) {
+    return actual instanceof Date && expected instanceof Date
+      ? actual.getTime() === expected.getTime()
+      : actual === expected;
+  }
+
+  const operand = expected.value;
+  switch (expected.type) {
+    case 'in':
+      return (operand as unknown[]).includes(actual);
+    case 'lessThan':
+      return actual !== null && actual !== undefined && (actual as number) < (operand as number);
+    case 'moreThan':
+      return actual !== null && actual !== undefined && (actual as number) > (operand as number);
+    case 'isNull':
+      return actual === null || actual === undefined;
+    case 'not':
+      return !matchesValue(actual, operand);
+    default:
+      throw new Error(`Find operator ${expected.type} is not supported in tests`);
+  }
+};
+
+/**
+ * Repository keeping the rows of one entity in memory
+ */
+export class MemoryRepository<T extends ObjectLiteral> {
+  private rows: T[] = [];
+  private shape: EntityShape;
+
+  constructor(private target: EntityClass<T>) {
+    this.shape = shapeOf(target);
+  }
+
+  create(data: Partial<T> = {}): T {
+    return Object.assign(new this.target(), data);
+  }
+
+  async save<E extends T | T[]>(entities: E): Promise<E> {
+    for (const entity of Array.isArray(entities) ? entities : [entities]) {
+      this.write(entity);
+    }
+    return entities;
+  }
+
+  async insert(data: Partial<T> | Partial<T>[]): Promise<void> {
+    for (const entity of Array.isArray(data) ? data : [data]) {
+      this.write(this.create(entity));
+    }
+  }
+
+  async find(options: FindOptions = {}): Promise<T[]> {
+    const conditions = options.where
+      ? Array.isArray(options.where)
+        ? options.where
+        : [options.where]
+      : [{}];
+    const { deleteDate } = this.shape;
+    let found = this.rows.filter(
+      row =>
+        (options.withDeleted || !deleteDate || !row[deleteDate]) &&
+        conditions.some(where => this.matches(row, where))
+    );
+
+    for (const [key, direction] of Object.entries(options.order ?? {}).reverse()) {
+      const sign = direction.toUpperCase() === 'DESC' ? -1 : 1;
+      found = [...found].sort((a, b) => (a[key] < b[key] ? -sign : a[key] > b[key] ? sign : 0));
+    }
+
+    found = found.slice(options.skip ?? 0, (options.skip ?? 0) + (options.take ?? found.length));
+
+    return found.map(row => this.withRelations(copy(this.target, row), options.relations));
+  }
+
+  async findBy(where: Where | Where[]): Promise<T[]> {
+    return this.find({ where });
+  }
+
+  async findOne(options: FindOptions): Promise<T | null> {
+    return (await this.find(options))[0] ?? null;
+  }
+
+  async findOneBy(where: Where | Where[]): Promise<T | null> {
+    return this.findOne({ where });
+  }
+
+  async findOneOrFail(options: FindOptions): Promise<T> {
+    const found = await this.findOne(options);
+    if (!found) {
+      throw new Error(`No ${this.target.name} matches the query`);
+    }
+    return found;
+  }
+
+  async exists(options: FindOptions = {}): Promise<boolean> {
+    return (await this.find(options)).length > 0;
+  }
+
+  async existsBy(where: Where | Where[]): Promise<boolean> {
+    return this.exists({ where });
+  }
+
+  async count(options: FindOptions = {}): Promise<number> {
+    return (await this.find(options)).length;
+  }
+
+  async update(criteria: unknown, data: Partial<T>): Promise<{ affected: number }> {
+    const matched = this.select(criteria);
+    for (const row of matched) {
+      Object.assign(row, data, this.shape.updateDate && { [this.shape.updateDate]: new Date() });
+    }
+    return { affected: matched.length };
+  }
+
+  async delete(criteria: unknown): Promise<{ affected: number }> {
+    const matched = new Set(this.select(criteria));
+    this.rows = this.rows.filter(row => !matched.has(row));
+    return { affected: matched.size };
+  }
+
+  async softRemove<E extends T | T[]>(entities: E): Promise<E> {
+    for (const entity of Array.isArray(entities) ? entities : [entities]) {
+      (entity as ObjectLiteral)[this.shape.deleteDate as string] = new Date();
+      this.write(entity);
+    }
+    return entities;
+  }
+
+  async softDelete(criteria: unknown): Promise<{ affected: number }> {
+    return this.update(criteria, { [this.shape.deleteDate as string]: new Date() } as Partial<T>);
+  }
+
+  async restore(criteria: unknown): Promise<{ affected: number }> {
+    const { deleteDate } = this.shape;
+    const matched = this.select(criteria);
+    for (const row of matched) {
+      (row as ObjectLiteral)[deleteDate as string] = null;
+    }
+    return { affected: matched.length };
+  }
+
+  /**
+   * Removes every row
+   */
+  clear(): void {
+    this.rows = [];
+  }
+
+  createQueryBuilder(): never {
+    throw new Error('Query builders are not supported in tests');
+  }
+
+  /**
+   * Inserts a new row or updates the row with the same primary key, filling in the
+   * generated key, defaults and timestamps on the entity like TypeORM does
+   * @private
+   * @param {T} entity - The entity
+   */
+  private write(entity: T): void {
+    const { primary, createDate, updateDate } = this.shape;
+    const record = entity as ObjectLiteral;
+    const existing = record[primary] && this.rows.find(row => row[primary] === record[primary]);
+    const now = new Date();
+
+    if (existing) {
+      if (updateDate) {
+        record[updateDate] = now;
+      }
+      Object.assign(existing, this.columnsOf(record));
+      return;
+    }
+
+    if (record[primary] === undefined && this.shape.generatedPrimary) {
+      record[primary] = randomUUID();
+    }
+    for (const [key, value] of this.shape.defaults) {
+      if (record[key] === undefined) {
+        record[key] = Array.isArray(value) ? [...value] : value;
+      }
+    }
+    for (const key of [createDate, updateDate]) {
+      if (key && record[key] === undefined) {
+        record[key] = now;
+      }
+    }
+
+    this.rows.push(copy(this.target, this.columnsOf(record) as T));
+  }
+
+  /**
+   * Leaves out loaded relations and undefined properties, which aren't stored
+   * @private
+   * @param {ObjectLiteral} record - The entity
+   * @returns {ObjectLiteral} The column values
+   */
+  private columnsOf(record: ObjectLiteral): ObjectLiteral {
+    return Object.fromEntries(
+      Object.entries(record).filter(
+        ([key, value]) => value !== undefined && !this.shape.relations.has(key)
+      )
+    );
+  }
+
+  /**
+   * Finds the stored rows an `update` or `delete` applies to
+   * @private
+   * @param {unknown} criteria - A primary key, an array of them, or a `where` object
+   * @returns {T[]} The stored rows, soft-deleted ones included
+   */
+  private select(criteria: unknown): T[] {
+    const { primary } = this.shape;
+    const where: Where =
+      typeof criteria === 'string'
+        ? { [primary]: criteria }
+        : Array.isArray(criteria)
+          ? { [primary]: new FindOperator('in', criteria) }
+          : (criteria as Where);
+
+    return this.rows.filter(row => this.matches(row, where));
+  }
+
+  /**
+   * Checks a row against a `where` object
+   * @private
+   * @param {T} row - The row
+   * @param {Where} where - The conditions, all of which must hold
+   * @returns {boolean} True if the row matches
+   */
+  private matches(row: T, where: Where): boolean {
+    return Object.entries(where).every(([key, expected]) => matchesValue(row[key], expected));
+  }
+
+  /**
+   * Loads the requested many-to-one relations of a row. Soft-deleted related rows are
+   * left out, as TypeORM does.
+   * @private
+   * @param {T} row - The row
+   * @param {FindOptions['relations']} relations - The relations to load
+   * @returns {T} The row
+   */
+  private withRelations(row: T, relations: FindOptions['relations']): T {
+    const names = Array.isArray(relations)
+      ? relations
+      : Object.keys(relations ?? {}).filter(name => relations?.[name]);
+
+    for (const name of names) {
+      const relation = this.shape.relations.get(name);
+      if (!relation) {
+        throw new Error(`${this.target.name} has no relation ${name}`);
+      }
+      const repository = relatedRepository(this.shape, name);
+      (row as ObjectLiteral)[name] =
+        repository.rows.find(
+          related =>
+            related[repository.shape.primary] === row[relation.joinColumn] &&
+            !(repository.shape.deleteDate && related[repository.shape.deleteDate])
+        ) ?? null;
+      if (row[name]) {
+        (row as ObjectLiteral)[name] = copy(relation.target(), row[name]);
+      }
+    }
+
+    return row;
+  }
+}
+
+/**
+ * Gets the repository of the target of a relation
+ * @param {EntityShape} shape - Shape of the entity that has the relation
+ * @param {string} name - Name of the relation
+ * @returns {MemoryRepository} The repository of the related entity
+ */
+const relatedRepository = (shape: EntityShape, name: string): MemoryRepository<ObjectLiteral> =>
+  getRepository((shape.relations.get(name) as { target: () => EntityClass }).target());
+
+/**
+ * Gets the repository of an entity, creating it on first use
+ * @param {EntityClass} target - The entity class
+ * @returns {MemoryRepository} The repository
+ */
+const getRepository = <T extends ObjectLiteral>(target: EntityClass<T>): MemoryRepository<T> => {
+  if (!repositories.has(target)) {
+    repositories.set(target, new MemoryRepository(target));
+  }
+  return repositories.get(target) as unknown as MemoryRepository<T>;
+};
+
+export const AppDataSource = {
+  isInitialized: true,
+  getRepository,
+};
+
+/**
+ * Removes every row of every entity, e.g. between tests
+ */
+export const resetDatabase = (): void => {
+  repositories.forEach(repository => repository.clear());
+};
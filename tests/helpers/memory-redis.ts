@@ -0,0 +1,104 @@
+/**
+ * @fileoverview In-memory stand-in for the Redis service, for tests
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Replaces `@/core/db/redis` through `jest.mock`. Keys expire by `Date.now()`, so fake
+ * timers move them towards expiry like real time would.
+ *
+ * @example
+ * ```typescript
+ * jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+ * ```
+ */
+
+interface StoredValue {
+  value: unknown;
+  expiresAt?: number;
+}
+
+const store = new Map<string, StoredValue>();
+
+/**
+ * Reads a key, dropping it once it has expired
+ * @param {string} key - The key
+ * @returns {StoredValue | undefined} The stored value
+ */
+const read = (key: string): StoredValue | undefined => {
+  const stored = store.get(key);
+
+  if (stored?.expiresAt !== undefined && stored.expiresAt <= Date.now()) {
+    store.delete(key);
+    return undefined;
+  }
+
+  return stored;
+};
+
+/**
+ * Same methods as `RedisService`, backed by a map shared by every instance
+ */
+export class MemoryRedisService<T = unknown> {
+  async set(key: string, value: T, expireInSeconds?: number): Promise<void> {
+    store.set(key, {
+      value: structuredClone(value),
+      expiresAt: expireInSeconds ? Date.now() + expireInSeconds * 1000 : undefined,
+    });
+  }
+
+  async get(key: string): Promise<T | null> {
+    const stored = read(key);
+    return stored ? (structuredClone(stored.value) as T) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    store.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return read(key) !== undefined;
+  }
+
+  async increment(key: string, expireInSeconds?: number): Promise<number> {
+    const stored = read(key);
+    const value = Number(stored?.value ?? 0) + 1;
+
+    store.set(key, {
+      value,
+      expiresAt:
+        stored?.expiresAt ?? (expireInSeconds ? Date.now() + expireInSeconds * 1000 : undefined),
+    });
+
+    return value;
+  }
+
+  async setHash(key: string, field: string, value: T): Promise<void> {
+    const hash = (read(key)?.value as Record<string, T>) ?? {};
+    store.set(key, { value: { ...hash, [field]: structuredClone(value) } });
+  }
+
+  async getHash(key: string, field: string): Promise<T | null> {
+    return ((read(key)?.value as Record<string, T>) ?? {})[field] ?? null;
+  }
+
+  async getAllHash(key: string): Promise<Record<string, T>> {
+    return { ...((read(key)?.value as Record<string, T>) ?? {}) };
+  }
+
+  async disconnect(): Promise<void> {}
+}
+
+const service = new MemoryRedisService();
+
+export const getRedisService = <T = unknown>(): MemoryRedisService<T> =>
+  service as MemoryRedisService<T>;
+
+export const disconnectRedisService = async (): Promise<void> => {};
+
+/**
+ * Removes every key, e.g. between tests
+ */
+export const resetRedis = (): void => {
+  store.clear();
+};
@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Local OpenID Connect provider for testing the sign-in flow end to end
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ *
+ * Serves a discovery document, a JWKS and a token endpoint on 127.0.0.1. The token endpoint
+ * checks the client credentials, the redirect URI and the PKCE S256 challenge like a real
+ * provider, then returns an RS256 ID token for the profile passed to `authorize`.
+ *
+ * @example
+ * ```typescript
+ * const idp = new StubIdentityProvider({ clientId: 'app', clientSecret: 'secret' });
+ * await idp.start();
+ * const { code, state } = idp.authorize(authorizationUrl, { sub: '42', email: 'a@b.c' });
+ * ```
+ */
+
+import { createHash, generateKeyPairSync, KeyObject, randomBytes } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Client the stub provider accepts
+ */
+export interface StubClient {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Options to tamper with the ID token a code is exchanged for
+ */
+export interface IdTokenOptions {
+  /** Key id put in the token header instead of the current key's */
+  kid?: string;
+  /** Key the token is signed with instead of the current key */
+  privateKey?: KeyObject;
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+interface IssuedCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  claims: Record<string, unknown>;
+  options: IdTokenOptions;
+}
+
+/**
+ * Generates an RSA key pair for signing ID tokens
+ * @returns {{privateKey: KeyObject, publicKey: KeyObject}} The key pair
+ */
+export const generateSigningKeyPair = () => generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+/**
+ * OpenID Connect provider running in the test process
+ */
+export class StubIdentityProvider {
+  private server?: Server;
+  private keys: SigningKey[] = [];
+  private codes = new Map<string, IssuedCode>();
+
+  public url = '';
+
+  constructor(private client: StubClient) {
+    this.rotateKey();
+  }
+
+  /**
+   * Starts listening on a free local port
+   * @returns {Promise<void>}
+   */
+  public async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(error => this.send(res, 500, { error: String(error) }));
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  /**
+   * Stops listening
+   * @returns {Promise<void>}
+   */
+  public async stop(): Promise<void> {
+    this.server?.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      this.server?.close(error => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Publishes a new signing key and signs further ID tokens with it.
+   * Older keys stay in the JWKS, like during a real key rollover.
+   * @returns {string} The id of the new key
+   */
+  public rotateKey(): string {
+    const kid = `key-${this.keys.length + 1}`;
+    this.keys.push({ kid, ...generateSigningKeyPair() });
+    return kid;
+  }
+
+  /**
+   * Plays the user signing in at the provider: accepts the authorization request
+   * and returns what the provider would redirect back with
+   * @param {string} authorizationUrl - URL the application redirected the user to
+   * @param {Record<string, unknown>} claims - Claims of the ID token, `sub` at least; they
+   * can also override the standard claims, e.g. `aud`, `exp` or `nonce`
+   * @param {IdTokenOptions} [options] - How to tamper with the ID token
+   * @returns {{code: string, state: string}} The authorization code and the state
+   */
+  public authorize(
+    authorizationUrl: string,
+    claims: Record<string, unknown>,
+    options: IdTokenOptions = {}
+  ): { code: string; state: string } {
+    const params = new URL(authorizationUrl).searchParams;
+
+    if (
+      params.get('client_id') !== this.client.clientId ||
+      params.get('response_type') !== 'code' ||
+      params.get('code_challenge_method') !== 'S256'
+    ) {
+      throw new Error('Invalid authorization request');
+    }
+
+    const code = randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      clientId: this.client.clientId,
+      redirectUri: params.get('redirect_uri') ?? '',
+      codeChallenge: params.get('code_challenge') ?? '',
+      nonce: params.get('nonce') ?? '',
+      claims,
+      options,
+    });
+
+    return { code, state: params.get('state') ?? '' };
+  }
+
+  /**
+   * Routes a request to the discovery, JWKS or token endpoint
+   * @private
+   */
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method === 'GET' && req.url === '/.well-known/openid-configuration') {
+      return this.send(res, 200, {
+        issuer: this.url,
+        authorization_endpoint: `${this.url}/authorize`,
+        token_endpoint: `${this.url}/token`,
+        jwks_uri: `${this.url}/jwks`,
+      });
+    }
+
+    if (req.method === 'GET' && req.url === '/jwks') {
+      return this.send(res, 200, {
+        keys: this.keys.map(({ kid, publicKey }) => ({
+          ...publicKey.export({ format: 'jwk' }),
+          kid,
+          use: 'sig',
+          alg: 'RS256',
+        })),
+      });
+    }
+
+    if (req.method === 'POST' && req.url === '/token') {
+      let body = '';
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      return this.exchange(new URLSearchParams(body), res);
+    }
+
+    this.send(res, 404, { error: 'not_found' });
+  }
+
+  /**
+   * Exchanges an authorization code for an ID token, once
+   * @private
+   */
+  private exchange(params: URLSearchParams, res: ServerResponse): void {
+    const code = params.get('code') ?? '';
+    const issued = this.codes.get(code);
+    this.codes.delete(code);
+
+    if (
+      params.get('client_id') !== this.client.clientId ||
+      params.get('client_secret') !== this.client.clientSecret
+    ) {
+      return this.send(res, 401, { error: 'invalid_client' });
+    }
+
+    const verifier = params.get('code_verifier') ?? '';
+    const challenge = createHash('sha256').update(verifier).digest('base64url');
+
+    if (
+      params.get('grant_type') !== 'authorization_code' ||
+      !issued ||
+      issued.redirectUri !== params.get('redirect_uri') ||
+      issued.codeChallenge !== challenge
+    ) {
+      return this.send(res, 400, { error: 'invalid_grant' });
+    }
+
+    const key = this.keys[this.keys.length - 1];
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = jwt.sign(
+      {
+        iss: this.url,
+        aud: issued.clientId,
+        iat: now,
+        exp: now + 300,
+        nonce: issued.nonce,
+        ...issued.claims,
+      },
+      issued.options.privateKey ?? key.privateKey,
+      { algorithm: 'RS256', keyid: issued.options.kid ?? key.kid }
+    );
+
+    this.send(res, 200, {
+      access_token: 'stub-access-token',
+      token_type: 'Bearer',
+      id_token: idToken,
+    });
+  }
+
+  /**
+   * Sends a JSON response
+   * @private
+   */
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileoverview Tests of failed-login throttling and account lockout
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import {
+  ACCOUNT_LOCKED_ERROR,
+  HTTP_TOO_MANY_REQUESTS,
+  HTTP_UNAUTHENTICATED,
+  TOO_MANY_ATTEMPTS_ERROR,
+} from '@/core/common/constants';
+import auditService from '@/services/audit';
+import { AuthService } from '@/services/auth';
+import { EmailService } from '@/services/email';
+import { LockoutService } from '@/services/lockout';
+import mfaService from '@/services/mfa';
+import userService from '@/services/user';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+const EMAIL = 'ada@example.com';
+const PASSWORD = 'correct horse battery staple';
+const IP = '203.0.113.7';
+
+describe('LockoutService', () => {
+  let lockout: LockoutService;
+
+  beforeEach(() => {
+    resetRedis();
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z') });
+    lockout = new LockoutService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /**
+   * Fails the given number of attempts, each after any delay of the previous one has passed
+   */
+  const failTimes = async (times: number, email: string = EMAIL, ip: string = IP) => {
+    const locks: boolean[] = [];
+    for (let attempt = 0; attempt < times; attempt++) {
+      jest.advanceTimersByTime(10 * 1000);
+      locks.push(await lockout.recordFailure(await lockout.beginAttempt(email, ip)));
+    }
+    return locks;
+  };
+
+  it('allows the free attempts without delay', async () => {
+    await failTimes(2);
+
+    await expect(lockout.beginAttempt(EMAIL, IP)).resolves.toMatchObject({ failures: 3 });
+  });
+
+  it('delays each failure past the free attempts for twice as long as the previous one', async () => {
+    await failTimes(3);
+
+    await expect(lockout.beginAttempt(EMAIL, IP)).rejects.toMatchObject({
+      name: TOO_MANY_ATTEMPTS_ERROR,
+      statusCode: HTTP_TOO_MANY_REQUESTS,
+      data: { retryAfter: 1 },
+    });
+
+    jest.advanceTimersByTime(1000);
+    const attempt = await lockout.beginAttempt(EMAIL, IP);
+
+    await lockout.recordFailure(attempt);
+    await expect(lockout.beginAttempt(EMAIL, IP)).rejects.toMatchObject({
+      data: { retryAfter: 2 },
+    });
+  });
+
+  it('locks the account at the maximum and reports the lock only once', async () => {
+    expect(await failTimes(5)).toEqual([false, false, false, false, true]);
+
+    await expect(lockout.beginAttempt(EMAIL)).rejects.toMatchObject({
+      name: ACCOUNT_LOCKED_ERROR,
+      statusCode: HTTP_TOO_MANY_REQUESTS,
+      data: { retryAfter: 15 * 60 },
+    });
+
+    jest.advanceTimersByTime(15 * 60 * 1000);
+    await expect(lockout.beginAttempt(EMAIL)).resolves.toMatchObject({ failures: 1 });
+  });
+
+  it('admits no more parallel attempts than the maximum and locks the account', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: 10 }, () => lockout.beginAttempt(EMAIL, IP))
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(5);
+    expect(results.filter(result => result.status === 'rejected')).toEqual(
+      Array(5).fill(
+        expect.objectContaining({ reason: expect.objectContaining({ name: ACCOUNT_LOCKED_ERROR }) })
+      )
+    );
+    await expect(lockout.beginAttempt(EMAIL)).rejects.toMatchObject({
+      name: ACCOUNT_LOCKED_ERROR,
+    });
+  });
+
+  it('treats email addresses case-insensitively', async () => {
+    await failTimes(5, 'Ada@Example.com');
+
+    await expect(lockout.beginAttempt(EMAIL)).rejects.toMatchObject({
+      name: ACCOUNT_LOCKED_ERROR,
+    });
+  });
+
+  it('clears the failures and the lock of an account on reset', async () => {
+    await failTimes(5);
+    await lockout.reset(EMAIL);
+
+    expect(await failTimes(2)).toEqual([false, false]);
+    await expect(lockout.beginAttempt(EMAIL)).resolves.toMatchObject({ failures: 3 });
+  });
+
+  it('throttles an IP that fails against many accounts', async () => {
+    for (let account = 0; account < 11; account++) {
+      await lockout.recordFailure(await lockout.beginAttempt(`user${account}@example.com`, IP));
+    }
+
+    await expect(lockout.beginAttempt('someone@example.com', IP)).rejects.toMatchObject({
+      name: TOO_MANY_ATTEMPTS_ERROR,
+    });
+    await expect(
+      lockout.beginAttempt('someone@example.com', '198.51.100.1')
+    ).resolves.toBeDefined();
+  });
+});
+
+describe('AuthService.login', () => {
+  const emailService = { sendEmail: jest.fn() };
+  let lockout: LockoutService;
+  let authService: AuthService;
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    emailService.sendEmail.mockReset().mockResolvedValue(undefined);
+    lockout = new LockoutService();
+    authService = new AuthService(
+      userService,
+      emailService as unknown as EmailService,
+      lockout,
+      mfaService,
+      auditService
+    );
+
+    const user = await userService.createUser(EMAIL, PASSWORD);
+    await userService.updateUser(user.id, { isActive: true });
+  });
+
+  it('answers a wrong password and an unknown email alike', async () => {
+    const invalidCredentials = {
+      message: 'Invalid email or password',
+      statusCode: HTTP_UNAUTHENTICATED,
+    };
+
+    await expect(authService.login(EMAIL, 'wrong password', IP)).rejects.toMatchObject(
+      invalidCredentials
+    );
+    await expect(authService.login('nobody@example.com', PASSWORD, IP)).rejects.toMatchObject(
+      invalidCredentials
+    );
+  });
+
+  it('refuses even the right password once the account is locked', async () => {
+    await Promise.allSettled(Array.from({ length: 6 }, () => lockout.beginAttempt(EMAIL)));
+
+    await expect(authService.login(EMAIL, PASSWORD)).rejects.toMatchObject({
+      name: ACCOUNT_LOCKED_ERROR,
+    });
+  });
+
+  it('forgets earlier failures after a successful login', async () => {
+    await expect(authService.login(EMAIL, 'wrong password')).rejects.toBeDefined();
+    await expect(authService.login(EMAIL, 'wrong password')).rejects.toBeDefined();
+
+    await expect(authService.login(EMAIL, PASSWORD)).resolves.toMatchObject({ email: EMAIL });
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      await expect(authService.login(EMAIL, 'wrong password')).rejects.toMatchObject({
+        statusCode: HTTP_UNAUTHENTICATED,
+      });
+    }
+    await expect(authService.login(EMAIL, PASSWORD)).resolves.toMatchObject({ email: EMAIL });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Tests of TOTP codes, MFA enrollment, second-factor verification and MFA logins
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { HTTP_BAD_REQUEST, HTTP_CONFLICT, HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { TOTP_PERIOD, generateTotp, getTotpStep, verifyTotp } from '@/core/common/totp';
+import { User } from '@/entity/user.entity';
+import auditService from '@/services/audit';
+import { AuthService } from '@/services/auth';
+import { EmailService } from '@/services/email';
+import lockoutService from '@/services/lockout';
+import { MfaService } from '@/services/mfa';
+import userService from '@/services/user';
+import { MfaChallenge } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+/** "12345678901234567890", the SHA-1 seed of RFC 6238 appendix B, in base32 */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC 6238 test vector at T=%i', (seconds, code) => {
+    expect(generateTotp(RFC_SECRET, getTotpStep(seconds * 1000))).toBe(code);
+  });
+
+  it('accepts codes one step either side of the current one', () => {
+    jest.useFakeTimers({ now: 1111111109 * 1000 });
+    const step = getTotpStep();
+
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2))).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+  });
+});
+
+describe('MfaService', () => {
+  const mfaService = new MfaService(userService);
+  let user: User;
+
+  const currentCode = (secret: string, offset = 0) => generateTotp(secret, getTotpStep() + offset);
+
+  const reload = async () => (await userService.getUserById(user.id)) as User;
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z'), doNotFake: ['setImmediate'] });
+    user = await userService.createUser('ada@example.com', 'correct horse battery staple');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('enables MFA only after a valid code for the pending secret', async () => {
+    const { secret, otpauthUrl } = await mfaService.startEnrollment(user.id);
+
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+    expect((await reload()).mfaSecret).not.toContain(secret);
+
+    await expect(mfaService.confirmEnrollment(user.id, '000000')).rejects.toMatchObject({
+      statusCode: HTTP_BAD_REQUEST,
+    });
+    expect((await reload()).mfaEnabled).toBe(false);
+
+    const recoveryCodes = await mfaService.confirmEnrollment(user.id, currentCode(secret));
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect((await reload()).mfaEnabled).toBe(true);
+    await expect(mfaService.startEnrollment(user.id)).rejects.toMatchObject({
+      statusCode: HTTP_CONFLICT,
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    let secret: string;
+    let recoveryCodes: string[];
+
+    beforeEach(async () => {
+      ({ secret } = await mfaService.startEnrollment(user.id));
+      recoveryCodes = await mfaService.confirmEnrollment(user.id, currentCode(secret));
+      jest.advanceTimersByTime(TOTP_PERIOD * 1000);
+    });
+
+    it('accepts a fresh code once and rejects its replay', async () => {
+      const code = currentCode(secret);
+
+      expect(await mfaService.verifySecondFactor(await reload(), { code })).toBe(true);
+      expect(await mfaService.verifySecondFactor(await reload(), { code })).toBe(false);
+    });
+
+    it('rejects a code older than the last one accepted', async () => {
+      expect(
+        await mfaService.verifySecondFactor(await reload(), { code: currentCode(secret, 1) })
+      ).toBe(true);
+
+      expect(
+        await mfaService.verifySecondFactor(await reload(), { code: currentCode(secret) })
+      ).toBe(false);
+    });
+
+    it('consumes a recovery code, whatever its formatting', async () => {
+      const recoveryCode = recoveryCodes[0].toUpperCase().replace('-', ' ');
+
+      expect(await mfaService.verifySecondFactor(await reload(), { recoveryCode })).toBe(true);
+      expect(await mfaService.verifySecondFactor(await reload(), { recoveryCode })).toBe(false);
+      expect((await reload()).mfaRecoveryCodes).toHaveLength(9);
+    });
+
+    it('rejects every factor once MFA is reset', async () => {
+      await mfaService.reset(user.id);
+
+      expect(
+        await mfaService.verifySecondFactor(await reload(), { code: currentCode(secret) })
+      ).toBe(false);
+      expect(
+        await mfaService.verifySecondFactor(await reload(), { recoveryCode: recoveryCodes[1] })
+      ).toBe(false);
+    });
+  });
+
+  describe('AuthService.completeMfaLogin', () => {
+    const authService = new AuthService(
+      userService,
+      { sendEmail: jest.fn() } as unknown as EmailService,
+      lockoutService,
+      mfaService,
+      auditService
+    );
+    let secret: string;
+    let mfaToken: string;
+
+    beforeEach(async () => {
+      ({ secret } = await mfaService.startEnrollment(user.id));
+      await mfaService.confirmEnrollment(user.id, currentCode(secret));
+      jest.advanceTimersByTime(TOTP_PERIOD * 1000);
+      ({ mfaToken } = (await authService.beginSession(await reload())) as MfaChallenge);
+    });
+
+    it('completes one login per MFA token', async () => {
+      await expect(
+        authService.completeMfaLogin(mfaToken, { code: currentCode(secret) })
+      ).resolves.toMatchObject({ user: { id: user.id } });
+
+      jest.advanceTimersByTime(TOTP_PERIOD * 1000);
+      await expect(
+        authService.completeMfaLogin(mfaToken, { code: currentCode(secret) })
+      ).rejects.toMatchObject({
+        message: 'Invalid or expired MFA token',
+        statusCode: HTTP_UNAUTHENTICATED,
+      });
+    });
+
+    it('keeps the token usable after a wrong code', async () => {
+      await expect(
+        authService.completeMfaLogin(mfaToken, { code: currentCode(secret, -2) })
+      ).rejects.toMatchObject({ message: 'Invalid authentication code' });
+
+      await expect(
+        authService.completeMfaLogin(mfaToken, { code: currentCode(secret) })
+      ).resolves.toMatchObject({ user: { id: user.id } });
+    });
+
+    it('rejects a token issued before the sessions were revoked', async () => {
+      jest.advanceTimersByTime(1000);
+      await authService.revokeAllSessions(user.id);
+
+      await expect(
+        authService.completeMfaLogin(mfaToken, { code: currentCode(secret) })
+      ).rejects.toMatchObject({ message: 'Invalid or expired MFA token' });
+    });
+  });
+});
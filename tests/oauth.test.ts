@@ -0,0 +1,307 @@
+/**
+ * @fileoverview Tests of OIDC sign-in against a stub identity provider
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import {
+  CONFLICT_ERROR,
+  EMAIL_NOT_VERIFIED_ERROR,
+  HTTP_CONFLICT,
+  HTTP_FORBIDDEN,
+  HTTP_UNAUTHENTICATED,
+} from '@/core/common/constants';
+import { runInTenant } from '@/core/db/tenant-context';
+import { AppDataSource } from '@/data-source';
+import { LinkedIdentity } from '@/entity/linked-identity.entity';
+import { Tenant } from '@/entity/tenant.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { OAuthService } from '@/services/oauth';
+import { OidcProvider } from '@/services/oauth/providers';
+import userService from '@/services/user';
+import { UserRole } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+import { generateSigningKeyPair, IdTokenOptions, StubIdentityProvider } from './helpers/stub-idp';
+
+const CLIENT = { clientId: 'coco-api', clientSecret: 'stub-client-secret' };
+
+describe('OAuthService with an OIDC provider', () => {
+  const idp = new StubIdentityProvider(CLIENT);
+  let oauthService: OAuthService;
+
+  /**
+   * Runs a whole sign-in: starts an attempt, signs in at the provider and handles the callback
+   */
+  const signIn = async (claims: Record<string, unknown>, options?: IdTokenOptions) => {
+    const { code, state } = idp.authorize(
+      await oauthService.createAuthorizationUrl('stub'),
+      claims,
+      options
+    );
+    return oauthService.handleCallback('stub', code, state);
+  };
+
+  const ada = { sub: 'ada-1', email: 'ada@example.com', email_verified: true };
+
+  beforeAll(async () => {
+    await idp.start();
+  });
+
+  afterAll(async () => {
+    await idp.stop();
+  });
+
+  beforeEach(() => {
+    resetRedis();
+    resetDatabase();
+    oauthService = new OAuthService(userService);
+    oauthService.registerProvider(new OidcProvider({ name: 'stub', issuer: idp.url, ...CLIENT }));
+    oauthService.registerProvider(new OidcProvider({ name: 'other', issuer: idp.url, ...CLIENT }));
+  });
+
+  describe('authorization request', () => {
+    it('asks for the code flow with a S256 PKCE challenge, a state and a nonce', async () => {
+      const params = new URL(await oauthService.createAuthorizationUrl('stub')).searchParams;
+
+      expect(params.get('response_type')).toBe('code');
+      expect(params.get('code_challenge_method')).toBe('S256');
+      expect(params.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+      expect(params.get('state')).toBeTruthy();
+      expect(params.get('nonce')).toBeTruthy();
+      expect(params.get('redirect_uri')).toMatch(/\/api\/v1\/auth\/oauth\/stub\/callback$/);
+    });
+  });
+
+  describe('state and PKCE', () => {
+    it('accepts a state only once', async () => {
+      const { code, state } = idp.authorize(await oauthService.createAuthorizationUrl('stub'), ada);
+      await oauthService.handleCallback('stub', code, state);
+
+      await expect(oauthService.handleCallback('stub', code, state)).rejects.toMatchObject({
+        message: 'Invalid or expired sign-in state',
+        statusCode: HTTP_UNAUTHENTICATED,
+      });
+    });
+
+    it('rejects an unknown state', async () => {
+      const { code } = idp.authorize(await oauthService.createAuthorizationUrl('stub'), ada);
+
+      await expect(oauthService.handleCallback('stub', code, 'forged')).rejects.toMatchObject({
+        statusCode: HTTP_UNAUTHENTICATED,
+      });
+    });
+
+    it('rejects a state issued for another provider', async () => {
+      const { code, state } = idp.authorize(await oauthService.createAuthorizationUrl('stub'), ada);
+
+      await expect(oauthService.handleCallback('other', code, state)).rejects.toMatchObject({
+        message: 'Invalid or expired sign-in state',
+      });
+    });
+
+    it('fails the code exchange when the verifier belongs to another attempt', async () => {
+      const { code } = idp.authorize(await oauthService.createAuthorizationUrl('stub'), ada);
+      const { state } = idp.authorize(await oauthService.createAuthorizationUrl('stub'), ada);
+
+      await expect(oauthService.handleCallback('stub', code, state)).rejects.toMatchObject({
+        message: 'Identity provider request failed with status 400',
+        statusCode: HTTP_UNAUTHENTICATED,
+      });
+    });
+  });
+
+  describe('ID token verification', () => {
+    it('rejects a token carrying another nonce', async () => {
+      await expect(signIn({ ...ada, nonce: 'replayed-nonce' })).rejects.toMatchObject({
+        message: 'ID token nonce does not match',
+        statusCode: HTTP_UNAUTHENTICATED,
+      });
+    });
+
+    it('rejects a token signed with a key missing from the JWKS', async () => {
+      await expect(signIn(ada, { kid: 'unknown-key' })).rejects.toMatchObject({
+        message: 'ID token is signed with an unknown key',
+      });
+    });
+
+    it('rejects a token whose signature does not match its key', async () => {
+      const { privateKey } = generateSigningKeyPair();
+
+      await expect(signIn(ada, { privateKey })).rejects.toMatchObject({
+        message: 'Invalid ID token: invalid signature',
+      });
+    });
+
+    it('rejects an expired token', async () => {
+      const now = Math.floor(Date.now() / 1000);
+
+      await expect(signIn({ ...ada, iat: now - 600, exp: now - 300 })).rejects.toMatchObject({
+        message: 'Invalid ID token: jwt expired',
+      });
+    });
+
+    it('rejects a token issued to another client', async () => {
+      await expect(signIn({ ...ada, aud: 'someone-else' })).rejects.toMatchObject({
+        message: expect.stringContaining('jwt audience invalid'),
+      });
+    });
+
+    it('rejects a token from another issuer', async () => {
+      await expect(signIn({ ...ada, iss: 'https://evil.example.com' })).rejects.toMatchObject({
+        message: expect.stringContaining('jwt issuer invalid'),
+      });
+    });
+
+    it('picks up a rotated signing key', async () => {
+      const user = await signIn(ada);
+      idp.rotateKey();
+
+      await expect(signIn(ada)).resolves.toMatchObject({ id: user.id });
+    });
+  });
+
+  describe('account linking', () => {
+    it('creates an active account for a new identity with a verified email', async () => {
+      const user = await signIn({ ...ada, given_name: 'Ada', family_name: 'Lovelace' });
+
+      expect(user).toMatchObject({
+        email: 'ada@example.com',
+        firstName: 'Ada',
+        lastName: 'Lovelace',
+        isActive: true,
+      });
+    });
+
+    it('signs a linked identity in as its user, whatever email it reports later', async () => {
+      const user = await signIn(ada);
+
+      await expect(signIn({ ...ada, email: 'ada@elsewhere.example' })).resolves.toMatchObject({
+        id: user.id,
+      });
+    });
+
+    it('links a verified email to the active account that owns it', async () => {
+      const existing = await userService.createUser('ada@example.com', 'correct horse battery', {
+        isActive: true,
+      });
+
+      await expect(signIn(ada)).resolves.toMatchObject({ id: existing.id });
+    });
+
+    it('refuses to link an email the provider has not verified', async () => {
+      await userService.createUser('ada@example.com', 'correct horse battery', { isActive: true });
+
+      await expect(signIn({ ...ada, email_verified: false })).rejects.toMatchObject({
+        name: CONFLICT_ERROR,
+        statusCode: HTTP_CONFLICT,
+      });
+    });
+
+    it('refuses to link an account that has not verified its email', async () => {
+      await userService.createUser('ada@example.com', 'correct horse battery');
+
+      await expect(signIn(ada)).rejects.toMatchObject({ statusCode: HTTP_CONFLICT });
+    });
+
+    it('refuses to link a deleted account', async () => {
+      const existing = await userService.createUser('ada@example.com', 'correct horse battery', {
+        isActive: true,
+      });
+      await userService.deleteUser(existing.id);
+
+      await expect(signIn(ada)).rejects.toMatchObject({ statusCode: HTTP_CONFLICT });
+    });
+
+    it('creates an inactive account for an unverified email and refuses the sign-in', async () => {
+      await expect(signIn({ ...ada, email_verified: false })).rejects.toMatchObject({
+        name: EMAIL_NOT_VERIFIED_ERROR,
+        statusCode: HTTP_FORBIDDEN,
+      });
+
+      expect(await userService.findUserByEmail('ada@example.com')).toMatchObject({
+        isActive: false,
+      });
+    });
+  });
+
+  describe('tenant provider', () => {
+    const memberships = AppDataSource.getRepository(TenantMembership);
+    const identities = AppDataSource.getRepository(LinkedIdentity);
+    let tenant: Tenant;
+    let provider: string;
+
+    /** Runs a call as an admin of the tenant */
+    const asTenantAdmin = <T>(callback: () => T) =>
+      runInTenant({ id: tenant.id, role: UserRole.ADMIN }, callback);
+
+    beforeEach(async () => {
+      tenant = await AppDataSource.getRepository(Tenant).save({ name: 'Acme', slug: 'acme' });
+      provider = `tenant-${tenant.id}`;
+      await asTenantAdmin(() => oauthService.setTenantProvider({ issuer: idp.url, ...CLIENT }));
+    });
+
+    const signInWithTenant = async (claims: Record<string, unknown>) => {
+      const { code, state } = idp.authorize(
+        await oauthService.createAuthorizationUrl(provider),
+        claims
+      );
+      return oauthService.handleCallback(provider, code, state);
+    };
+
+    it('stores the client secret encrypted', async () => {
+      const settings = await asTenantAdmin(() => oauthService.getTenantProvider());
+
+      expect(settings).toMatchObject({ tenantId: tenant.id, issuer: idp.url });
+      expect(settings?.clientSecret).not.toContain(CLIENT.clientSecret);
+    });
+
+    it('creates new accounts as members of the tenant', async () => {
+      const user = await signInWithTenant(ada);
+
+      expect(
+        await memberships.findOne({ where: { tenantId: tenant.id, userId: user.id } })
+      ).toMatchObject({ role: UserRole.USER });
+    });
+
+    it('links an existing account only if it is a member of the tenant', async () => {
+      const existing = await userService.createUser('ada@example.com', 'correct horse battery', {
+        isActive: true,
+      });
+
+      await expect(signInWithTenant(ada)).rejects.toMatchObject({ statusCode: HTTP_CONFLICT });
+
+      await memberships.save({ tenantId: tenant.id, userId: existing.id, role: UserRole.USER });
+      await expect(signInWithTenant(ada)).resolves.toMatchObject({ id: existing.id });
+    });
+
+    it('refuses linked accounts that left the tenant', async () => {
+      const user = await signInWithTenant(ada);
+      await memberships.delete({ tenantId: tenant.id, userId: user.id });
+
+      await expect(signInWithTenant(ada)).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+    });
+
+    it('unlinks its identities when the issuer changes', async () => {
+      await signInWithTenant(ada);
+
+      await asTenantAdmin(() =>
+        oauthService.setTenantProvider({ issuer: 'https://idp.example.com', ...CLIENT })
+      );
+
+      expect(await identities.count({ where: { provider } })).toBe(0);
+    });
+
+    it('is unknown once removed', async () => {
+      await asTenantAdmin(() => oauthService.removeTenantProvider());
+
+      await expect(oauthService.createAuthorizationUrl(provider)).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Tests of password reset links
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { HTTP_BAD_REQUEST, HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { verifyToken } from '@/core/common/jwt';
+import { isTokenRevoked } from '@/core/common/token-revocation';
+import { User } from '@/entity/user.entity';
+import auditService from '@/services/audit';
+import { AuthService } from '@/services/auth';
+import { EmailService } from '@/services/email';
+import lockoutService from '@/services/lockout';
+import mfaService from '@/services/mfa';
+import userService from '@/services/user';
+import { JWTPayload } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+const PASSWORD = 'correct horse battery staple';
+const NEW_PASSWORD = 'tr0ub4dor & 3 more words';
+
+describe('password reset', () => {
+  const emailService = { sendEmail: jest.fn() };
+  const authService = new AuthService(
+    userService,
+    emailService as unknown as EmailService,
+    lockoutService,
+    mfaService,
+    auditService
+  );
+  let user: User;
+
+  /**
+   * Requests a reset link and returns the token it carries
+   */
+  const requestToken = async () => {
+    emailService.sendEmail.mockClear();
+    await authService.requestPasswordReset(user.email);
+    const resetUrl: string = emailService.sendEmail.mock.calls[0][0].data.resetUrl;
+    return new URL(resetUrl).searchParams.get('token') as string;
+  };
+
+  const passwordMatches = async (password: string) =>
+    userService.verifyPassword(
+      password,
+      ((await userService.getUserById(user.id)) as User).password
+    );
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    emailService.sendEmail.mockReset().mockResolvedValue(undefined);
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z'), doNotFake: ['setImmediate'] });
+    user = await userService.createUser('ada@example.com', PASSWORD, { isActive: true });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('emails a link to known addresses only and stores only the token hash', async () => {
+    const token = await requestToken();
+
+    expect(emailService.sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: user.email, templateName: 'password-reset' })
+    );
+    expect((await userService.getUserById(user.id))?.passwordResetToken).not.toBe(token);
+
+    emailService.sendEmail.mockClear();
+    await authService.requestPasswordReset('nobody@example.com');
+    expect(emailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('sets the new password with a token that works only once', async () => {
+    const token = await requestToken();
+
+    await expect(authService.resetPassword(token, NEW_PASSWORD)).resolves.toBe(true);
+
+    expect(await passwordMatches(NEW_PASSWORD)).toBe(true);
+    expect(await passwordMatches(PASSWORD)).toBe(false);
+    await expect(authService.resetPassword(token, PASSWORD)).rejects.toMatchObject({
+      message: 'Invalid or expired password reset token',
+      statusCode: HTTP_BAD_REQUEST,
+    });
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await requestToken();
+    jest.advanceTimersByTime(24 * 60 * 60 * 1000 + 1);
+
+    await expect(authService.resetPassword(token, NEW_PASSWORD)).rejects.toMatchObject({
+      statusCode: HTTP_BAD_REQUEST,
+    });
+    expect(await passwordMatches(PASSWORD)).toBe(true);
+  });
+
+  it('invalidates a pending token when a new link is requested', async () => {
+    const first = await requestToken();
+    const second = await requestToken();
+
+    await expect(authService.resetPassword(first, NEW_PASSWORD)).rejects.toMatchObject({
+      statusCode: HTTP_BAD_REQUEST,
+    });
+    await expect(authService.resetPassword(second, NEW_PASSWORD)).resolves.toBe(true);
+  });
+
+  it('signs every existing session out', async () => {
+    const tokens = await authService.issueTokens(user);
+    const token = await requestToken();
+    jest.advanceTimersByTime(1000);
+
+    await authService.resetPassword(token, NEW_PASSWORD);
+
+    expect(await isTokenRevoked(verifyToken(tokens.accessToken) as JWTPayload)).toBe(true);
+    await expect(authService.refreshTokens(tokens.refreshToken)).rejects.toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Tests of the access policies for users, API keys and tenant members
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import {
+  FORBIDDEN_ERROR,
+  HTTP_FORBIDDEN,
+  HTTP_NOT_FOUND,
+  HTTP_UNAUTHENTICATED,
+} from '@/core/common/constants';
+import { authorize, authorizeResource, evaluatePolicy } from '@/core/common/policy';
+import { runInTenant } from '@/core/db/tenant-context';
+import { ApiKey } from '@/entity/api-key.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { User } from '@/entity/user.entity';
+import { apiKeyPolicy } from '@/policies/api-key.policy';
+import { tenantMemberPolicy } from '@/policies/tenant-member.policy';
+import { userPolicy } from '@/policies/user.policy';
+import roleService from '@/services/role';
+import tenantService from '@/services/tenant';
+import { JWTPayload, TenantAccess, UserRole } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+const session = (roles: string[] = [UserRole.USER]): JWTPayload => ({
+  userId: randomUUID(),
+  email: 'ada@example.com',
+  roles,
+});
+
+const userOf = (subject: JWTPayload) => ({ id: subject.userId }) as User;
+
+beforeEach(async () => {
+  resetRedis();
+  resetDatabase();
+  await roleService.seedDefaultRoles();
+});
+
+describe('authorize', () => {
+  it('throws a forbidden error carrying the reason of the denial', async () => {
+    await expect(
+      authorize(session(), 'delete', userPolicy, userOf(session()))
+    ).rejects.toMatchObject({
+      name: FORBIDDEN_ERROR,
+      statusCode: HTTP_FORBIDDEN,
+      message: 'Only the account owner or a user administrator can delete this account',
+    });
+  });
+
+  it('denies actions without a rule', async () => {
+    const subject = session();
+    const decision = await evaluatePolicy(
+      subject,
+      'archive' as 'read',
+      userPolicy,
+      userOf(subject)
+    );
+
+    expect(decision).toEqual({ allowed: false, reason: 'Action archive is not allowed on user' });
+  });
+
+  it('uses the current tenant context when no tenant is given', async () => {
+    const tenant: TenantAccess = { id: randomUUID(), role: UserRole.ADMIN };
+    const membership = { tenantId: tenant.id, userId: randomUUID() } as TenantMembership;
+
+    await expect(
+      authorize(session(), 'update', tenantMemberPolicy, membership)
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+    await expect(
+      runInTenant(tenant, () => authorize(session(), 'update', tenantMemberPolicy, membership))
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('authorizeResource', () => {
+  /**
+   * Runs the middleware for a session and a loaded resource
+   */
+  const run = async (user: JWTPayload | undefined, resource: User | null) => {
+    const req = { session: { user } } as unknown as Request;
+    const res = { locals: {} } as Response;
+    const next = jest.fn() as NextFunction;
+
+    await authorizeResource(userPolicy, 'read', async () => resource)(req, res, next);
+    expect(next).toHaveBeenCalled();
+
+    return res.locals.resource;
+  };
+
+  it('hands the loaded resource to the handler when allowed', async () => {
+    const subject = session();
+
+    expect(await run(subject, userOf(subject))).toEqual(userOf(subject));
+  });
+
+  it('rejects anonymous requests, missing resources and denied access', async () => {
+    const subject = session();
+
+    await expect(run(undefined, userOf(subject))).rejects.toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+    });
+    await expect(run(subject, null)).rejects.toMatchObject({ statusCode: HTTP_NOT_FOUND });
+    await expect(run(subject, userOf(session()))).rejects.toMatchObject({
+      statusCode: HTTP_FORBIDDEN,
+    });
+  });
+});
+
+describe('userPolicy', () => {
+  const tenantId = randomUUID();
+  let getMembership: jest.SpyInstance;
+
+  const decide = (
+    action: 'read' | 'update' | 'delete',
+    subject: JWTPayload,
+    tenant?: TenantAccess
+  ) =>
+    evaluatePolicy(subject, action, userPolicy, { id: randomUUID() } as User, tenant).then(
+      decision => decision.allowed
+    );
+
+  const memberAs = (role: UserRole) =>
+    getMembership.mockResolvedValue({ tenantId, role } as TenantMembership);
+
+  beforeEach(() => {
+    getMembership = jest.spyOn(tenantService, 'getMembership').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    getMembership.mockRestore();
+  });
+
+  it('lets users view, edit and delete their own account', async () => {
+    const subject = session();
+
+    for (const action of ['read', 'update', 'delete'] as const) {
+      await expect(
+        evaluatePolicy(subject, action, userPolicy, userOf(subject))
+      ).resolves.toMatchObject({ allowed: true });
+    }
+  });
+
+  it('keeps regular users away from other accounts', async () => {
+    expect(await decide('read', session())).toBe(false);
+    expect(await decide('update', session())).toBe(false);
+    expect(await decide('delete', session())).toBe(false);
+  });
+
+  it('follows the users:read and users:write permissions', async () => {
+    const manager = session([UserRole.MANAGER]);
+    const admin = session([UserRole.ADMIN]);
+
+    expect(await decide('read', manager)).toBe(true);
+    expect(await decide('update', manager)).toBe(false);
+    expect(await decide('delete', manager)).toBe(false);
+    expect(await decide('update', admin)).toBe(true);
+    expect(await decide('delete', admin)).toBe(true);
+  });
+
+  it('lets tenant admins and managers manage members of their tenant only', async () => {
+    const admin: TenantAccess = { id: tenantId, role: UserRole.ADMIN };
+    const manager: TenantAccess = { id: tenantId, role: UserRole.MANAGER };
+
+    expect(await decide('read', session(), admin)).toBe(false);
+
+    memberAs(UserRole.USER);
+    expect(await decide('read', session(), manager)).toBe(true);
+    expect(await decide('update', session(), manager)).toBe(true);
+    expect(await decide('update', session(), { id: tenantId, role: UserRole.USER })).toBe(false);
+    expect(await decide('delete', session(), admin)).toBe(false);
+  });
+
+  it("keeps tenant managers from editing the tenant's admins", async () => {
+    memberAs(UserRole.ADMIN);
+
+    expect(await decide('read', session(), { id: tenantId, role: UserRole.MANAGER })).toBe(true);
+    expect(await decide('update', session(), { id: tenantId, role: UserRole.MANAGER })).toBe(false);
+    expect(await decide('update', session(), { id: tenantId, role: UserRole.ADMIN })).toBe(true);
+  });
+});
+
+describe('apiKeyPolicy', () => {
+  it('lets owners and user administrators revoke a key', async () => {
+    const owner = session();
+    const key = { id: randomUUID(), ownerId: owner.userId } as ApiKey;
+
+    await expect(authorize(owner, 'revoke', apiKeyPolicy, key)).resolves.toBeUndefined();
+    await expect(
+      authorize(session([UserRole.ADMIN]), 'revoke', apiKeyPolicy, key)
+    ).resolves.toBeUndefined();
+    await expect(
+      authorize(session([UserRole.MANAGER]), 'revoke', apiKeyPolicy, key)
+    ).rejects.toMatchObject({ message: 'You can only revoke your own API keys' });
+  });
+});
+
+describe('tenantMemberPolicy', () => {
+  const tenantId = randomUUID();
+  const member = session();
+  const membership = { tenantId, userId: member.userId } as TenantMembership;
+
+  const decide = (action: 'update' | 'remove', subject: JWTPayload, tenant?: TenantAccess) =>
+    evaluatePolicy(subject, action, tenantMemberPolicy, membership, tenant).then(
+      decision => decision.allowed
+    );
+
+  it('lets only admins of the same tenant change roles', async () => {
+    expect(await decide('update', session(), { id: tenantId, role: UserRole.ADMIN })).toBe(true);
+    expect(await decide('update', session(), { id: tenantId, role: UserRole.MANAGER })).toBe(false);
+    expect(await decide('update', session(), { id: randomUUID(), role: UserRole.ADMIN })).toBe(
+      false
+    );
+    expect(await decide('update', member, { id: tenantId, role: UserRole.USER })).toBe(false);
+  });
+
+  it('lets members leave and admins of the same tenant remove members', async () => {
+    expect(await decide('remove', member, { id: tenantId, role: UserRole.USER })).toBe(true);
+    expect(await decide('remove', session(), { id: tenantId, role: UserRole.ADMIN })).toBe(true);
+    expect(await decide('remove', session(), { id: tenantId, role: UserRole.MANAGER })).toBe(false);
+    expect(await decide('remove', session(), { id: randomUUID(), role: UserRole.ADMIN })).toBe(
+      false
+    );
+  });
+});
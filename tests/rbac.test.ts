@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Tests of role permissions, privilege escalation checks and tenant access
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { belongsToTenant } from '@/core/common/authorization';
+import { HTTP_BAD_REQUEST, HTTP_FORBIDDEN } from '@/core/common/constants';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import roleService from '@/services/role';
+import tenantService from '@/services/tenant';
+import { JWTPayload, UserRole } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+const session = (roles: string[], overrides: Partial<JWTPayload> = {}): JWTPayload => ({
+  userId: randomUUID(),
+  email: 'ada@example.com',
+  roles,
+  ...overrides,
+});
+
+beforeEach(async () => {
+  resetRedis();
+  resetDatabase();
+  await roleService.seedDefaultRoles();
+});
+
+describe('RoleService', () => {
+  const admin = session([UserRole.ADMIN]);
+
+  it('grants everything through the wildcard permission', async () => {
+    expect(await roleService.hasPermissions(admin, ['platform:admin', 'audit:read'])).toBe(true);
+  });
+
+  it('grants only the permissions listed on a role', async () => {
+    const manager = session([UserRole.MANAGER]);
+
+    expect(await roleService.hasPermissions(manager, ['users:read', 'tenants:read'])).toBe(true);
+    expect(await roleService.hasPermissions(manager, ['tenants:write'])).toBe(false);
+    expect(await roleService.hasPermissions(manager, ['platform:admin'])).toBe(false);
+  });
+
+  it('grants every action on a resource through a resource wildcard', async () => {
+    await roleService.createRole({ name: 'auditor', permissions: ['audit:*'] }, admin);
+
+    expect(await roleService.hasPermissions(session(['auditor']), ['audit:read'])).toBe(true);
+    expect(await roleService.hasPermissions(session(['auditor']), ['users:read'])).toBe(false);
+  });
+
+  it('adds the permissions granted directly to a session', async () => {
+    const apiKey = session([UserRole.USER], { permissions: ['api-keys:read'] });
+
+    expect(await roleService.hasPermissions(apiKey, ['api-keys:read'])).toBe(true);
+  });
+
+  it('forbids granting permissions the requester does not hold', async () => {
+    const manager = session([UserRole.MANAGER]);
+
+    await expect(
+      roleService.createRole({ name: 'escalated', permissions: ['users:write'] }, manager)
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+    await expect(
+      roleService.createRole({ name: 'escalated', permissions: ['users:*'] }, manager)
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+    await expect(
+      roleService.updateRole(UserRole.USER, { permissions: ['platform:admin'] }, manager)
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+  });
+
+  it('rejects unknown permissions', async () => {
+    await expect(
+      roleService.createRole({ name: 'typo', permissions: ['user:read'] }, admin)
+    ).rejects.toMatchObject({ statusCode: HTTP_BAD_REQUEST });
+  });
+
+  it('forbids editing a role more powerful than the requester', async () => {
+    const manager = session([UserRole.MANAGER]);
+
+    await expect(
+      roleService.updateRole(UserRole.ADMIN, { permissions: ['users:read'] }, manager)
+    ).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+  });
+
+  it('stops granting a permission as soon as it is removed from the role', async () => {
+    const manager = session([UserRole.MANAGER]);
+    expect(await roleService.hasPermissions(manager, ['users:read'])).toBe(true);
+
+    await roleService.updateRole(UserRole.MANAGER, { permissions: ['tenants:read'] }, admin);
+
+    expect(await roleService.hasPermissions(manager, ['users:read'])).toBe(false);
+  });
+});
+
+describe('belongsToTenant', () => {
+  const tenantId = randomUUID();
+  let getMembership: jest.SpyInstance;
+
+  /**
+   * Runs the middleware for a session and resolves with the tenant it let through
+   */
+  const enterTenant = async (user: JWTPayload, roles?: UserRole[]) => {
+    const req = {
+      params: { tenantId },
+      body: {},
+      session: { user },
+      get: () => undefined,
+    } as unknown as Request;
+    const next = jest.fn() as NextFunction;
+
+    await belongsToTenant(roles)(req, {} as Response, next);
+    expect(next).toHaveBeenCalled();
+
+    return req.tenant;
+  };
+
+  const memberAs = (role: UserRole) =>
+    getMembership.mockResolvedValue({ tenantId, role } as TenantMembership);
+
+  beforeEach(() => {
+    getMembership = jest.spyOn(tenantService, 'getMembership').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    getMembership.mockRestore();
+  });
+
+  it('lets members in with their tenant role', async () => {
+    memberAs(UserRole.MANAGER);
+
+    expect(await enterTenant(session([UserRole.USER]))).toEqual({
+      id: tenantId,
+      role: UserRole.MANAGER,
+    });
+  });
+
+  it('lets platform admins into any tenant as tenant admins', async () => {
+    expect(await enterTenant(session([UserRole.ADMIN]), [UserRole.ADMIN])).toEqual({
+      id: tenantId,
+      role: UserRole.ADMIN,
+    });
+  });
+
+  it('keeps users without platform:admin out of tenants they are not members of', async () => {
+    await expect(enterTenant(session([UserRole.MANAGER]))).rejects.toMatchObject({
+      statusCode: HTTP_FORBIDDEN,
+    });
+  });
+
+  it('keeps sessions pinned to a tenant out of every other tenant', async () => {
+    const pinned = session([UserRole.ADMIN], { tenantId: randomUUID() });
+
+    await expect(enterTenant(pinned)).rejects.toMatchObject({ statusCode: HTTP_FORBIDDEN });
+  });
+
+  it('requires one of the given tenant roles', async () => {
+    memberAs(UserRole.USER);
+
+    await expect(enterTenant(session([UserRole.USER]), [UserRole.ADMIN])).rejects.toMatchObject({
+      statusCode: HTTP_FORBIDDEN,
+    });
+  });
+});
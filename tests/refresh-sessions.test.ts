@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Tests of refresh token rotation, reuse detection and per-device sessions
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { REFRESH_TOKEN_TTL, verifyToken } from '@/core/common/jwt';
+import { isTokenRevoked } from '@/core/common/token-revocation';
+import { User } from '@/entity/user.entity';
+import auditService from '@/services/audit';
+import { AuthService } from '@/services/auth';
+import { EmailService } from '@/services/email';
+import lockoutService from '@/services/lockout';
+import mfaService from '@/services/mfa';
+import userService from '@/services/user';
+import { JWTPayload } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+describe('refresh sessions', () => {
+  const authService = new AuthService(
+    userService,
+    { sendEmail: jest.fn() } as unknown as EmailService,
+    lockoutService,
+    mfaService,
+    auditService
+  );
+  let user: User;
+
+  const decode = (accessToken: string) => verifyToken(accessToken) as JWTPayload;
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z'), doNotFake: ['setImmediate'] });
+    user = await userService.createUser('ada@example.com', 'correct horse battery staple');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rotates the refresh token on every refresh', async () => {
+    const first = await authService.issueTokens(user);
+    const second = await authService.refreshTokens(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(decode(second.accessToken).sessionId).toBe(decode(first.accessToken).sessionId);
+    await expect(authService.refreshTokens(second.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('ends only the session whose rotated token is reused', async () => {
+    const phone = await authService.issueTokens(user);
+    const laptop = await authService.issueTokens(user);
+    const rotated = await authService.refreshTokens(phone.refreshToken);
+
+    await expect(authService.refreshTokens(phone.refreshToken)).rejects.toMatchObject({
+      message: 'Refresh token reuse detected',
+      statusCode: HTTP_UNAUTHENTICATED,
+    });
+    await expect(authService.refreshTokens(rotated.refreshToken)).rejects.toMatchObject({
+      message: 'Refresh token has been revoked',
+    });
+    await expect(authService.refreshTokens(laptop.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('keeps the other devices signed in on logout', async () => {
+    const phone = await authService.issueTokens(user);
+    const laptop = await authService.issueTokens(user);
+
+    await authService.logout(decode(phone.accessToken));
+
+    expect(await isTokenRevoked(decode(phone.accessToken))).toBe(true);
+    expect(await isTokenRevoked(decode(laptop.accessToken))).toBe(false);
+    await expect(authService.refreshTokens(phone.refreshToken)).rejects.toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+    });
+    await expect(authService.refreshTokens(laptop.refreshToken)).resolves.toBeDefined();
+  });
+
+  it('deletes sessions whose refresh token has expired', async () => {
+    const stale = await authService.issueTokens(user);
+    jest.advanceTimersByTime(REFRESH_TOKEN_TTL * 1000 - 60 * 1000);
+    const fresh = await authService.issueTokens(user);
+    jest.advanceTimersByTime(2 * 60 * 1000);
+
+    expect(await authService.expireSessions()).toBe(1);
+    await expect(authService.refreshTokens(stale.refreshToken)).rejects.toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+    });
+    await expect(authService.refreshTokens(fresh.refreshToken)).resolves.toBeDefined();
+  });
+});
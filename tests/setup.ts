@@ -0,0 +1,11 @@
+/**
+ * @fileoverview Environment of the test suite, set before any module under test loads
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import 'reflect-metadata';
+
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
@@ -0,0 +1,127 @@
+/**
+ * @fileoverview Tests of tenant-scoped data access
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { randomUUID } from 'crypto';
+import { HTTP_CONFLICT, HTTP_INTERNAL_SERVER_ERROR, HTTP_NOT_FOUND } from '@/core/common/constants';
+import { getTenantRepository, runInTenant } from '@/core/db/tenant-context';
+import { AppDataSource } from '@/data-source';
+import { Tenant } from '@/entity/tenant.entity';
+import { TenantMembership } from '@/entity/tenant-membership.entity';
+import { User } from '@/entity/user.entity';
+import tenantService from '@/services/tenant';
+import userService from '@/services/user';
+import { UserRole } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+describe('tenant scoping', () => {
+  let acme: Tenant;
+  let globex: Tenant;
+  let ada: User;
+  let grace: User;
+
+  /** Runs a call as an admin of a tenant */
+  const inTenant = <T>(tenant: Tenant, callback: () => T) =>
+    runInTenant({ id: tenant.id, role: UserRole.ADMIN }, callback);
+
+  const createUser = () =>
+    userService.createUser(`${randomUUID()}@example.com`, 'correct horse battery', {
+      isActive: true,
+    });
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    const tenants = AppDataSource.getRepository(Tenant);
+    acme = await tenants.save({ name: 'Acme', slug: 'acme' });
+    globex = await tenants.save({ name: 'Globex', slug: 'globex' });
+    ada = await createUser();
+    grace = await createUser();
+
+    const memberships = AppDataSource.getRepository(TenantMembership);
+    await memberships.save({ tenantId: acme.id, userId: ada.id, role: UserRole.ADMIN });
+    await memberships.save({ tenantId: acme.id, userId: grace.id, role: UserRole.USER });
+    await memberships.save({ tenantId: globex.id, userId: grace.id, role: UserRole.ADMIN });
+  });
+
+  it('refuses scoped queries made outside a tenant context', async () => {
+    const memberships = getTenantRepository(TenantMembership);
+
+    expect(() => memberships.find()).toThrow('Tenant-scoped query made outside a tenant context');
+    await expect(tenantService.listMembers()).rejects.toMatchObject({
+      statusCode: HTTP_INTERNAL_SERVER_ERROR,
+    });
+  });
+
+  it("lists only the current tenant's members", async () => {
+    const members = await inTenant(acme, () => tenantService.listMembers());
+    const others = await inTenant(globex, () => tenantService.listMembers());
+
+    expect(members.map(member => member.userId).sort()).toEqual([ada.id, grace.id].sort());
+    expect(others).toEqual([expect.objectContaining({ userId: grace.id, tenantId: globex.id })]);
+  });
+
+  it('keeps every branch of OR criteria inside the tenant', async () => {
+    const found = await inTenant(globex, () =>
+      getTenantRepository(TenantMembership).find({
+        where: [{ userId: ada.id }, { role: UserRole.ADMIN }],
+      })
+    );
+
+    expect(found).toEqual([expect.objectContaining({ userId: grace.id, tenantId: globex.id })]);
+  });
+
+  it("does not change or remove another tenant's members", async () => {
+    await expect(
+      inTenant(globex, () => tenantService.updateMemberRole(ada.id, UserRole.ADMIN))
+    ).rejects.toMatchObject({ statusCode: HTTP_NOT_FOUND });
+    await expect(inTenant(globex, () => tenantService.removeMember(ada.id))).rejects.toMatchObject({
+      statusCode: HTTP_NOT_FOUND,
+    });
+
+    await expect(tenantService.getMembership(acme.id, ada.id)).resolves.toMatchObject({
+      role: UserRole.ADMIN,
+    });
+  });
+
+  it('refuses to save a row of another tenant', async () => {
+    const membership = (await tenantService.getMembership(acme.id, grace.id)) as TenantMembership;
+    membership.role = UserRole.ADMIN;
+
+    expect(() =>
+      inTenant(globex, () => getTenantRepository(TenantMembership).save(membership))
+    ).toThrow('Entity does not belong to the current tenant');
+    await expect(tenantService.getMembership(acme.id, grace.id)).resolves.toMatchObject({
+      role: UserRole.USER,
+    });
+  });
+
+  it('creates rows in the current tenant', () => {
+    const membership = inTenant(acme, () =>
+      getTenantRepository(TenantMembership).create({ tenantId: globex.id, userId: ada.id })
+    );
+
+    expect(membership.tenantId).toBe(acme.id);
+  });
+
+  it("keeps each tenant's last admin", async () => {
+    await expect(
+      inTenant(acme, () => tenantService.updateMemberRole(ada.id, UserRole.USER))
+    ).rejects.toMatchObject({ statusCode: HTTP_CONFLICT });
+    await expect(
+      inTenant(globex, () => tenantService.removeMember(grace.id))
+    ).rejects.toMatchObject({ statusCode: HTTP_CONFLICT });
+
+    await inTenant(acme, () => tenantService.updateMemberRole(grace.id, UserRole.ADMIN));
+    await expect(
+      inTenant(acme, () => tenantService.updateMemberRole(ada.id, UserRole.USER))
+    ).resolves.toMatchObject({ role: UserRole.USER });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Tests of access token revocation
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { HTTP_UNAUTHENTICATED } from '@/core/common/constants';
+import { verifyToken } from '@/core/common/jwt';
+import { isTokenRevoked, revokeToken } from '@/core/common/token-revocation';
+import { User } from '@/entity/user.entity';
+import auditService from '@/services/audit';
+import { AuthService } from '@/services/auth';
+import { EmailService } from '@/services/email';
+import lockoutService from '@/services/lockout';
+import mfaService from '@/services/mfa';
+import userService from '@/services/user';
+import { JWTPayload } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+describe('token revocation', () => {
+  const authService = new AuthService(
+    userService,
+    { sendEmail: jest.fn() } as unknown as EmailService,
+    lockoutService,
+    mfaService,
+    auditService
+  );
+  let user: User;
+
+  const decode = (accessToken: string) => verifyToken(accessToken) as JWTPayload;
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    jest.useFakeTimers({ now: new Date('2024-06-01T12:00:00Z'), doNotFake: ['setImmediate'] });
+    user = await userService.createUser('ada@example.com', 'correct horse battery staple');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('revokes a single token by its jti', async () => {
+    const first = decode((await authService.issueTokens(user)).accessToken);
+    const second = decode((await authService.issueTokens(user)).accessToken);
+
+    await revokeToken(first);
+
+    expect(await isTokenRevoked(first)).toBe(true);
+    expect(await isTokenRevoked(second)).toBe(false);
+  });
+
+  it('revokes every token and session issued before revokeAllSessions', async () => {
+    const before = await authService.issueTokens(user);
+    jest.advanceTimersByTime(1000);
+
+    await authService.revokeAllSessions(user.id);
+    const after = await authService.issueTokens(user);
+
+    expect(await isTokenRevoked(decode(before.accessToken))).toBe(true);
+    expect(await isTokenRevoked(decode(after.accessToken))).toBe(false);
+    await expect(authService.refreshTokens(before.refreshToken)).rejects.toMatchObject({
+      statusCode: HTTP_UNAUTHENTICATED,
+    });
+  });
+
+  it('revokes a token issued earlier in the same second as revokeAllSessions', async () => {
+    const before = decode((await authService.issueTokens(user)).accessToken);
+    jest.advanceTimersByTime(200);
+
+    await authService.revokeAllSessions(user.id);
+    jest.advanceTimersByTime(200);
+    const after = decode((await authService.issueTokens(user)).accessToken);
+
+    expect(after.iat).toBe(before.iat);
+    expect(await isTokenRevoked(before)).toBe(true);
+    expect(await isTokenRevoked(after)).toBe(false);
+  });
+
+  it('treats a token without iatMs as issued at the start of its second', async () => {
+    const legacy = { userId: user.id, email: user.email, iat: Math.floor(Date.now() / 1000) };
+    jest.advanceTimersByTime(500);
+
+    await authService.revokeAllSessions(user.id);
+
+    expect(await isTokenRevoked(legacy)).toBe(true);
+  });
+});
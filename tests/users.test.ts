@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Tests of the checks guarding actions on other users' accounts
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+jest.mock('@/core/db/redis', () => jest.requireActual('./helpers/memory-redis'));
+jest.mock('@/data-source', () => jest.requireActual('./helpers/memory-data-source'));
+
+import { randomUUID } from 'crypto';
+import { HTTP_FORBIDDEN, HTTP_NOT_FOUND } from '@/core/common/constants';
+import roleService from '@/services/role';
+import userService from '@/services/user';
+import { JWTPayload, UserRole } from 'types';
+import { resetDatabase } from './helpers/memory-data-source';
+import { resetRedis } from './helpers/memory-redis';
+
+const session = (roles: string[]): JWTPayload => ({
+  userId: randomUUID(),
+  email: 'operator@example.com',
+  roles,
+});
+
+describe('RoleService.assertCanManage', () => {
+  const admin = session([UserRole.ADMIN]);
+  const userAdmin = session(['user-admin']);
+
+  beforeEach(async () => {
+    resetRedis();
+    resetDatabase();
+    await roleService.seedDefaultRoles();
+    await roleService.createRole(
+      { name: 'user-admin', permissions: ['users:read', 'users:write'] },
+      admin
+    );
+  });
+
+  const createUser = (roles: string[]) =>
+    userService.createUser(`${randomUUID()}@example.com`, 'correct horse battery', { roles });
+
+  it('lets a user administrator act on users with fewer permissions', async () => {
+    const user = await createUser([UserRole.USER]);
+
+    await expect(roleService.assertCanManage(user.id, userAdmin)).resolves.toMatchObject({
+      id: user.id,
+    });
+  });
+
+  it('keeps a user administrator away from accounts with permissions they lack', async () => {
+    const target = await createUser([UserRole.ADMIN]);
+    const manager = await createUser([UserRole.MANAGER]);
+
+    await expect(roleService.assertCanManage(target.id, userAdmin)).rejects.toMatchObject({
+      statusCode: HTTP_FORBIDDEN,
+    });
+    await expect(roleService.assertCanManage(manager.id, userAdmin)).rejects.toMatchObject({
+      message: "Cannot manage a user with permissions you don't have: tenants:read",
+    });
+    await expect(roleService.assertCanManage(target.id, admin)).resolves.toBeDefined();
+  });
+
+  it('checks soft-deleted users too', async () => {
+    const target = await createUser([UserRole.ADMIN]);
+    await userService.deleteUser(target.id);
+
+    await expect(roleService.assertCanManage(target.id, userAdmin)).rejects.toMatchObject({
+      statusCode: HTTP_FORBIDDEN,
+    });
+  });
+
+  it('reports unknown users', async () => {
+    await expect(roleService.assertCanManage(randomUUID(), admin)).rejects.toMatchObject({
+      statusCode: HTTP_NOT_FOUND,
+    });
+  });
+});
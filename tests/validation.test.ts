@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Tests of request validation against DTOs
+ * @copyright COCO Inc. 2024
+ * @author Kehinde Fasunle <kfasunle@gmail.com>
+ * @see {@link https://github.com/fasunle}
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { HTTP_UNPROCESSABLE_ENTITY, VALIDATION_ERROR } from '@/core/common/constants';
+import { validate, ValidationSchemas } from '@/core/common/validation';
+import { RegisterDto } from '@/dtos/auth.dto';
+import { SetIdentityProviderDto } from '@/dtos/tenant.dto';
+import { ListUsersQueryDto, UserIdParamsDto } from '@/dtos/user.dto';
+
+/**
+ * Validates a request and resolves with it once the middleware let it through
+ */
+const check = async (schemas: ValidationSchemas, parts: Partial<Request>) => {
+  const req = { params: {}, query: {}, body: {}, ...parts } as Request;
+  const next = jest.fn() as NextFunction;
+
+  await validate(schemas)(req, {} as Response, next);
+  expect(next).toHaveBeenCalledWith();
+
+  return req;
+};
+
+/**
+ * Validates a request that must be rejected and resolves with the invalid fields
+ */
+const fieldErrors = (schemas: ValidationSchemas, parts: Partial<Request>) =>
+  check(schemas, parts).then(
+    () => {
+      throw new Error('Request was accepted');
+    },
+    error => {
+      expect(error).toMatchObject({
+        name: VALIDATION_ERROR,
+        statusCode: HTTP_UNPROCESSABLE_ENTITY,
+      });
+      return error.data;
+    }
+  );
+
+describe('validate', () => {
+  const register = {
+    email: '  Ada@Example.COM ',
+    password: 'correct horse battery',
+    name: ' Ada Lovelace ',
+  };
+
+  it('normalizes the body and strips undeclared fields', async () => {
+    const req = await check({ body: RegisterDto }, { body: { ...register, roles: ['admin'] } });
+
+    expect(req.body).toBeInstanceOf(RegisterDto);
+    expect(req.body).toEqual({
+      email: 'ada@example.com',
+      password: 'correct horse battery',
+      name: 'Ada Lovelace',
+    });
+  });
+
+  it('reports every invalid field at once with the first rule it failed', async () => {
+    const errors = await fieldErrors(
+      { body: RegisterDto },
+      { body: { email: 'ada', password: 'short', name: '   ' } }
+    );
+
+    expect(errors).toEqual([
+      { location: 'body', field: 'email', message: 'email must be a valid email address' },
+      {
+        location: 'body',
+        field: 'password',
+        message: 'password must be at least 8 characters long',
+      },
+      { location: 'body', field: 'name', message: 'name is required' },
+    ]);
+  });
+
+  it('limits passwords to the bytes bcrypt reads', async () => {
+    const errors = await fieldErrors(
+      { body: RegisterDto },
+      { body: { ...register, password: 'é'.repeat(37) } }
+    );
+
+    expect(errors).toEqual([
+      { location: 'body', field: 'password', message: 'password must be at most 72 bytes long' },
+    ]);
+  });
+
+  it('does not convert body values to the declared types', async () => {
+    const errors = await fieldErrors({ body: RegisterDto }, { body: { ...register, name: 12345 } });
+
+    expect(errors).toEqual([expect.objectContaining({ location: 'body', field: 'name' })]);
+  });
+
+  it('converts query strings and fills in defaults', async () => {
+    const req = await check(
+      { query: ListUsersQueryDto },
+      { query: { offset: '40', isActive: 'false' } as Request['query'] }
+    );
+
+    expect(req.query).toMatchObject({
+      offset: 40,
+      isActive: false,
+      limit: 20,
+      sortBy: 'createdAt',
+      order: 'desc',
+    });
+  });
+
+  it('rejects out-of-range and unknown query values', async () => {
+    const errors = await fieldErrors(
+      { query: ListUsersQueryDto },
+      { query: { limit: '500', order: 'sideways', isActive: 'yes' } as Request['query'] }
+    );
+
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        {
+          location: 'query',
+          field: 'limit',
+          message: 'limit must be an integer between 1 and 100',
+        },
+        { location: 'query', field: 'order', message: 'order must be asc or desc' },
+        { location: 'query', field: 'isActive', message: 'isActive must be true or false' },
+      ])
+    );
+  });
+
+  it('reports the route parameters before the body', async () => {
+    const errors = await fieldErrors(
+      { params: UserIdParamsDto, body: RegisterDto },
+      { params: { userId: '42' }, body: { ...register, email: 'nope' } }
+    );
+
+    expect(errors.map((error: { location: string }) => error.location)).toEqual(['params', 'body']);
+  });
+
+  it('rejects a body that is not an object', async () => {
+    const errors = await fieldErrors({ body: RegisterDto }, { body: ['ada@example.com'] });
+
+    expect(errors).toEqual([{ location: 'body', field: '', message: 'body must be an object' }]);
+  });
+
+  it('accepts only HTTPS issuers for tenant identity providers', async () => {
+    const provider = { clientId: 'acme', clientSecret: 's3cret' };
+
+    await expect(
+      check(
+        { body: SetIdentityProviderDto },
+        { body: { ...provider, issuer: 'https://idp.acme.test' } }
+      )
+    ).resolves.toBeDefined();
+    expect(
+      await fieldErrors(
+        { body: SetIdentityProviderDto },
+        { body: { ...provider, issuer: 'http://idp.acme.test' } }
+      )
+    ).toEqual([{ location: 'body', field: 'issuer', message: 'issuer must be an HTTPS URL' }]);
+  });
+});